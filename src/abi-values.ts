@@ -0,0 +1,156 @@
+/**
+ * ABI Values
+ * Coerces JSON tool arguments into ABI values and turns decoded values back into plain JSON-friendly ones
+ */
+
+import { ethers } from 'ethers';
+
+/**
+ * Convert one decoded value: integers become decimal strings, tuples become objects keyed by
+ * component name and indexed dynamic values (only stored as a hash) become that hash
+ */
+export function formatAbiValue(param: ethers.ParamType, value: unknown): unknown {
+  if (value instanceof ethers.Indexed) {
+    return value.hash;
+  }
+  if (param.isTuple() && Array.isArray(value)) {
+    return formatAbiValues(param.components, value);
+  }
+  if (param.isArray() && Array.isArray(value)) {
+    return value.map((item) => formatAbiValue(param.arrayChildren, item));
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  return value;
+}
+
+/**
+ * Convert a list of decoded values into an object keyed by parameter name, or by position for unnamed parameters
+ */
+export function formatAbiValues(params: ReadonlyArray<ethers.ParamType>, values: ArrayLike<unknown>): Record<string, unknown> {
+  const formatted: Record<string, unknown> = {};
+  params.forEach((param, index) => {
+    formatted[param.name || String(index)] = formatAbiValue(param, values[index]);
+  });
+  return formatted;
+}
+
+/**
+ * Parse a human-readable function signature such as "balanceOf(address) returns (uint256)";
+ * the "function" keyword, parameter names and mutability are optional
+ */
+export function parseFunctionSignature(signature: string): ethers.FunctionFragment {
+  try {
+    return ethers.FunctionFragment.from(signature.trim());
+  } catch (error) {
+    throw new Error(`Invalid function signature "${signature}": ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Convert a JSON argument into the value the ABI coder expects for a parameter.
+ * Arrays and tuples may also be given as JSON strings, tuples as arrays or objects keyed by component name
+ */
+export function coerceAbiValue(param: ethers.ParamType, value: unknown, path: string = param.name || param.type): unknown {
+  const fail = (expected: string): never => {
+    throw new Error(`Parameter ${path} (${param.type}) must be ${expected}, got ${JSON.stringify(value)}`);
+  };
+
+  if ((param.isArray() || param.isTuple()) && typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      fail(param.isArray() ? 'an array' : 'an array or object');
+    }
+  }
+
+  if (param.isArray()) {
+    if (!Array.isArray(value)) {
+      return fail('an array');
+    }
+    if (param.arrayLength >= 0 && value.length !== param.arrayLength) {
+      fail(`an array of ${param.arrayLength} items`);
+    }
+    return value.map((item, index) => coerceAbiValue(param.arrayChildren, item, `${path}[${index}]`));
+  }
+
+  if (param.isTuple()) {
+    const components = param.components;
+    let items: unknown[];
+    if (Array.isArray(value)) {
+      items = value;
+    } else if (value && typeof value === 'object') {
+      const object = value as Record<string, unknown>;
+      items = components.map((component, index) => (component.name in object ? object[component.name] : object[index]));
+    } else {
+      return fail('an array or object');
+    }
+    if (items.length !== components.length) {
+      fail(`${components.length} values`);
+    }
+    return components.map((component, index) =>
+      coerceAbiValue(component, items[index], `${path}.${component.name || index}`)
+    );
+  }
+
+  switch (param.baseType) {
+    case 'address':
+      if (typeof value !== 'string' || !ethers.isAddress(value)) {
+        fail('an address');
+      }
+      return ethers.getAddress(value as string);
+
+    case 'bool':
+      if (typeof value === 'boolean') {
+        return value;
+      }
+      if (value === 'true' || value === 1 || value === '1') {
+        return true;
+      }
+      if (value === 'false' || value === 0 || value === '0') {
+        return false;
+      }
+      return fail('true or false');
+
+    case 'string':
+      return typeof value === 'string' ? value : fail('a string');
+
+    default:
+      break;
+  }
+
+  if (/^u?int\d*$/.test(param.type)) {
+    if (typeof value === 'bigint') {
+      return value;
+    }
+    if ((typeof value === 'number' && Number.isSafeInteger(value)) || (typeof value === 'string' && /^-?(\d+|0x[0-9a-f]+)$/i.test(value.trim()))) {
+      const text = String(value).trim();
+      return text.startsWith('-') ? -BigInt(text.slice(1)) : BigInt(text);
+    }
+    return fail('an integer or integer string');
+  }
+
+  if (/^bytes\d*$/.test(param.type)) {
+    if (typeof value !== 'string' || !ethers.isHexString(value)) {
+      return fail('a 0x-prefixed hex string');
+    }
+    const size = Number(param.type.slice(5));
+    if (size && ethers.dataLength(value) !== size) {
+      fail(`${size} bytes`);
+    }
+    return value;
+  }
+
+  return value;
+}
+
+/**
+ * Coerce a list of JSON arguments for a function or constructor's parameters
+ */
+export function coerceAbiValues(params: ReadonlyArray<ethers.ParamType>, values: unknown[]): unknown[] {
+  if (values.length !== params.length) {
+    throw new Error(`Expected ${params.length} parameters, got ${values.length}`);
+  }
+  return params.map((param, index) => coerceAbiValue(param, values[index]));
+}
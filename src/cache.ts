@@ -0,0 +1,227 @@
+/**
+ * Chain Data Cache
+ * Keeps chain data that can no longer change in memory (LRU) and optionally on disk,
+ * and caches reads of the chain head for a short time
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export interface CacheEntry {
+  value: unknown;
+  /** Unix time in milliseconds after which the entry is stale; unset for data that never changes */
+  expiresAt?: number;
+}
+
+/**
+ * Backend for cached entries; implement it to keep final data somewhere other than memory or disk
+ */
+export interface CacheStore {
+  get(key: string): CacheEntry | undefined;
+  set(key: string, entry: CacheEntry): void;
+  delete(key: string): void;
+}
+
+/**
+ * How long a value may be cached: "final" for data that can no longer change, "latest" for reads
+ * of the chain head (short TTL) and "none" for data that must always be fetched
+ */
+export type CacheLifetime = 'final' | 'latest' | 'none';
+
+export interface ChainCacheOptions {
+  /** Entries kept in memory before the least recently used are evicted */
+  maxEntries?: number;
+  /** Milliseconds "latest" entries stay fresh; 0 disables them */
+  latestTtl?: number;
+  /** Blocks a block must be behind the head before its data counts as final */
+  finalityDepth?: number;
+  /** Directory to persist final entries in across restarts */
+  directory?: string;
+  /** Persistent store for final entries, used instead of directory */
+  store?: CacheStore;
+}
+
+/**
+ * Read the cache options from ROOTSTOCK_CACHE_SIZE, ROOTSTOCK_CACHE_TTL, ROOTSTOCK_FINALITY_DEPTH and ROOTSTOCK_CACHE_DIR
+ */
+export function getCacheOptionsFromEnv(): ChainCacheOptions {
+  const options: ChainCacheOptions = {};
+  if (process.env.ROOTSTOCK_CACHE_SIZE) {
+    options.maxEntries = parseInt(process.env.ROOTSTOCK_CACHE_SIZE, 10);
+  }
+  if (process.env.ROOTSTOCK_CACHE_TTL) {
+    options.latestTtl = parseInt(process.env.ROOTSTOCK_CACHE_TTL, 10);
+  }
+  if (process.env.ROOTSTOCK_FINALITY_DEPTH) {
+    options.finalityDepth = parseInt(process.env.ROOTSTOCK_FINALITY_DEPTH, 10);
+  }
+  if (process.env.ROOTSTOCK_CACHE_DIR) {
+    options.directory = process.env.ROOTSTOCK_CACHE_DIR;
+  }
+  return options;
+}
+
+/**
+ * In-memory store that evicts the least recently used entry when full
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries: Map<string, CacheEntry> = new Map();
+  private maxEntries: number;
+
+  constructor(maxEntries: number = 5000) {
+    this.maxEntries = Math.max(1, maxEntries);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Map keeps insertion order, so re-inserting marks the entry as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Store with one JSON file per entry; values must be JSON-serializable
+ */
+export class FileCacheStore implements CacheStore {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const file = this.getFile(key);
+    if (!fs.existsSync(file)) {
+      return undefined;
+    }
+    try {
+      const stored = JSON.parse(fs.readFileSync(file, 'utf8'));
+      return stored.key === key ? stored.entry : undefined;
+    } catch {
+      // A corrupt file is treated as a miss and overwritten by the next set
+      return undefined;
+    }
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    try {
+      fs.mkdirSync(this.directory, { recursive: true, mode: 0o700 });
+      fs.writeFileSync(this.getFile(key), JSON.stringify({ key, entry }));
+    } catch (error) {
+      console.warn(`Failed to write cache entry ${key}: ${error}`);
+    }
+  }
+
+  delete(key: string): void {
+    fs.rmSync(this.getFile(key), { force: true });
+  }
+
+  private getFile(key: string): string {
+    return path.join(this.directory, `${crypto.createHash('sha256').update(key).digest('hex')}.json`);
+  }
+}
+
+export class ChainCache {
+  readonly finalityDepth: number;
+  private memory: MemoryCacheStore;
+  private store?: CacheStore;
+  private latestTtl: number;
+  private loading: Map<string, Promise<unknown>> = new Map();
+
+  constructor(options: ChainCacheOptions = {}) {
+    this.memory = new MemoryCacheStore(options.maxEntries ?? 5000);
+    this.store = options.store ?? (options.directory ? new FileCacheStore(options.directory) : undefined);
+    this.latestTtl = Math.max(0, options.latestTtl ?? 3000);
+    this.finalityDepth = Math.max(0, options.finalityDepth ?? 12);
+  }
+
+  get<T>(key: string): T | undefined {
+    let entry = this.memory.get(key);
+    if (!entry && this.store) {
+      entry = this.store.get(key);
+      if (entry) {
+        this.memory.set(key, entry);
+      }
+    }
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.memory.delete(key);
+      return undefined;
+    }
+    return entry.value as T;
+  }
+
+  set(key: string, value: unknown, lifetime: CacheLifetime): void {
+    if (lifetime === 'none' || (lifetime === 'latest' && this.latestTtl === 0)) {
+      return;
+    }
+    if (lifetime === 'latest') {
+      this.memory.set(key, { value, expiresAt: Date.now() + this.latestTtl });
+      return;
+    }
+    this.memory.set(key, { value });
+    this.store?.set(key, { value });
+  }
+
+  /**
+   * Return the cached value, or load it and cache it for the lifetime given (or derived from the value).
+   * Concurrent loads of the same key share one request
+   */
+  async getOrLoad<T>(
+    key: string,
+    load: () => Promise<T>,
+    lifetime: CacheLifetime | ((value: T) => CacheLifetime | Promise<CacheLifetime>)
+  ): Promise<T> {
+    const cached = this.get<T>(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const pending = this.loading.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const loaded = (async () => {
+      const value = await load();
+      this.set(key, value, typeof lifetime === 'function' ? await lifetime(value) : lifetime);
+      return value;
+    })();
+    this.loading.set(key, loaded);
+    try {
+      return await loaded;
+    } finally {
+      this.loading.delete(key);
+    }
+  }
+
+  /**
+   * Lifetime for data from a block: final once it is finalityDepth blocks behind the head
+   */
+  getBlockLifetime(blockNumber: number, headBlockNumber: number): CacheLifetime {
+    return headBlockNumber - blockNumber >= this.finalityDepth ? 'final' : 'latest';
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * HD Derivation
+ * BIP-44 derivation paths for Rootstock and Ethereum accounts
+ */
+
+import { ethers } from 'ethers';
+
+// BIP-44 base paths; the account index is appended as the last segment
+export const DERIVATION_PATHS = {
+  mainnet: "m/44'/137'/0'/0", // Rootstock mainnet (coin type 137)
+  testnet: "m/44'/37'/0'/0", // Rootstock testnet (coin type 37)
+  ethereum: "m/44'/60'/0'/0", // Ethereum (coin type 60)
+} as const;
+
+export type DerivationScheme = keyof typeof DERIVATION_PATHS;
+
+const PATH_PATTERN = /^m(\/\d+'?)*$/;
+
+/**
+ * Get the default derivation scheme for a chain ID
+ */
+export function getDefaultDerivationScheme(chainId?: number): DerivationScheme {
+  return chainId === 30 ? 'mainnet' : 'testnet';
+}
+
+/**
+ * Resolve the base path from a scheme name or a custom path
+ */
+export function resolveBasePath(scheme?: DerivationScheme, customPath?: string): string {
+  if (customPath) {
+    if (!PATH_PATTERN.test(customPath)) {
+      throw new Error(`Invalid derivation path: ${customPath}`);
+    }
+    return customPath;
+  }
+
+  const basePath = DERIVATION_PATHS[scheme || 'ethereum'];
+  if (!basePath) {
+    throw new Error(`Unknown derivation scheme: ${scheme}. Use one of: ${Object.keys(DERIVATION_PATHS).join(', ')}`);
+  }
+  return basePath;
+}
+
+/**
+ * Derive consecutive accounts below a base path
+ */
+export function deriveAccounts(
+  mnemonic: ethers.Mnemonic,
+  basePath: string,
+  count: number,
+  startIndex: number = 0
+): ethers.HDNodeWallet[] {
+  if (!Number.isInteger(count) || count < 1 || count > 100) {
+    throw new Error('Count must be an integer between 1 and 100');
+  }
+  if (!Number.isInteger(startIndex) || startIndex < 0) {
+    throw new Error('Start index must be a non-negative integer');
+  }
+
+  const accounts: ethers.HDNodeWallet[] = [];
+  for (let index = startIndex; index < startIndex + count; index++) {
+    accounts.push(ethers.HDNodeWallet.fromMnemonic(mnemonic, `${basePath}/${index}`));
+  }
+  return accounts;
+}
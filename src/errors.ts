@@ -0,0 +1,164 @@
+/**
+ * Errors
+ * Typed errors with stable codes and remediation hints, so tool results can be handled in code
+ */
+
+import { ethers } from 'ethers';
+
+export type ErrorCode =
+  | 'INSUFFICIENT_FUNDS'
+  | 'NONCE_TOO_LOW'
+  | 'REPLACEMENT_UNDERPRICED'
+  | 'REVERTED'
+  | 'RPC_UNAVAILABLE'
+  | 'INVALID_ADDRESS'
+  | 'INVALID_PARAMS'
+  | 'WALLET_NOT_FOUND'
+  | 'WALLET_LOCKED'
+  | 'KEYSTORE_LOCKED'
+  | 'WALLET_READ_ONLY'
+  | 'POLICY_VIOLATION'
+  | 'CONFIRMATION_REQUIRED'
+  | 'NOT_FOUND'
+  | 'UNKNOWN';
+
+const HINTS: Partial<Record<ErrorCode, string>> = {
+  INSUFFICIENT_FUNDS: 'Fund the sending wallet with enough RBTC for the value plus gas, or lower the amount',
+  NONCE_TOO_LOW: 'A transaction with this nonce was already mined; retry without a nonce so the next free one is used',
+  REPLACEMENT_UNDERPRICED: 'A pending transaction uses this nonce; replacements must pay at least 40% more gas',
+  REVERTED: 'The contract rejected the call; check the parameters, balances and allowances, or retry with simulate: true to see the revert reason',
+  RPC_UNAVAILABLE: 'The RPC endpoint did not answer; retry later or add endpoints to ROOTSTOCK_FALLBACK_RPC_URLS',
+  INVALID_ADDRESS: 'Pass a 0x-prefixed 20-byte hex address or the name of a wallet from list_wallets',
+  WALLET_NOT_FOUND: 'Call list_wallets to see the available wallets, or add one with create_wallet or import_wallet',
+  WALLET_LOCKED: 'Unlock the keystore with unlock_keystore and the right passphrase',
+  KEYSTORE_LOCKED: 'Unlock the keystore with unlock_keystore, then retry',
+  WALLET_READ_ONLY: 'Watch-only wallets cannot sign; import the key with import_wallet or use add_remote_signer',
+  POLICY_VIOLATION: 'The spending policy blocks this transaction; lower the amount or change ROOTSTOCK_SPENDING_POLICY',
+  CONFIRMATION_REQUIRED: 'Repeat the call with confirmMainnet: true to proceed',
+};
+
+// Ethers error codes, checked before falling back to the message text
+const ETHERS_CODES: Partial<Record<ethers.ErrorCode, ErrorCode>> = {
+  INSUFFICIENT_FUNDS: 'INSUFFICIENT_FUNDS',
+  NONCE_EXPIRED: 'NONCE_TOO_LOW',
+  REPLACEMENT_UNDERPRICED: 'REPLACEMENT_UNDERPRICED',
+  CALL_EXCEPTION: 'REVERTED',
+  NETWORK_ERROR: 'RPC_UNAVAILABLE',
+  SERVER_ERROR: 'RPC_UNAVAILABLE',
+  TIMEOUT: 'RPC_UNAVAILABLE',
+  UNCONFIGURED_NAME: 'INVALID_ADDRESS',
+  INVALID_ARGUMENT: 'INVALID_PARAMS',
+  MISSING_ARGUMENT: 'INVALID_PARAMS',
+  UNEXPECTED_ARGUMENT: 'INVALID_PARAMS',
+};
+
+// Nodes and the rest of this server only report some failures as text; the first match wins
+const MESSAGE_PATTERNS: Array<[RegExp, ErrorCode]> = [
+  [/insufficient funds|insufficient balance/i, 'INSUFFICIENT_FUNDS'],
+  [/nonce too low|nonce has already been used|nonce.*expired/i, 'NONCE_TOO_LOW'],
+  [/replacement (transaction )?underpriced|gas price is not enough/i, 'REPLACEMENT_UNDERPRICED'],
+  [/spending policy violation/i, 'POLICY_VIOLATION'],
+  [/confirmMainnet/, 'CONFIRMATION_REQUIRED'],
+  [/invalid address|bad address checksum|not a valid address/i, 'INVALID_ADDRESS'],
+  [/wallet not found|no current wallet|no wallet configured/i, 'WALLET_NOT_FOUND'],
+  [/keystore is locked/i, 'KEYSTORE_LOCKED'],
+  [/invalid keystore passphrase/i, 'WALLET_LOCKED'],
+  [/watch-only/i, 'WALLET_READ_ONLY'],
+  [/revert|call exception/i, 'REVERTED'],
+  [/all rpc endpoints failed|ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENOTFOUND|timeout|network error|failed to detect network|bad gateway|service unavailable|too many requests/i, 'RPC_UNAVAILABLE'],
+  [/not found/i, 'NOT_FOUND'],
+];
+
+export interface RootstockErrorOptions {
+  /** What was being done, reported as "Failed to <action>: <reason>" */
+  action?: string;
+  hint?: string;
+  cause?: unknown;
+}
+
+export class RootstockError extends Error {
+  readonly code: ErrorCode;
+  /** Why it failed, without the action */
+  readonly reason: string;
+  readonly action?: string;
+  readonly hint?: string;
+
+  constructor(code: ErrorCode, reason: string, options: RootstockErrorOptions = {}) {
+    super(options.action ? `Failed to ${options.action}: ${reason}` : reason, { cause: options.cause });
+    this.name = 'RootstockError';
+    this.code = code;
+    this.reason = reason;
+    this.action = options.action;
+    this.hint = options.hint ?? HINTS[code];
+  }
+}
+
+/**
+ * Classify any thrown value, keeping the code of errors that are already typed
+ */
+export function toRootstockError(error: unknown): RootstockError {
+  if (error instanceof RootstockError) {
+    return error;
+  }
+
+  const reason = getReason(error);
+  const code = getEthersCode(error, reason) ?? MESSAGE_PATTERNS.find(([pattern]) => pattern.test(reason))?.[1] ?? 'UNKNOWN';
+  return new RootstockError(code, reason, { cause: error });
+}
+
+/**
+ * Wrap a failure with what was being done. Wrapping an already wrapped error replaces its action
+ * rather than nesting it, so messages stay one level deep
+ */
+export function wrapError(action: string, error: unknown): RootstockError {
+  const typed = toRootstockError(error);
+  return new RootstockError(typed.code, typed.reason, { action, hint: typed.hint, cause: typed.cause ?? typed });
+}
+
+/**
+ * MCP tool result for a failure, with the code and hint as structured content
+ */
+export function toToolErrorResult(error: unknown) {
+  const typed = toRootstockError(error);
+  let text = `Error [${typed.code}]: ${typed.message}`;
+  if (typed.hint) {
+    text += `\nHint: ${typed.hint}`;
+  }
+
+  return {
+    content: [{ type: 'text' as const, text }],
+    structuredContent: {
+      code: typed.code,
+      message: typed.message,
+      ...(typed.hint ? { hint: typed.hint } : {}),
+    },
+    isError: true,
+  };
+}
+
+function getEthersCode(error: unknown, reason: string): ErrorCode | undefined {
+  const ethersCode = (error as { code?: unknown } | null)?.code;
+  if (typeof ethersCode !== 'string' || !ethers.isError(error, ethersCode as ethers.ErrorCode)) {
+    return undefined;
+  }
+  // Nodes report some failures, such as a low nonce, as a generic server or call error
+  const code = ETHERS_CODES[ethersCode as ethers.ErrorCode];
+  if (code === 'RPC_UNAVAILABLE' || code === 'REVERTED' || code === 'INVALID_PARAMS') {
+    const matched = MESSAGE_PATTERNS.find(([pattern]) => pattern.test(reason))?.[1];
+    if (matched && matched !== 'NOT_FOUND') {
+      return matched;
+    }
+  }
+  return code;
+}
+
+function getReason(error: unknown): string {
+  if (!(error instanceof Error)) {
+    return String(error);
+  }
+  // Ethers messages repeat the request and response; the short message is enough
+  const shortMessage = (error as Partial<ethers.EthersError>).shortMessage;
+  const revertReason = (error as Partial<ethers.CallExceptionError>).reason;
+  const message = shortMessage ?? error.message;
+  return revertReason && !message.includes(revertReason) ? `${message} (${revertReason})` : message;
+}
@@ -0,0 +1,200 @@
+/**
+ * Event Logs
+ * Queries contract events over block ranges in chunks and decodes them with an ABI
+ */
+
+import { ethers } from 'ethers';
+import { ERC20_ABI, ERC721_ABI } from './erc20-contracts.js';
+import { formatAbiValues } from './abi-values.js';
+import { DecodedLog, LogQueryResult } from './types.js';
+
+export type StandardAbi = 'erc20' | 'erc721';
+
+type AbiDefinition = ReadonlyArray<ethers.Fragment | ethers.JsonFragment | string>;
+
+export interface LogQuery {
+  address?: string | string[];
+  topics?: Array<string | string[] | null>;
+  /** Event name from the ABI, or a signature such as "Transfer(address,address,uint256)" */
+  event?: string;
+  /** ABI to decode with; by default ERC20 and then ERC721 events are tried */
+  abi?: AbiDefinition | StandardAbi;
+  fromBlock: number;
+  toBlock: number;
+}
+
+export interface EventLogReaderOptions {
+  /** Blocks per eth_getLogs request */
+  chunkSize?: number;
+  /** Logs returned per query before it is truncated */
+  maxLogs?: number;
+  /** Largest block range a single query may cover */
+  maxBlockRange?: number;
+}
+
+const STANDARD_ABIS: Record<StandardAbi, string[]> = {
+  erc20: ERC20_ABI,
+  erc721: ERC721_ABI,
+};
+
+// Nodes and providers word their range and result size limits differently
+const RANGE_LIMIT_PATTERN = /block range|range (is )?too (large|wide)|limit exceeded|too many|more than \d+ (results|logs)|response size|query timeout/i;
+
+export class EventLogReader {
+  private chunkSize: number;
+  private maxLogs: number;
+  private maxBlockRange: number;
+
+  constructor(options: EventLogReaderOptions = {}) {
+    this.chunkSize = Math.max(1, options.chunkSize ?? 2000);
+    this.maxLogs = Math.max(1, options.maxLogs ?? 1000);
+    this.maxBlockRange = options.maxBlockRange ?? 100000;
+  }
+
+  /**
+   * Get the logs matching a filter, decoding those that belong to a known event
+   */
+  async getLogs(provider: ethers.Provider, query: LogQuery): Promise<LogQueryResult> {
+    if (query.fromBlock < 0 || query.toBlock < query.fromBlock) {
+      throw new Error(`Invalid block range: ${query.fromBlock} to ${query.toBlock}`);
+    }
+    if (query.toBlock - query.fromBlock + 1 > this.maxBlockRange) {
+      throw new Error(`Block range is larger than ${this.maxBlockRange} blocks; narrow fromBlock and toBlock`);
+    }
+
+    const decoders = this.getDecoders(query.abi, query.event);
+    const topics = [...(query.topics || [])];
+    if (query.event) {
+      if (topics[0]) {
+        throw new Error('Pass either event or a first topic, not both');
+      }
+      topics[0] = this.getEventTopic(query.event, decoders);
+    }
+
+    const filter = { address: query.address, topics: topics.length > 0 ? topics : undefined };
+    let logs: ethers.Log[] = [];
+    let toBlock = query.fromBlock - 1;
+    let truncated = false;
+
+    for (let start = query.fromBlock; start <= query.toBlock; start += this.chunkSize) {
+      const end = Math.min(query.toBlock, start + this.chunkSize - 1);
+      logs.push(...await this.fetchRange(provider, filter, start, end));
+      toBlock = end;
+
+      if (logs.length > this.maxLogs) {
+        // Only report whole blocks, so the caller can continue from toBlock + 1 without missing logs
+        const cutoff = logs[this.maxLogs].blockNumber;
+        logs = logs.filter((log) => log.blockNumber < cutoff);
+        if (logs.length === 0) {
+          throw new Error(
+            `Block ${cutoff} alone has more than ${this.maxLogs} matching logs; raise maxLogs or narrow the query with address, event or topics`
+          );
+        }
+        toBlock = cutoff - 1;
+        truncated = true;
+        break;
+      }
+      if (logs.length === this.maxLogs) {
+        truncated = end < query.toBlock;
+        break;
+      }
+    }
+
+    return {
+      logs: logs.map((log) => decodeLog(log, decoders)),
+      fromBlock: query.fromBlock,
+      toBlock,
+      truncated,
+    };
+  }
+
+  /**
+   * Fetch one chunk, halving it while the node rejects the range or result size
+   */
+  private async fetchRange(
+    provider: ethers.Provider,
+    filter: ethers.Filter,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<ethers.Log[]> {
+    try {
+      return await provider.getLogs({ ...filter, fromBlock, toBlock });
+    } catch (error) {
+      if (fromBlock === toBlock || !RANGE_LIMIT_PATTERN.test(String((error as Error)?.message ?? error))) {
+        throw error;
+      }
+      const middle = Math.floor((fromBlock + toBlock) / 2);
+      return [
+        ...await this.fetchRange(provider, filter, fromBlock, middle),
+        ...await this.fetchRange(provider, filter, middle + 1, toBlock),
+      ];
+    }
+  }
+
+  private getDecoders(abi?: AbiDefinition | StandardAbi, event?: string): ethers.Interface[] {
+    if (typeof abi === 'string') {
+      if (!STANDARD_ABIS[abi]) {
+        throw new Error(`Unknown ABI: ${abi}. Use erc20, erc721 or an ABI array`);
+      }
+      return [new ethers.Interface(STANDARD_ABIS[abi])];
+    }
+
+    const decoders: ethers.Interface[] = [];
+    if (abi) {
+      decoders.push(new ethers.Interface(abi));
+    }
+    // A full event declaration carries the indexed flags, so it can decode on its own
+    if (event && /\bindexed\b|^\s*event\s/.test(event)) {
+      decoders.push(new ethers.Interface([ethers.EventFragment.from(event)]));
+    }
+    if (!abi) {
+      decoders.push(new ethers.Interface(ERC20_ABI), new ethers.Interface(ERC721_ABI));
+    }
+    return decoders;
+  }
+
+  private getEventTopic(event: string, decoders: ethers.Interface[]): string {
+    if (event.includes('(')) {
+      return ethers.EventFragment.from(event).topicHash;
+    }
+    for (const decoder of decoders) {
+      const fragment = decoder.getEvent(event);
+      if (fragment) {
+        return fragment.topicHash;
+      }
+    }
+    throw new Error(`Event ${event} is not in the ABI`);
+  }
+}
+
+/**
+ * Decode a log with the first interface that has a matching event; logs no interface matches are returned raw
+ */
+export function decodeLog(log: ethers.Log, decoders: ethers.Interface[]): DecodedLog {
+  const decoded: DecodedLog = {
+    address: log.address,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    logIndex: log.index,
+    topics: [...log.topics],
+    data: log.data,
+  };
+
+  for (const decoder of decoders) {
+    try {
+      const parsed = decoder.parseLog({ topics: [...log.topics], data: log.data });
+      if (parsed) {
+        return {
+          ...decoded,
+          event: parsed.name,
+          signature: parsed.signature,
+          args: formatAbiValues(parsed.fragment.inputs, parsed.args),
+        };
+      }
+    } catch {
+      // Same topic but a different layout, e.g. ERC20 and ERC721 Transfer; try the next interface
+    }
+  }
+  return decoded;
+}
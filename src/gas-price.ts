@@ -0,0 +1,129 @@
+/**
+ * Gas Price Strategy
+ * Prices transactions from Rootstock's per-block minimumGasPrice
+ */
+
+import { ethers } from 'ethers';
+import { GasSpeed } from './types.js';
+import { ChainCache } from './cache.js';
+
+export interface GasPriceQuote {
+  blockNumber: number;
+  /** Highest minimumGasPrice of the sampled blocks, if the chain reports one */
+  minimumGasPrice?: bigint;
+  /** The node's eth_gasPrice suggestion */
+  networkGasPrice: bigint;
+  slow: bigint;
+  normal: bigint;
+  fast: bigint;
+}
+
+export interface GasPriceOracleOptions {
+  /** Recent blocks to read minimumGasPrice from */
+  sampleBlocks?: number;
+  /** Reuse quotes for the cache's latest TTL instead of reading the blocks for every transaction */
+  cache?: ChainCache;
+  /** Cache key for quotes, scoped to the network */
+  cacheKey?: string;
+}
+
+export const GAS_SPEEDS: GasSpeed[] = ['slow', 'normal', 'fast'];
+
+// Percent of the block minimum for each preset. Miners can raise the minimum by up to 1% per block,
+// so even "slow" keeps some headroom to still be minable a few blocks later.
+const PRESET_PERCENT: Record<GasSpeed, bigint> = {
+  slow: 105n,
+  normal: 120n,
+  fast: 150n,
+};
+
+interface RawBlock {
+  number: string;
+  minimumGasPrice?: string;
+}
+
+export class GasPriceOracle {
+  private sampleBlocks: number;
+  private cache?: ChainCache;
+  private cacheKey: string;
+
+  constructor(options: GasPriceOracleOptions = {}) {
+    this.sampleBlocks = Math.max(1, options.sampleBlocks ?? 5);
+    this.cache = options.cache;
+    this.cacheKey = options.cacheKey ?? 'gas-quote';
+  }
+
+  /**
+   * Get the presets for the latest block, from the cache while it is fresh
+   */
+  async getQuote(provider: ethers.JsonRpcApiProvider): Promise<GasPriceQuote> {
+    if (!this.cache) {
+      return this.readQuote(provider);
+    }
+    return this.cache.getOrLoad(this.cacheKey, () => this.readQuote(provider), 'latest');
+  }
+
+  /**
+   * Read the minimum gas price of recent blocks and derive the presets
+   */
+  private async readQuote(provider: ethers.JsonRpcApiProvider): Promise<GasPriceQuote> {
+    const [latest, networkGasPrice] = await Promise.all([
+      provider.send('eth_getBlockByNumber', ['latest', false]) as Promise<RawBlock>,
+      provider.send('eth_gasPrice', []).then((value: string) => BigInt(value)),
+    ]);
+    const blockNumber = Number(latest.number);
+
+    const earlier = await Promise.all(
+      Array.from({ length: Math.min(this.sampleBlocks - 1, blockNumber) }, (_, index) =>
+        provider.send('eth_getBlockByNumber', [ethers.toQuantity(blockNumber - index - 1), false]) as Promise<RawBlock | null>
+      )
+    );
+
+    const minimums = [latest, ...earlier]
+      .map((block) => block?.minimumGasPrice)
+      .filter((value): value is string => typeof value === 'string')
+      .map((value) => BigInt(value));
+    const minimumGasPrice = minimums.length > 0
+      ? minimums.reduce((highest, value) => (value > highest ? value : highest))
+      : undefined;
+
+    // Chains without a block minimum fall back to the node's suggestion
+    const base = minimumGasPrice ?? networkGasPrice;
+    const preset = (speed: GasSpeed) => (base * PRESET_PERCENT[speed] + 99n) / 100n;
+
+    return {
+      blockNumber,
+      minimumGasPrice,
+      networkGasPrice,
+      slow: preset('slow'),
+      normal: preset('normal') > networkGasPrice ? preset('normal') : networkGasPrice,
+      fast: preset('fast') > networkGasPrice ? preset('fast') : networkGasPrice,
+    };
+  }
+
+  /**
+   * Gas price for a transaction: an explicit price is checked against the block minimum,
+   * otherwise the requested preset (default "normal") is used
+   */
+  async resolve(provider: ethers.JsonRpcApiProvider, gasPrice?: string, gasSpeed?: GasSpeed): Promise<bigint> {
+    if (gasPrice && gasSpeed) {
+      throw new Error('Pass either gasPrice or gasSpeed, not both');
+    }
+    if (gasSpeed && !GAS_SPEEDS.includes(gasSpeed)) {
+      throw new Error(`Invalid gas speed: ${gasSpeed}. Use one of: ${GAS_SPEEDS.join(', ')}`);
+    }
+
+    const quote = await this.getQuote(provider);
+    if (!gasPrice) {
+      return quote[gasSpeed || 'normal'];
+    }
+
+    const price = BigInt(gasPrice);
+    if (quote.minimumGasPrice !== undefined && price < quote.minimumGasPrice) {
+      throw new Error(
+        `Gas price ${price} wei is below the block minimum of ${quote.minimumGasPrice} wei and would never be mined`
+      );
+    }
+    return price;
+  }
+}
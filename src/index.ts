@@ -13,26 +13,57 @@ import {
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 import dotenv from 'dotenv';
+import { ethers } from 'ethers';
 
 import { RootstockClient } from './rootstock-client.js';
 import { WalletManager } from './wallet-manager.js';
+import { RemoteSigner } from './signer.js';
+import { describeSecret } from './secret-policy.js';
+import { getSignatureDigest, signMessage } from './signatures.js';
+import { SpendingPolicy } from './spending-policy.js';
+import { MAINNET_CHAIN_ID, NetworkRegistry, assertMainnetConfirmed, toRootstockConfig } from './networks.js';
+import { getRpcPoolOptionsFromEnv } from './rpc-pool.js';
+import { getHistoryOptionsFromEnv } from './transaction-history.js';
+import { getCacheOptionsFromEnv } from './cache.js';
+import { getDefaultDerivationScheme } from './derivation.js';
+import { RootstockError, toToolErrorResult, wrapError } from './errors.js';
 import {
-  RootstockConfig,
   CreateWalletParams,
   ImportWalletParams,
+  UnlockKeystoreParams,
+  SwitchNetworkParams,
+  AddWatchOnlyWalletParams,
+  AddRemoteSignerParams,
+  DeriveAccountsParams,
   GetBalanceParams,
   SendTransactionParams,
   GetTransactionParams,
+  TrackTransactionParams,
+  GetTransactionHistoryParams,
+  ReplaceTransactionParams,
+  BuildTransactionParams,
+  SignTransactionParams,
+  BroadcastRawTransactionParams,
+  PreparedTransaction,
   GetBlockParams,
+  GetLogsParams,
+  DecodedLog,
+  GasSpeed,
+  SimulatedAction,
   CallContractParams,
   SendContractTransactionParams,
   EstimateGasParams,
+  SignMessageParams,
+  SignTypedDataParams,
+  VerifySignatureParams,
   DeployERC20Params,
   GetTokenInfoParams,
   MintTokensParams,
   DeployERC721Params,
   GetNFTInfoParams,
   MintNFTParams,
+  GetPortfolioParams,
+  DeployMulticallParams,
 } from './types.js';
 
 // Load environment variables
@@ -42,19 +73,21 @@ class RootstockMCPServer {
   private server: Server;
   private rootstockClient: RootstockClient;
   private walletManager: WalletManager;
+  private networks: NetworkRegistry;
 
   constructor() {
-    // Initialize configuration
-    const config: RootstockConfig = {
-      rpcUrl: process.env.ROOTSTOCK_RPC_URL || 'https://public-node.testnet.rsk.co',
-      chainId: process.env.ROOTSTOCK_CHAIN_ID ? parseInt(process.env.ROOTSTOCK_CHAIN_ID, 10) : 31,
-      networkName: process.env.ROOTSTOCK_NETWORK_NAME || 'Rootstock Testnet',
-      explorerUrl: process.env.ROOTSTOCK_EXPLORER_URL || 'https://explorer.testnet.rootstock.io',
-      currencySymbol: process.env.ROOTSTOCK_CURRENCY_SYMBOL || 'tRBTC',
-    };
+    // Initialize configuration from the selected network profile
+    this.networks = NetworkRegistry.fromEnv();
+    const config = toRootstockConfig(this.networks.getActive());
 
     // Initialize clients
-    this.rootstockClient = new RootstockClient(config);
+    this.rootstockClient = new RootstockClient(
+      config,
+      SpendingPolicy.fromEnv(),
+      getRpcPoolOptionsFromEnv(),
+      getHistoryOptionsFromEnv(),
+      getCacheOptionsFromEnv()
+    );
     this.walletManager = new WalletManager();
 
     // Initialize MCP server
@@ -96,24 +129,81 @@ class RootstockMCPServer {
           case 'list_wallets':
             return await this.handleListWallets();
 
+          case 'add_watch_only_wallet':
+            return await this.handleAddWatchOnlyWallet((args || {}) as unknown as AddWatchOnlyWalletParams);
+
+          case 'add_remote_signer':
+            return await this.handleAddRemoteSigner((args || {}) as unknown as AddRemoteSignerParams);
+
+          case 'derive_accounts':
+            return await this.handleDeriveAccounts((args || {}) as unknown as DeriveAccountsParams);
+
+          case 'unlock_keystore':
+            return await this.handleUnlockKeystore((args || {}) as unknown as UnlockKeystoreParams);
+
           case 'get_balance':
             return await this.handleGetBalance((args || {}) as unknown as GetBalanceParams);
 
+          case 'get_portfolio':
+            return await this.handleGetPortfolio((args || {}) as unknown as GetPortfolioParams);
+
           case 'send_transaction':
             return await this.handleSendTransaction((args || {}) as unknown as SendTransactionParams);
 
           case 'get_transaction':
             return await this.handleGetTransaction((args || {}) as unknown as GetTransactionParams);
 
+          case 'get_transaction_history':
+            return await this.handleGetTransactionHistory((args || {}) as unknown as GetTransactionHistoryParams);
+
+          case 'track_transaction':
+            return await this.handleTrackTransaction((args || {}) as unknown as TrackTransactionParams);
+
+          case 'speed_up_transaction':
+            return await this.handleReplaceTransaction((args || {}) as unknown as ReplaceTransactionParams, 'speed_up');
+
+          case 'cancel_transaction':
+            return await this.handleReplaceTransaction((args || {}) as unknown as ReplaceTransactionParams, 'cancel');
+
+          case 'build_transaction':
+            return await this.handleBuildTransaction((args || {}) as unknown as BuildTransactionParams);
+
+          case 'sign_transaction':
+            return await this.handleSignTransaction((args || {}) as unknown as SignTransactionParams);
+
+          case 'broadcast_raw_transaction':
+            return await this.handleBroadcastRawTransaction((args || {}) as unknown as BroadcastRawTransactionParams);
+
           case 'get_block':
             return await this.handleGetBlock((args || {}) as unknown as GetBlockParams);
 
+          case 'get_logs':
+            return await this.handleGetLogs((args || {}) as unknown as GetLogsParams);
+
           case 'get_network_info':
             return await this.handleGetNetworkInfo();
 
+          case 'get_rpc_health':
+            return await this.handleGetRpcHealth();
+
+          case 'switch_network':
+            return await this.handleSwitchNetwork((args || {}) as unknown as SwitchNetworkParams);
+
+          case 'get_gas_price':
+            return await this.handleGetGasPrice();
+
           case 'estimate_gas':
             return await this.handleEstimateGas((args || {}) as unknown as EstimateGasParams);
 
+          case 'sign_message':
+            return await this.handleSignMessage((args || {}) as unknown as SignMessageParams);
+
+          case 'sign_typed_data':
+            return await this.handleSignTypedData((args || {}) as unknown as SignTypedDataParams);
+
+          case 'verify_signature':
+            return await this.handleVerifySignature((args || {}) as unknown as VerifySignatureParams);
+
           case 'call_contract':
             return await this.handleCallContract((args || {}) as unknown as CallContractParams);
 
@@ -144,18 +234,14 @@ class RootstockMCPServer {
           case 'mint_nft':
             return await this.handleMintNFT((args || {}) as unknown as MintNFTParams);
 
+          case 'deploy_multicall':
+            return await this.handleDeployMulticall((args || {}) as unknown as DeployMulticallParams);
+
           default:
-            throw new Error(`Unknown tool: ${name}`);
+            throw new RootstockError('INVALID_PARAMS', `Unknown tool: ${name}`);
         }
       } catch (error) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
-            },
-          ],
-        };
+        return toToolErrorResult(error);
       }
     });
   }
@@ -193,6 +279,84 @@ class RootstockMCPServer {
               type: 'string',
               description: 'Optional name for the wallet',
             },
+            derivationPath: {
+              type: 'string',
+              description: "Optional derivation path for mnemonic imports (e.g. m/44'/137'/0'/0/0 for Rootstock mainnet, m/44'/37'/0'/0/0 for testnet)",
+            },
+          },
+        },
+      },
+      {
+        name: 'add_watch_only_wallet',
+        description: 'Track an address without its private key (balances and history only, no signing)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            address: {
+              type: 'string',
+              description: 'Address to watch',
+            },
+            name: {
+              type: 'string',
+              description: 'Optional name for the wallet',
+            },
+          },
+          required: ['address'],
+        },
+      },
+      {
+        name: 'add_remote_signer',
+        description: 'Add accounts held by an external JSON-RPC signer (Clef, Web3Signer); keys never enter this server',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            endpoint: {
+              type: 'string',
+              description: 'Remote signer JSON-RPC URL',
+            },
+            address: {
+              type: 'string',
+              description: 'Account to add (defaults to every account the signer reports)',
+            },
+            name: {
+              type: 'string',
+              description: 'Optional name for the wallet (only when adding a single account)',
+            },
+          },
+          required: ['endpoint'],
+        },
+      },
+      {
+        name: 'derive_accounts',
+        description: 'Derive HD accounts from the mnemonic stored with a wallet',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            address: {
+              type: 'string',
+              description: 'Wallet whose mnemonic to use (defaults to the current wallet)',
+            },
+            count: {
+              type: 'number',
+              description: 'Number of accounts to derive (default: 5)',
+            },
+            startIndex: {
+              type: 'number',
+              description: 'First account index (default: 0)',
+            },
+            network: {
+              type: 'string',
+              enum: ['mainnet', 'testnet', 'ethereum'],
+              description: 'Derivation path preset: Rootstock mainnet (137), Rootstock testnet (37) or Ethereum (60). Defaults to the connected network',
+            },
+            derivationPath: {
+              type: 'string',
+              description: "Custom base path, the account index is appended (e.g. m/44'/137'/0'/0)",
+            },
+            addToWallets: {
+              type: 'boolean',
+              description: 'Add the derived accounts to the available wallets (default: false)',
+            },
           },
         },
       },
@@ -204,6 +368,20 @@ class RootstockMCPServer {
           properties: {},
         },
       },
+      {
+        name: 'unlock_keystore',
+        description: 'Unlock the encrypted keystore and load the wallets saved in it',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            passphrase: {
+              type: 'string',
+              description: 'Keystore passphrase',
+            },
+          },
+          required: ['passphrase'],
+        },
+      },
       {
         name: 'get_balance',
         description: 'Get the balance of a wallet address (native tokens or ERC20 tokens)',
@@ -212,7 +390,7 @@ class RootstockMCPServer {
           properties: {
             address: {
               type: 'string',
-              description: 'Wallet address to check balance for',
+              description: 'Wallet address or wallet name to check balance for',
             },
             tokenAddress: {
               type: 'string',
@@ -222,15 +400,38 @@ class RootstockMCPServer {
           required: ['address'],
         },
       },
+      {
+        name: 'get_portfolio',
+        description: 'Get the native balance and ERC20 token balances of many addresses at once, batched through Multicall3',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            addresses: {
+              type: 'array',
+              description: 'Wallet addresses or names (default: every wallet in list_wallets)',
+              items: { type: 'string' },
+            },
+            tokenAddresses: {
+              type: 'array',
+              description: 'ERC20 token contract addresses to read balances of',
+              items: { type: 'string' },
+            },
+          },
+        },
+      },
       {
         name: 'send_transaction',
         description: 'Send native tokens or ERC20 tokens to another address',
         inputSchema: {
           type: 'object',
           properties: {
+            from: {
+              type: 'string',
+              description: 'Optional sender wallet address or name (defaults to the current wallet)',
+            },
             to: {
               type: 'string',
-              description: 'Recipient address',
+              description: 'Recipient address or wallet name',
             },
             amount: {
               type: 'string',
@@ -248,13 +449,34 @@ class RootstockMCPServer {
               type: 'string',
               description: 'Optional gas price',
             },
+            gasSpeed: {
+              type: 'string',
+              enum: ['slow', 'normal', 'fast'],
+              description: 'Gas price preset from recent blocks\' minimum gas price, used instead of gasPrice (default: normal)',
+            },
+            confirmMainnet: {
+              type: 'boolean',
+              description: 'Required to be true when the active network is Rootstock Mainnet',
+            },
+            wait: {
+              type: 'boolean',
+              description: 'Wait for the transaction to be mined (default true); false returns the hash immediately',
+            },
+            confirmations: {
+              type: 'number',
+              description: 'Blocks to wait for before returning (default 1)',
+            },
+            simulate: {
+              type: 'boolean',
+              description: 'Only simulate: report the expected outcome, gas cost and any revert reason without signing or sending',
+            },
           },
           required: ['to', 'amount'],
         },
       },
       {
         name: 'get_transaction',
-        description: 'Get details of a transaction by hash',
+        description: 'Get details of a transaction by hash, with its decoded input, events and any created contract',
         inputSchema: {
           type: 'object',
           properties: {
@@ -262,10 +484,219 @@ class RootstockMCPServer {
               type: 'string',
               description: 'Transaction hash',
             },
+            abi: {
+              type: 'array',
+              description: 'Optional contract ABI to decode the input and events with (ERC20 and ERC721 are built in)',
+              items: {},
+            },
           },
           required: ['hash'],
         },
       },
+      {
+        name: 'get_transaction_history',
+        description: 'List native and ERC20 transfers of an address, newest first',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            address: {
+              type: 'string',
+              description: 'Address or wallet name',
+            },
+            page: {
+              type: 'number',
+              description: 'Page number, starting at 1 (default 1)',
+            },
+            pageSize: {
+              type: 'number',
+              description: 'Transfers per page, up to 100 (default 20)',
+            },
+            tokenAddress: {
+              type: 'string',
+              description: 'Only show transfers of this ERC20 token',
+            },
+          },
+          required: ['address'],
+        },
+      },
+      {
+        name: 'track_transaction',
+        description: 'Check whether a transaction is pending, included or confirmed, or was dropped or replaced',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            hash: {
+              type: 'string',
+              description: 'Transaction hash',
+            },
+            confirmations: {
+              type: 'number',
+              description: 'Blocks deep the transaction must be to count as confirmed (default 1)',
+            },
+          },
+          required: ['hash'],
+        },
+      },
+      {
+        name: 'speed_up_transaction',
+        description: 'Resend a pending transaction with the same nonce and a higher gas price',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            hash: {
+              type: 'string',
+              description: 'Hash of the pending transaction',
+            },
+            gasPrice: {
+              type: 'string',
+              description: 'Optional gas price in wei (default: 40% above the original, or the gasSpeed preset if higher)',
+            },
+            gasSpeed: {
+              type: 'string',
+              enum: ['slow', 'normal', 'fast'],
+              description: 'Gas price preset from recent blocks\' minimum gas price, used instead of gasPrice (default: normal)',
+            },
+            confirmMainnet: {
+              type: 'boolean',
+              description: 'Required to be true when the active network is Rootstock Mainnet',
+            },
+            wait: {
+              type: 'boolean',
+              description: 'Wait for the original or the replacement to be mined (default true)',
+            },
+            confirmations: {
+              type: 'number',
+              description: 'Blocks to wait for before returning (default 1)',
+            },
+          },
+          required: ['hash'],
+        },
+      },
+      {
+        name: 'cancel_transaction',
+        description: 'Cancel a pending transaction by replacing it with a 0-value transfer to self at a higher gas price',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            hash: {
+              type: 'string',
+              description: 'Hash of the pending transaction',
+            },
+            gasPrice: {
+              type: 'string',
+              description: 'Optional gas price in wei (default: 40% above the original, or the gasSpeed preset if higher)',
+            },
+            gasSpeed: {
+              type: 'string',
+              enum: ['slow', 'normal', 'fast'],
+              description: 'Gas price preset from recent blocks\' minimum gas price, used instead of gasPrice (default: normal)',
+            },
+            confirmMainnet: {
+              type: 'boolean',
+              description: 'Required to be true when the active network is Rootstock Mainnet',
+            },
+            wait: {
+              type: 'boolean',
+              description: 'Wait for the original or the replacement to be mined (default true)',
+            },
+            confirmations: {
+              type: 'number',
+              description: 'Blocks to wait for before returning (default 1)',
+            },
+          },
+          required: ['hash'],
+        },
+      },
+      {
+        name: 'build_transaction',
+        description: 'Build an unsigned transaction with the nonce, gas limit, gas price and chain ID filled in, for signing separately',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            from: {
+              type: 'string',
+              description: 'Optional sender wallet address or name (defaults to the current wallet); watch-only wallets are allowed',
+            },
+            to: {
+              type: 'string',
+              description: 'Recipient address or wallet name; omit to deploy the creation code in data',
+            },
+            value: {
+              type: 'string',
+              description: 'Optional value in the native currency (not wei)',
+            },
+            data: {
+              type: 'string',
+              description: 'Optional calldata or contract creation code as hex',
+            },
+            nonce: {
+              type: 'number',
+              description: 'Optional nonce (default: the sender\'s next nonce)',
+            },
+            gasLimit: {
+              type: 'string',
+              description: 'Optional gas limit (default: estimated)',
+            },
+            gasPrice: {
+              type: 'string',
+              description: 'Optional gas price in wei; rejected if below the block minimum',
+            },
+            gasSpeed: {
+              type: 'string',
+              enum: ['slow', 'normal', 'fast'],
+              description: 'Gas price preset from recent blocks\' minimum gas price, used instead of gasPrice (default: normal)',
+            },
+          },
+        },
+      },
+      {
+        name: 'sign_transaction',
+        description: 'Sign an unsigned transaction with a managed wallet without broadcasting it',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            unsignedTransaction: {
+              type: 'string',
+              description: 'Unsigned serialized transaction as hex, e.g. from build_transaction',
+            },
+            from: {
+              type: 'string',
+              description: 'Optional signing wallet address or name (defaults to the current wallet)',
+            },
+            confirmMainnet: {
+              type: 'boolean',
+              description: 'Required to be true when the active network is Rootstock Mainnet',
+            },
+          },
+          required: ['unsignedTransaction'],
+        },
+      },
+      {
+        name: 'broadcast_raw_transaction',
+        description: 'Broadcast a signed serialized transaction, wherever it was signed',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            signedTransaction: {
+              type: 'string',
+              description: 'Signed serialized transaction as hex',
+            },
+            confirmMainnet: {
+              type: 'boolean',
+              description: 'Required to be true when the active network is Rootstock Mainnet',
+            },
+            wait: {
+              type: 'boolean',
+              description: 'Wait for the transaction to be mined (default true); false returns the hash immediately',
+            },
+            confirmations: {
+              type: 'number',
+              description: 'Blocks to wait for before returning (default 1)',
+            },
+          },
+          required: ['signedTransaction'],
+        },
+      },
       {
         name: 'get_block',
         description: 'Get block information by number or hash',
@@ -283,6 +714,46 @@ class RootstockMCPServer {
           },
         },
       },
+      {
+        name: 'get_logs',
+        description: 'Get contract event logs by address, event or topics over a block range, decoded with an ABI',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            address: {
+              description: 'Contract address, or an array of addresses',
+              anyOf: [
+                { type: 'string' },
+                { type: 'array', items: { type: 'string' } },
+              ],
+            },
+            event: {
+              type: 'string',
+              description: 'Event name from the ABI, or a signature such as "Transfer(address,address,uint256)"',
+            },
+            topics: {
+              type: 'array',
+              description: 'Topic filters by position; null matches anything and an array matches any of its values',
+              items: {},
+            },
+            abi: {
+              description: 'ABI to decode with, or "erc20" / "erc721" (default: tries ERC20, then ERC721)',
+              anyOf: [
+                { type: 'string', enum: ['erc20', 'erc721'] },
+                { type: 'array', items: {} },
+              ],
+            },
+            fromBlock: {
+              type: 'number',
+              description: 'First block (default: 2000 blocks before toBlock)',
+            },
+            toBlock: {
+              type: 'number',
+              description: 'Last block (default: latest)',
+            },
+          },
+        },
+      },
       {
         name: 'get_network_info',
         description: 'Get current network information and status',
@@ -291,6 +762,36 @@ class RootstockMCPServer {
           properties: {},
         },
       },
+      {
+        name: 'get_rpc_health',
+        description: 'Check every configured RPC endpoint and report its health, latency and block height',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'switch_network',
+        description: 'Switch the active network profile (mainnet, testnet, regtest or a custom profile)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            network: {
+              type: 'string',
+              description: `Profile id or chain ID (available: ${this.networks.list().map((profile) => profile.id).join(', ')})`,
+            },
+          },
+          required: ['network'],
+        },
+      },
+      {
+        name: 'get_gas_price',
+        description: 'Get slow, normal and fast gas prices based on the minimum gas price of recent blocks',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
       {
         name: 'estimate_gas',
         description: 'Estimate gas cost for a transaction',
@@ -309,13 +810,106 @@ class RootstockMCPServer {
               type: 'string',
               description: 'Optional transaction data',
             },
+            gasSpeed: {
+              type: 'string',
+              enum: ['slow', 'normal', 'fast'],
+              description: 'Gas price preset from recent blocks\' minimum gas price, used instead of gasPrice (default: normal)',
+            },
           },
           required: ['to'],
         },
       },
+      {
+        name: 'sign_message',
+        description: 'Sign a message with personal_sign (EIP-191)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            message: {
+              type: 'string',
+              description: 'Message to sign',
+            },
+            encoding: {
+              type: 'string',
+              enum: ['utf8', 'hex'],
+              description: 'Message encoding; hex messages are signed as raw bytes (default: utf8)',
+            },
+            from: {
+              type: 'string',
+              description: 'Wallet address or name to sign with (defaults to the current wallet)',
+            },
+          },
+          required: ['message'],
+        },
+      },
+      {
+        name: 'sign_typed_data',
+        description: 'Sign EIP-712 typed data',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            domain: {
+              type: 'object',
+              description: 'EIP-712 domain (name, version, chainId, verifyingContract, salt)',
+            },
+            types: {
+              type: 'object',
+              description: 'Type definitions, e.g. {"Order": [{"name": "amount", "type": "uint256"}]}',
+            },
+            message: {
+              type: 'object',
+              description: 'Value to sign',
+            },
+            primaryType: {
+              type: 'string',
+              description: 'Primary type (optional when it can be inferred from types)',
+            },
+            from: {
+              type: 'string',
+              description: 'Wallet address or name to sign with (defaults to the current wallet)',
+            },
+            confirmMainnet: {
+              type: 'boolean',
+              description: 'Required to be true when the domain chainId, or the active network if it has none, is Rootstock Mainnet',
+            },
+          },
+          required: ['domain', 'types', 'message'],
+        },
+      },
+      {
+        name: 'verify_signature',
+        description: 'Verify a message or EIP-712 signature, including EIP-1271 contract signatures',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            address: {
+              type: 'string',
+              description: 'Expected signer address (account or EIP-1271 contract)',
+            },
+            signature: {
+              type: 'string',
+              description: 'Signature to verify',
+            },
+            message: {
+              type: 'string',
+              description: 'Signed message (for personal_sign signatures)',
+            },
+            encoding: {
+              type: 'string',
+              enum: ['utf8', 'hex'],
+              description: 'Message encoding (default: utf8)',
+            },
+            typedData: {
+              type: 'object',
+              description: 'Signed typed data as {domain, types, message, primaryType?} (for EIP-712 signatures)',
+            },
+          },
+          required: ['address', 'signature'],
+        },
+      },
       {
         name: 'call_contract',
-        description: 'Call a smart contract method (read-only)',
+        description: 'Call a smart contract method (read-only); return values are decoded against the ABI outputs',
         inputSchema: {
           type: 'object',
           properties: {
@@ -337,6 +931,10 @@ class RootstockMCPServer {
               description: 'Optional contract ABI',
               items: {},
             },
+            signature: {
+              type: 'string',
+              description: 'Function signature to use instead of an ABI, e.g. "balanceOf(address) returns (uint256)"',
+            },
           },
           required: ['contractAddress', 'methodName'],
         },
@@ -365,6 +963,10 @@ class RootstockMCPServer {
               description: 'Optional contract ABI',
               items: {},
             },
+            signature: {
+              type: 'string',
+              description: 'Function signature to use instead of an ABI, e.g. "balanceOf(address) returns (uint256)"',
+            },
             value: {
               type: 'string',
               description: 'Optional ether value to send',
@@ -377,6 +979,27 @@ class RootstockMCPServer {
               type: 'string',
               description: 'Optional gas price',
             },
+            gasSpeed: {
+              type: 'string',
+              enum: ['slow', 'normal', 'fast'],
+              description: 'Gas price preset from recent blocks\' minimum gas price, used instead of gasPrice (default: normal)',
+            },
+            confirmMainnet: {
+              type: 'boolean',
+              description: 'Required to be true when the active network is Rootstock Mainnet',
+            },
+            wait: {
+              type: 'boolean',
+              description: 'Wait for the transaction to be mined (default true); false returns the hash immediately',
+            },
+            confirmations: {
+              type: 'number',
+              description: 'Blocks to wait for before returning (default 1)',
+            },
+            simulate: {
+              type: 'boolean',
+              description: 'Only simulate: report the expected outcome, gas cost and any revert reason without signing or sending',
+            },
           },
           required: ['contractAddress', 'methodName'],
         },
@@ -389,7 +1012,7 @@ class RootstockMCPServer {
           properties: {
             address: {
               type: 'string',
-              description: 'Wallet address to set as current',
+              description: 'Wallet address or name to set as current',
             },
           },
           required: ['address'],
@@ -437,6 +1060,27 @@ class RootstockMCPServer {
               type: 'string',
               description: 'Optional gas price',
             },
+            gasSpeed: {
+              type: 'string',
+              enum: ['slow', 'normal', 'fast'],
+              description: 'Gas price preset from recent blocks\' minimum gas price, used instead of gasPrice (default: normal)',
+            },
+            confirmMainnet: {
+              type: 'boolean',
+              description: 'Required to be true when the active network is Rootstock Mainnet',
+            },
+            wait: {
+              type: 'boolean',
+              description: 'Wait for the transaction to be mined (default true); false returns the hash immediately',
+            },
+            confirmations: {
+              type: 'number',
+              description: 'Blocks to wait for before returning (default 1)',
+            },
+            simulate: {
+              type: 'boolean',
+              description: 'Only simulate: report the expected outcome, gas cost and any revert reason without signing or sending',
+            },
           },
           required: ['name', 'symbol', 'initialSupply'],
         },
@@ -481,6 +1125,27 @@ class RootstockMCPServer {
               type: 'string',
               description: 'Optional gas price',
             },
+            gasSpeed: {
+              type: 'string',
+              enum: ['slow', 'normal', 'fast'],
+              description: 'Gas price preset from recent blocks\' minimum gas price, used instead of gasPrice (default: normal)',
+            },
+            confirmMainnet: {
+              type: 'boolean',
+              description: 'Required to be true when the active network is Rootstock Mainnet',
+            },
+            wait: {
+              type: 'boolean',
+              description: 'Wait for the transaction to be mined (default true); false returns the hash immediately',
+            },
+            confirmations: {
+              type: 'number',
+              description: 'Blocks to wait for before returning (default 1)',
+            },
+            simulate: {
+              type: 'boolean',
+              description: 'Only simulate: report the expected outcome, gas cost and any revert reason without signing or sending',
+            },
           },
           required: ['tokenAddress', 'to', 'amount'],
         },
@@ -511,6 +1176,27 @@ class RootstockMCPServer {
               type: 'string',
               description: 'Optional gas price',
             },
+            gasSpeed: {
+              type: 'string',
+              enum: ['slow', 'normal', 'fast'],
+              description: 'Gas price preset from recent blocks\' minimum gas price, used instead of gasPrice (default: normal)',
+            },
+            confirmMainnet: {
+              type: 'boolean',
+              description: 'Required to be true when the active network is Rootstock Mainnet',
+            },
+            wait: {
+              type: 'boolean',
+              description: 'Wait for the transaction to be mined (default true); false returns the hash immediately',
+            },
+            confirmations: {
+              type: 'number',
+              description: 'Blocks to wait for before returning (default 1)',
+            },
+            simulate: {
+              type: 'boolean',
+              description: 'Only simulate: report the expected outcome, gas cost and any revert reason without signing or sending',
+            },
           },
           required: ['name', 'symbol'],
         },
@@ -563,10 +1249,69 @@ class RootstockMCPServer {
               type: 'string',
               description: 'Optional gas price',
             },
+            gasSpeed: {
+              type: 'string',
+              enum: ['slow', 'normal', 'fast'],
+              description: 'Gas price preset from recent blocks\' minimum gas price, used instead of gasPrice (default: normal)',
+            },
+            confirmMainnet: {
+              type: 'boolean',
+              description: 'Required to be true when the active network is Rootstock Mainnet',
+            },
+            wait: {
+              type: 'boolean',
+              description: 'Wait for the transaction to be mined (default true); false returns the hash immediately',
+            },
+            confirmations: {
+              type: 'number',
+              description: 'Blocks to wait for before returning (default 1)',
+            },
+            simulate: {
+              type: 'boolean',
+              description: 'Only simulate: report the expected outcome, gas cost and any revert reason without signing or sending',
+            },
           },
           required: ['tokenAddress', 'to', 'tokenId'],
         },
       },
+      {
+        name: 'deploy_multicall',
+        description: 'Deploy a Multicall3 contract for batched reads on a network that lacks one',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            from: {
+              type: 'string',
+              description: 'Optional deployer wallet address or name (defaults to the current wallet)',
+            },
+            gasLimit: {
+              type: 'string',
+              description: 'Optional gas limit',
+            },
+            gasPrice: {
+              type: 'string',
+              description: 'Optional gas price',
+            },
+            gasSpeed: {
+              type: 'string',
+              enum: ['slow', 'normal', 'fast'],
+              description: 'Gas price preset from recent blocks\' minimum gas price, used instead of gasPrice (default: normal)',
+            },
+            confirmMainnet: {
+              type: 'boolean',
+              description: 'Required to be true when the active network is Rootstock Mainnet',
+            },
+            wait: {
+              type: 'boolean',
+              description: 'Wait for the transaction to be mined (default true); false returns the hash immediately',
+            },
+            confirmations: {
+              type: 'number',
+              description: 'Blocks to wait for before returning (default 1)',
+            },
+          },
+        },
+      },
     ];
   }
 
@@ -577,7 +1322,7 @@ class RootstockMCPServer {
       content: [
         {
           type: 'text',
-          text: `Wallet created successfully!\n\nAddress: ${walletInfo.address}\nMnemonic: ${walletInfo.mnemonic}\n\n⚠️ IMPORTANT: Save your mnemonic phrase securely. It's the only way to recover your wallet!`,
+          text: `Wallet created successfully!\n\n${describeSecret(walletInfo)}\n\nName: ${walletInfo.name}\nAddress: ${walletInfo.address}${walletInfo.keystorePath ? `\nKeystore File: ${walletInfo.keystorePath}` : ''}`,
         },
       ],
     };
@@ -587,18 +1332,110 @@ class RootstockMCPServer {
     const walletInfo = this.walletManager.importWallet(
       params.privateKey,
       params.mnemonic,
-      params.name
+      params.name,
+      params.derivationPath
     );
     return {
       content: [
         {
           type: 'text',
-          text: `Wallet imported successfully!\n\nAddress: ${walletInfo.address}`,
+          text: `Wallet imported successfully!\n\nName: ${walletInfo.name}\nAddress: ${walletInfo.address}${walletInfo.keystorePath ? `\nKeystore File: ${walletInfo.keystorePath}` : ''}`,
         },
       ],
     };
   }
 
+  private async handleAddWatchOnlyWallet(params: AddWatchOnlyWalletParams) {
+    const walletInfo = this.walletManager.addWatchOnlyWallet(params.address, params.name);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Watch-only wallet added!\n\nName: ${walletInfo.name}\nAddress: ${walletInfo.address}\n\nThis wallet can be used for balances and history but cannot sign transactions.`,
+        },
+      ],
+    };
+  }
+
+  private async handleAddRemoteSigner(params: AddRemoteSignerParams) {
+    const addresses = params.address ? [params.address] : await RemoteSigner.listAccounts(params.endpoint);
+    if (addresses.length === 0) {
+      throw new Error(`Remote signer at ${params.endpoint} reported no accounts`);
+    }
+
+    const added = addresses.map((address) =>
+      this.walletManager.addRemoteSigner(address, params.endpoint, addresses.length === 1 ? params.name : undefined)
+    );
+
+    let response = `Remote signer added!\n\nEndpoint: ${params.endpoint}\n\n`;
+    for (const walletInfo of added) {
+      response += `${walletInfo.name}: ${walletInfo.address}\n`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: response,
+        },
+      ],
+    };
+  }
+
+  private async handleDeriveAccounts(params: DeriveAccountsParams) {
+    try {
+      const accounts = this.walletManager.deriveAccounts(params.address, {
+        count: params.count,
+        startIndex: params.startIndex,
+        scheme: params.derivationPath ? undefined : params.network || getDefaultDerivationScheme(this.rootstockClient.getChainId()),
+        path: params.derivationPath,
+        addToWallets: params.addToWallets,
+      });
+
+      let response = `Derived Accounts (${accounts.length}):\n\n`;
+      for (const account of accounts) {
+        response += `${account.derivationPath}  ${account.address}\n`;
+      }
+      if (params.addToWallets) {
+        response += `\nAccounts added to available wallets.`;
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: response,
+          },
+        ],
+      };
+    } catch (error) {
+      throw wrapError('derive accounts', error);
+    }
+  }
+
+  private async handleUnlockKeystore(params: UnlockKeystoreParams) {
+    try {
+      const addresses = this.walletManager.unlockKeystore(params.passphrase);
+      const status = this.walletManager.getKeystoreStatus();
+
+      let response = `Keystore unlocked!\n\nDirectory: ${status.directory}\nWallets Loaded: ${addresses.length}\n`;
+      for (const address of addresses) {
+        response += `  ${address}\n`;
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: response,
+          },
+        ],
+      };
+    } catch (error) {
+      throw wrapError('unlock keystore', error);
+    }
+  }
+
   private async handleListWallets() {
     const wallets = this.walletManager.listWallets();
     const currentAddress = this.walletManager.getCurrentAddress();
@@ -607,7 +1444,7 @@ class RootstockMCPServer {
 
     for (const wallet of wallets) {
       const isCurrent = wallet.address.toLowerCase() === currentAddress.toLowerCase();
-      response += `${isCurrent ? '→ ' : '  '}${wallet.address}${isCurrent ? ' (current)' : ''}\n`;
+      response += `${isCurrent ? '→ ' : '  '}${wallet.name ? `${wallet.name}: ` : ''}${wallet.address}${wallet.watchOnly ? ' (watch-only)' : ''}${wallet.remoteSigner ? ' (remote signer)' : ''}${isCurrent ? ' (current)' : ''}\n`;
     }
 
     return {
@@ -622,56 +1459,112 @@ class RootstockMCPServer {
 
   private async handleGetBalance(params: GetBalanceParams) {
     try {
+      const address = this.walletManager.resolveAddress(params.address);
+
       if (params.tokenAddress) {
         const tokenBalance = await this.rootstockClient.getTokenBalance(
-          params.address,
+          address,
           params.tokenAddress
         );
         return {
           content: [
             {
               type: 'text',
-              text: `Token Balance:\n\nAddress: ${params.address}\nToken: ${tokenBalance.name} (${tokenBalance.symbol})\nBalance: ${tokenBalance.balance} ${tokenBalance.symbol}`,
+              text: `Token Balance:\n\nAddress: ${address}\nToken: ${tokenBalance.name} (${tokenBalance.symbol})\nBalance: ${tokenBalance.balance} ${tokenBalance.symbol}`,
             },
           ],
         };
       } else {
-        const balance = await this.rootstockClient.getBalance(params.address);
+        const balance = await this.rootstockClient.getBalance(address);
         return {
           content: [
             {
               type: 'text',
-              text: `Native Balance:\n\nAddress: ${params.address}\nBalance: ${balance} ${this.rootstockClient.getCurrencySymbol()}`,
+              text: `Native Balance:\n\nAddress: ${address}\nBalance: ${balance} ${this.rootstockClient.getCurrencySymbol()}`,
             },
           ],
         };
       }
     } catch (error) {
-      throw new Error(`Failed to get balance: ${error}`);
+      throw wrapError('get balance', error);
+    }
+  }
+
+  private async handleGetPortfolio(params: GetPortfolioParams) {
+    try {
+      const addresses = params.addresses && params.addresses.length > 0
+        ? params.addresses.map((address) => this.walletManager.resolveAddress(address))
+        : this.walletManager.listWallets().map((wallet) => wallet.address);
+      if (addresses.length === 0) {
+        throw new Error('No addresses given and no wallets configured');
+      }
+
+      const portfolio = await this.rootstockClient.getPortfolio(addresses, params.tokenAddresses || []);
+      const symbol = this.rootstockClient.getCurrencySymbol();
+
+      let response = `Portfolio at block ${portfolio.blockNumber}`;
+      response += portfolio.batched ? ' (batched through Multicall3)\n\n' : ' (Multicall3 unavailable; read one by one)\n\n';
+      portfolio.entries.forEach((entry, index) => {
+        response += `${index + 1}. ${entry.address}\n`;
+        response += `   ${symbol}: ${entry.nativeError ? `error: ${entry.nativeError}` : entry.nativeBalance}\n`;
+        for (const token of entry.tokens) {
+          const label = token.symbol ? `${token.symbol} (${token.tokenAddress})` : token.tokenAddress;
+          response += `   ${label}: ${token.error ? `error: ${token.error}` : token.balance}\n`;
+        }
+        response += '\n';
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: response,
+          },
+        ],
+      };
+    } catch (error) {
+      throw wrapError('get portfolio', error);
     }
   }
 
   private async handleSendTransaction(params: SendTransactionParams) {
     try {
-      const wallet = this.walletManager.getCurrentWallet();
+      if (params.simulate) {
+        const to = this.walletManager.resolveAddress(params.to);
+        return await this.handleSimulation(
+          params.from ? this.walletManager.resolveAddress(params.from) : this.walletManager.getCurrentAddress(),
+          params.tokenAddress
+            ? { type: 'token_transfer', tokenAddress: params.tokenAddress, to, amount: params.amount }
+            : { type: 'transfer', to, amount: params.amount },
+          params
+        );
+      }
+
+      assertMainnetConfirmed(this.rootstockClient.getChainId(), params.confirmMainnet);
+      const wallet = params.from
+        ? this.walletManager.getWallet(params.from)
+        : this.walletManager.getCurrentWallet();
+      const to = this.walletManager.resolveAddress(params.to);
 
       let result;
       if (params.tokenAddress) {
         result = await this.rootstockClient.sendTokenTransaction(
           wallet,
           params.tokenAddress,
-          params.to,
+          to,
           params.amount,
           params.gasLimit,
-          params.gasPrice
+          params.gasPrice,
+          { wait: params.wait, confirmations: params.confirmations, gasSpeed: params.gasSpeed }
         );
       } else {
         result = await this.rootstockClient.sendTransaction(
           wallet,
-          params.to,
+          to,
           params.amount,
           params.gasLimit,
-          params.gasPrice
+          params.gasPrice,
+          { wait: params.wait, confirmations: params.confirmations, gasSpeed: params.gasSpeed }
         );
       }
 
@@ -682,32 +1575,330 @@ class RootstockMCPServer {
         content: [
           {
             type: 'text',
-            text: `Transaction sent successfully!\n\nTransaction Hash: ${result.hash}\nTransaction Explorer: ${txExplorerLink}\n\nTransaction Details:\nFrom: ${result.from}\nTo: ${result.to}\nAmount: ${result.value}\nStatus: ${result.status}`,
+            text: `Transaction sent successfully!\n\nTransaction Hash: ${result.hash}\nTransaction Explorer: ${txExplorerLink}\n\nTransaction Details:\nFrom: ${result.from}\nTo: ${result.to}\nAmount: ${result.value}\nStatus: ${result.status}${this.describePending(result.status)}`,
           },
         ],
       };
     } catch (error) {
-      throw new Error(`Failed to send transaction: ${error}`);
+      throw wrapError('send transaction', error);
     }
   }
 
   private async handleGetTransaction(params: GetTransactionParams) {
     try {
-      const transaction = await this.rootstockClient.getTransaction(params.hash);
+      const transaction = await this.rootstockClient.getTransaction(params.hash, params.abi);
       const explorerUrl = this.rootstockClient.getExplorerUrl();
       const txExplorerLink = `${explorerUrl}/tx/${transaction.hash}`;
 
+      let response = `Transaction Details:\n\nHash: ${transaction.hash}\nExplorer: ${txExplorerLink}\n\n`;
+      response += `From: ${transaction.from}\n`;
+      response += transaction.contractAddress
+        ? `Contract Created: ${transaction.contractAddress}\n`
+        : `To: ${transaction.to || '(contract deployment)'}\n`;
+      response += `Value: ${transaction.value} ${this.rootstockClient.getCurrencySymbol()}\n`;
+      response += `Nonce: ${transaction.nonce}\n`;
+      response += `Gas Used: ${transaction.gasUsed ?? 'n/a'} of ${transaction.gasLimit}\n`;
+      response += `Gas Price: ${transaction.gasPrice} wei\n`;
+      response += `Block: ${transaction.blockNumber ?? 'pending'}\n`;
+      if (transaction.timestamp) {
+        response += `Timestamp: ${new Date(transaction.timestamp * 1000).toISOString()}\n`;
+      }
+      response += `Status: ${transaction.status}\n`;
+      if (transaction.revert) {
+        response += `Revert Reason: ${transaction.revert.reason}\n`;
+      }
+
+      if (transaction.decodedInput) {
+        response += `\nFunction: ${transaction.decodedInput.signature}\n`;
+        response += this.describeArgs(transaction.decodedInput.args);
+      } else if (transaction.to && transaction.data !== '0x') {
+        response += `\nInput Data: ${transaction.data}\n`;
+      }
+
+      if (transaction.logs && transaction.logs.length > 0) {
+        response += `\nEvents (${transaction.logs.length}):\n`;
+        transaction.logs.forEach((log, index) => {
+          response += this.describeLog(log, index);
+        });
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: response,
+          },
+        ],
+      };
+    } catch (error) {
+      throw wrapError('get transaction', error);
+    }
+  }
+
+  private async handleGetTransactionHistory(params: GetTransactionHistoryParams) {
+    try {
+      const address = this.walletManager.resolveAddress(params.address);
+      const history = await this.rootstockClient.getTransactionHistory(address, {
+        page: params.page,
+        pageSize: params.pageSize,
+        tokenAddress: params.tokenAddress,
+      });
+
+      const pages = Math.max(1, Math.ceil(history.totalCount / history.pageSize));
+      let response = `Transaction History for ${address}\n`;
+      response += `Page ${history.page} of ${pages} (${history.totalCount} transfers, blocks ${history.fromBlock}-${history.syncedToBlock}, via ${history.source})\n\n`;
+
+      for (const tx of history.transactions) {
+        const direction = tx.from.toLowerCase() === address.toLowerCase() ? 'OUT' : 'IN';
+        const asset = tx.tokenAddress ? tx.tokenSymbol || tx.tokenAddress : this.rootstockClient.getCurrencySymbol();
+        const time = tx.timestamp ? ` ${new Date(tx.timestamp * 1000).toISOString()}` : '';
+        response += `${direction} ${tx.value} ${asset} | block ${tx.blockNumber}${time}${tx.status === 'failed' ? ' | failed' : ''}\n`;
+        response += `   ${direction === 'OUT' ? `To: ${tx.to}` : `From: ${tx.from}`}\n`;
+        response += `   Hash: ${tx.hash}\n`;
+      }
+
+      if (history.transactions.length === 0) {
+        response += 'No transfers found.\n';
+      }
+      if (history.syncedToBlock !== undefined && history.latestBlock !== undefined && history.syncedToBlock < history.latestBlock) {
+        response += `\nIndexing in progress: synced to block ${history.syncedToBlock} of ${history.latestBlock}. Call again to continue.`;
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: response,
+          },
+        ],
+      };
+    } catch (error) {
+      throw wrapError('get transaction history', error);
+    }
+  }
+
+  private async handleTrackTransaction(params: TrackTransactionParams) {
+    try {
+      const result = await this.rootstockClient.trackTransaction(params.hash, params.confirmations || 1);
+      let response = `Transaction Status: ${result.status}\n\n`;
+      response += `Hash: ${result.hash}\n`;
+      response += `Explorer: ${this.rootstockClient.getExplorerUrl()}/tx/${result.hash}\n`;
+      response += `Confirmations: ${result.confirmations}/${result.requiredConfirmations}\n`;
+      if (result.from) {
+        response += `From: ${result.from}\nNonce: ${result.nonce}\n`;
+      }
+      if (result.blockNumber !== undefined) {
+        response += `Block: ${result.blockNumber}\nGas Used: ${result.gasUsed}\n`;
+      }
+      if (result.replacedBy) {
+        response += `Replaced By: ${result.replacedBy}\n`;
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: response,
+          },
+        ],
+      };
+    } catch (error) {
+      throw wrapError('track transaction', error);
+    }
+  }
+
+  private async handleReplaceTransaction(params: ReplaceTransactionParams, action: 'speed_up' | 'cancel') {
+    try {
+      assertMainnetConfirmed(this.rootstockClient.getChainId(), params.confirmMainnet);
+      const original = await this.rootstockClient.getTransaction(params.hash);
+      const wallet = this.walletManager.getWallet(original.from);
+      const result = await this.rootstockClient.replaceTransaction(
+        wallet,
+        params.hash,
+        action,
+        params.gasPrice,
+        { wait: params.wait, confirmations: params.confirmations, gasSpeed: params.gasSpeed }
+      );
+
+      const explorerUrl = this.rootstockClient.getExplorerUrl();
+      let response = `${action === 'cancel' ? 'Cancellation' : 'Speed-up'} sent!\n\n`;
+      response += `Original Transaction: ${result.originalHash}\n`;
+      response += `Replacement Transaction: ${result.replacementHash}\n`;
+      response += `From: ${result.from}\nNonce: ${result.nonce}\n`;
+      response += `Gas Price: ${result.previousGasPrice} -> ${result.gasPrice} wei\n\n`;
+      if (result.minedHash) {
+        const winner = result.minedHash.toLowerCase() === result.replacementHash.toLowerCase() ? 'replacement' : 'original';
+        response += `Mined: ${result.minedHash} (${winner}) in block ${result.blockNumber}\n`;
+        response += `Status: ${result.status}\n`;
+        response += `Transaction Explorer: ${explorerUrl}/tx/${result.minedHash}`;
+      } else {
+        response += `Status: ${result.status}${this.describePending(result.status)}`;
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: response,
+          },
+        ],
+      };
+    } catch (error) {
+      throw wrapError(`${action === 'cancel' ? 'cancel' : 'speed up'} transaction`, error);
+    }
+  }
+
+  private async handleBuildTransaction(params: BuildTransactionParams) {
+    try {
+      const from = params.from ? this.walletManager.resolveAddress(params.from) : this.walletManager.getCurrentAddress();
+      const tx = await this.rootstockClient.buildTransaction(from, {
+        ...params,
+        to: params.to ? this.walletManager.resolveAddress(params.to) : undefined,
+      });
+
+      let response = `Unsigned Transaction Built (not signed or sent)\n\n`;
+      response += this.describePreparedTransaction(tx);
+      response += `\nUnsigned Transaction:\n${tx.unsignedTransaction}\n\n`;
+      response += 'Sign it with sign_transaction or an external signer, then submit it with broadcast_raw_transaction.';
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: response,
+          },
+        ],
+      };
+    } catch (error) {
+      throw wrapError('build transaction', error);
+    }
+  }
+
+  private async handleSignTransaction(params: SignTransactionParams) {
+    try {
+      // Only transactions for the connected chain are signed, and once signed they can be relayed anywhere
+      assertMainnetConfirmed(this.rootstockClient.getChainId(), params.confirmMainnet, 'This transaction would be signed');
+      const wallet = params.from
+        ? this.walletManager.getWallet(params.from)
+        : this.walletManager.getCurrentWallet();
+      const tx = await this.rootstockClient.signTransaction(wallet, params.unsignedTransaction);
+
+      let response = `Transaction Signed (not sent)\n\nTransaction Hash: ${tx.hash}\n`;
+      response += this.describePreparedTransaction(tx);
+      response += `\nSigned Transaction:\n${tx.signedTransaction}\n\n`;
+      response += 'Submit it with broadcast_raw_transaction.';
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: response,
+          },
+        ],
+      };
+    } catch (error) {
+      throw wrapError('sign transaction', error);
+    }
+  }
+
+  private async handleBroadcastRawTransaction(params: BroadcastRawTransactionParams) {
+    try {
+      assertMainnetConfirmed(this.rootstockClient.getChainId(), params.confirmMainnet);
+      const result = await this.rootstockClient.broadcastRawTransaction(params.signedTransaction, {
+        wait: params.wait,
+        confirmations: params.confirmations,
+      });
+
+      const explorerUrl = this.rootstockClient.getExplorerUrl();
+      const txExplorerLink = `${explorerUrl}/tx/${result.hash}`;
+
       return {
         content: [
           {
             type: 'text',
-            text: `Transaction Details:\n\nHash: ${transaction.hash}\nExplorer: ${txExplorerLink}\n\nFrom: ${transaction.from}\nTo: ${transaction.to}\nValue: ${transaction.value} ${this.rootstockClient.getCurrencySymbol()}\nGas Used: ${transaction.gasUsed}\nBlock: ${transaction.blockNumber}\nStatus: ${transaction.status}`,
+            text: `Transaction broadcast successfully!\n\nTransaction Hash: ${result.hash}\nTransaction Explorer: ${txExplorerLink}\n\nTransaction Details:\nFrom: ${result.from}\nTo: ${result.to || '(contract deployment)'}\nAmount: ${result.value}\nStatus: ${result.status}${this.describePending(result.status)}`,
           },
         ],
       };
     } catch (error) {
-      throw new Error(`Failed to get transaction: ${error}`);
+      throw wrapError('broadcast transaction', error);
+    }
+  }
+
+  private describePreparedTransaction(tx: PreparedTransaction): string {
+    let response = `From: ${tx.from}\n`;
+    response += `To: ${tx.to || '(contract deployment)'}\n`;
+    response += `Value: ${tx.value} ${this.rootstockClient.getCurrencySymbol()}\n`;
+    response += `Data: ${tx.data}\n`;
+    response += `Nonce: ${tx.nonce}\n`;
+    response += `Gas Limit: ${tx.gasLimit}\n`;
+    response += `Gas Price: ${tx.gasPrice} wei\n`;
+    response += `Chain ID: ${tx.chainId}\n`;
+    return response;
+  }
+
+  private async handleSimulation(
+    from: string,
+    action: SimulatedAction,
+    params: { gasLimit?: string; gasPrice?: string; gasSpeed?: GasSpeed }
+  ) {
+    const simulation = await this.rootstockClient.simulate(from, action, params.gasPrice, params.gasSpeed, params.gasLimit);
+    const symbol = this.rootstockClient.getCurrencySymbol();
+
+    let response = `Simulation ${simulation.success ? 'Succeeded' : 'Failed'} (nothing was signed or sent)\n\n`;
+    response += `From: ${simulation.from}\n`;
+    response += simulation.contractAddress
+      ? `Contract Address: ${simulation.contractAddress}\n`
+      : `To: ${simulation.to}\n`;
+    response += `Value: ${simulation.value} ${symbol}\n`;
+    if (simulation.revert) {
+      response += `Revert Reason: ${simulation.revert.reason}\n`;
+    }
+    if (simulation.gasEstimate) {
+      response += `Gas Estimate: ${simulation.gasEstimate}\n`;
+      response += `Gas Price: ${simulation.gasPrice} wei\n`;
+      response += `Gas Cost: ${simulation.gasCost} ${symbol}\n`;
+    }
+    response += `Balance: ${simulation.balance} ${symbol}${simulation.sufficientFunds ? '' : ' (not enough for value and gas)'}\n`;
+    if (simulation.result) {
+      response += `\nExpected Result:\n${this.describeArgs(simulation.result)}`;
+    }
+    if (simulation.policyViolation) {
+      response += `\n${simulation.policyViolation}\n`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: response,
+        },
+      ],
+    };
+  }
+
+  private getContractAbi(params: { abi?: Array<string | object>; signature?: string }): Array<string | object> | string | undefined {
+    if (params.abi && params.signature) {
+      throw new Error('Pass either abi or signature, not both');
     }
+    return params.signature || params.abi;
+  }
+
+  private describePending(status?: string): string {
+    return status === 'pending' ? '\n\nThe transaction has not been mined yet. Use track_transaction to follow it.' : '';
+  }
+
+  private describeArgs(args: Record<string, unknown>): string {
+    return Object.entries(args)
+      .map(([name, value]) => `   ${name}: ${typeof value === 'object' ? JSON.stringify(value) : value}\n`)
+      .join('');
+  }
+
+  private describeLog(log: DecodedLog, index: number): string {
+    const header = `${index + 1}. ${log.signature || 'Unknown event'} at ${log.address}\n`;
+    return log.args
+      ? header + this.describeArgs(log.args)
+      : `${header}   Topics: ${log.topics.join(', ')}\n   Data: ${log.data}\n`;
   }
 
   private async handleGetBlock(params: GetBlockParams) {
@@ -722,8 +1913,76 @@ class RootstockMCPServer {
         ],
       };
     } catch (error) {
-      throw new Error(`Failed to get block: ${error}`);
+      throw wrapError('get block', error);
+    }
+  }
+
+  private async handleGetLogs(params: GetLogsParams) {
+    try {
+      const result = await this.rootstockClient.getLogs(params);
+
+      let response = `Event Logs (${result.logs.length} in blocks ${result.fromBlock}-${result.toBlock}):\n\n`;
+      result.logs.forEach((log, index) => {
+        response += this.describeLog(log, index);
+        response += `   Block: ${log.blockNumber} | Log Index: ${log.logIndex}\n`;
+        response += `   Transaction: ${log.transactionHash}\n`;
+      });
+
+      if (result.logs.length === 0) {
+        response += 'No logs found.\n';
+      }
+      if (result.truncated) {
+        response += `\nResult limit reached. Call again with fromBlock ${result.toBlock + 1} for more.`;
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: response,
+          },
+        ],
+      };
+    } catch (error) {
+      throw wrapError('get logs', error);
+    }
+  }
+
+  private async handleGetRpcHealth() {
+    const health = await this.rootstockClient.getRpcHealth();
+
+    let response = `RPC Endpoints (${health.length}):\n\n`;
+    for (const endpoint of health) {
+      response += `${endpoint.healthy ? '✅' : '❌'} ${endpoint.url}\n`;
+      response += `   Latency: ${endpoint.latencyMs !== undefined ? `${endpoint.latencyMs} ms` : 'n/a'}\n`;
+      response += `   Block: ${endpoint.blockNumber ?? 'n/a'}${endpoint.blocksBehind ? ` (${endpoint.blocksBehind} behind)` : ''}\n`;
+      if (endpoint.lastError) {
+        response += `   Last Error: ${endpoint.lastError}\n`;
+      }
     }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: response,
+        },
+      ],
+    };
+  }
+
+  private async handleSwitchNetwork(params: SwitchNetworkParams) {
+    const profile = this.networks.setActive(params.network);
+    this.rootstockClient.switchNetwork(toRootstockConfig(profile));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Switched to ${profile.networkName} (${profile.id})\n\nChain ID: ${profile.chainId}\nRPC URL: ${profile.rpcUrl}\nCurrency: ${profile.currencySymbol}${profile.explorerUrl ? `\nExplorer: ${profile.explorerUrl}` : ''}${profile.chainId === MAINNET_CHAIN_ID ? '\n\n⚠️ Mainnet: write tools require confirmMainnet: true' : ''}`,
+        },
+      ],
+    };
   }
 
   private async handleGetNetworkInfo() {
@@ -738,7 +1997,32 @@ class RootstockMCPServer {
         ],
       };
     } catch (error) {
-      throw new Error(`Failed to get network info: ${error}`);
+      throw wrapError('get network info', error);
+    }
+  }
+
+  private async handleGetGasPrice() {
+    try {
+      const quote = await this.rootstockClient.getGasPrices();
+      const gwei = (value: bigint) => `${value} wei (${ethers.formatUnits(value, 'gwei')} gwei)`;
+
+      let response = `Gas Prices (block ${quote.blockNumber}):\n\n`;
+      response += `Slow: ${gwei(quote.slow)}\n`;
+      response += `Normal: ${gwei(quote.normal)}\n`;
+      response += `Fast: ${gwei(quote.fast)}\n\n`;
+      response += `Block Minimum: ${quote.minimumGasPrice !== undefined ? gwei(quote.minimumGasPrice) : 'not reported by this chain'}\n`;
+      response += `Node Suggestion: ${gwei(quote.networkGasPrice)}`;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: response,
+          },
+        ],
+      };
+    } catch (error) {
+      throw wrapError('get gas price', error);
     }
   }
 
@@ -747,7 +2031,8 @@ class RootstockMCPServer {
       const estimate = await this.rootstockClient.estimateGas(
         params.to,
         params.value,
-        params.data
+        params.data,
+        params.gasSpeed
       );
       return {
         content: [
@@ -758,8 +2043,68 @@ class RootstockMCPServer {
         ],
       };
     } catch (error) {
-      throw new Error(`Failed to estimate gas: ${error}`);
+      throw wrapError('estimate gas', error);
+    }
+  }
+
+  private async handleSignMessage(params: SignMessageParams) {
+    const wallet = params.from
+      ? this.walletManager.getWallet(params.from)
+      : this.walletManager.getCurrentWallet();
+    const signature = await signMessage(wallet, params.message, params.encoding);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Message signed!\n\nSigner: ${wallet.address}\nSignature: ${signature}`,
+        },
+      ],
+    };
+  }
+
+  private async handleSignTypedData(params: SignTypedDataParams) {
+    const wallet = params.from
+      ? this.walletManager.getWallet(params.from)
+      : this.walletManager.getCurrentWallet();
+    // A typed data signature is only valid on the chain its domain names, if it names one
+    const chainId = params.domain.chainId !== undefined && params.domain.chainId !== null
+      ? Number(params.domain.chainId)
+      : this.rootstockClient.getChainId();
+    assertMainnetConfirmed(chainId, params.confirmMainnet, 'This signature would be valid');
+    const signature = await this.rootstockClient.signTypedData(wallet, params);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Typed data signed!\n\nSigner: ${wallet.address}\nSignature: ${signature}`,
+        },
+      ],
+    };
+  }
+
+  private async handleVerifySignature(params: VerifySignatureParams) {
+    const address = this.walletManager.resolveAddress(params.address);
+    const digest = getSignatureDigest(params.message, params.typedData, params.encoding);
+    const result = await this.rootstockClient.verifySignature(address, params.signature, digest);
+
+    let response = `Signature ${result.valid ? 'is valid' : 'is NOT valid'}\n\nAddress: ${result.address}`;
+    if (result.method) {
+      response += `\nMethod: ${result.method === 'eip1271' ? 'EIP-1271 contract signature' : 'ECDSA recovery'}`;
     }
+    if (result.recoveredAddress && result.recoveredAddress !== result.address) {
+      response += `\nRecovered Signer: ${result.recoveredAddress}`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: response,
+        },
+      ],
+    };
   }
 
   private async handleCallContract(params: CallContractParams) {
@@ -768,33 +2113,52 @@ class RootstockMCPServer {
         params.contractAddress,
         params.methodName,
         params.parameters || [],
-        params.abi
+        this.getContractAbi(params)
       );
+      const values = Object.keys(result.result).length > 0 ? this.describeArgs(result.result) : '   (no return values)\n';
       return {
         content: [
           {
             type: 'text',
-            text: `Contract Call Result:\n\nContract: ${params.contractAddress}\nMethod: ${params.methodName}\nResult: ${JSON.stringify(result.result, null, 2)}`,
+            text: `Contract Call Result:\n\nContract: ${params.contractAddress}\nFunction: ${result.signature}\nResult:\n${values}`,
           },
         ],
+        structuredContent: {
+          contractAddress: params.contractAddress,
+          signature: result.signature,
+          result: result.result,
+        },
       };
     } catch (error) {
-      throw new Error(`Failed to call contract: ${error}`);
+      throw wrapError('call contract', error);
     }
   }
 
   private async handleSendContractTransaction(params: SendContractTransactionParams) {
     try {
+      if (params.simulate) {
+        return await this.handleSimulation(this.walletManager.getCurrentAddress(), {
+          type: 'contract_call',
+          contractAddress: params.contractAddress,
+          methodName: params.methodName,
+          parameters: params.parameters,
+          abi: this.getContractAbi(params),
+          value: params.value,
+        }, params);
+      }
+
+      assertMainnetConfirmed(this.rootstockClient.getChainId(), params.confirmMainnet);
       const wallet = this.walletManager.getCurrentWallet();
       const result = await this.rootstockClient.sendContractTransaction(
         wallet,
         params.contractAddress,
         params.methodName,
         params.parameters || [],
-        params.abi,
+        this.getContractAbi(params),
         params.value,
         params.gasLimit,
-        params.gasPrice
+        params.gasPrice,
+        { wait: params.wait, confirmations: params.confirmations, gasSpeed: params.gasSpeed }
       );
 
       const explorerUrl = this.rootstockClient.getExplorerUrl();
@@ -805,28 +2169,30 @@ class RootstockMCPServer {
         content: [
           {
             type: 'text',
-            text: `Contract Transaction Sent:\n\nTransaction Hash: ${result.hash}\nTransaction Explorer: ${txExplorerLink}\n\nContract: ${params.contractAddress}\nContract Explorer: ${contractExplorerLink}\n\nMethod: ${params.methodName}\nStatus: ${result.status}`,
+            text: `Contract Transaction Sent:\n\nTransaction Hash: ${result.hash}\nTransaction Explorer: ${txExplorerLink}\n\nContract: ${params.contractAddress}\nContract Explorer: ${contractExplorerLink}\n\nMethod: ${params.methodName}\nStatus: ${result.status}${this.describePending(result.status)}`,
           },
         ],
       };
     } catch (error) {
-      throw new Error(`Failed to send contract transaction: ${error}`);
+      throw wrapError('send contract transaction', error);
     }
   }
 
   private async handleSetCurrentWallet(params: { address: string }) {
     try {
       this.walletManager.setCurrentWallet(params.address);
+      const address = this.walletManager.getCurrentAddress();
+      const name = this.walletManager.getWalletName(address);
       return {
         content: [
           {
             type: 'text',
-            text: `Current wallet set to: ${params.address}`,
+            text: `Current wallet set to: ${name ? `${name} (${address})` : address}`,
           },
         ],
       };
     } catch (error) {
-      throw new Error(`Failed to set current wallet: ${error}`);
+      throw wrapError('set current wallet', error);
     }
   }
 
@@ -838,17 +2204,33 @@ class RootstockMCPServer {
         content: [
           {
             type: 'text',
-            text: `Current Wallet:\n\nAddress: ${walletInfo.address}\nPublic Key: ${walletInfo.publicKey}\nPrivate Key: ${walletInfo.privateKey}`,
+            text: walletInfo.watchOnly
+              ? `Current Wallet:\n\nName: ${walletInfo.name}\nAddress: ${walletInfo.address}\nType: watch-only (cannot sign transactions)`
+              : walletInfo.remoteSigner
+              ? `Current Wallet:\n\nName: ${walletInfo.name}\nAddress: ${walletInfo.address}\nType: remote signer (${walletInfo.remoteSigner})`
+              : `Current Wallet:\n\nName: ${walletInfo.name}\nAddress: ${walletInfo.address}\nPublic Key: ${walletInfo.publicKey}${walletInfo.privateKey ? `\nPrivate Key: ${walletInfo.privateKey}` : ''}`,
           },
         ],
       };
     } catch (error) {
-      throw new Error(`Failed to get current wallet: ${error}`);
+      throw wrapError('get current wallet', error);
     }
   }
 
   private async handleDeployERC20Token(params: DeployERC20Params) {
     try {
+      if (params.simulate) {
+        return await this.handleSimulation(this.walletManager.getCurrentAddress(), {
+          type: 'deploy_erc20',
+          name: params.name,
+          symbol: params.symbol,
+          decimals: params.decimals || 18,
+          initialSupply: params.initialSupply,
+          mintable: params.mintable,
+        }, params);
+      }
+
+      assertMainnetConfirmed(this.rootstockClient.getChainId(), params.confirmMainnet);
       const wallet = this.walletManager.getCurrentWallet();
       const result = await this.rootstockClient.deployERC20Token(
         wallet,
@@ -858,7 +2240,8 @@ class RootstockMCPServer {
         params.initialSupply,
         params.mintable || false,
         params.gasLimit,
-        params.gasPrice
+        params.gasPrice,
+        { wait: params.wait, confirmations: params.confirmations, gasSpeed: params.gasSpeed }
       );
 
       const explorerUrl = this.rootstockClient.getExplorerUrl();
@@ -869,12 +2252,12 @@ class RootstockMCPServer {
         content: [
           {
             type: 'text',
-            text: `ERC20 Token Deployed Successfully!\n\nContract Address: ${result.contractAddress}\nContract Explorer: ${contractExplorerLink}\n\nTransaction Hash: ${result.transactionHash}\nTransaction Explorer: ${txExplorerLink}\n\nToken Details:\nName: ${result.name}\nSymbol: ${result.symbol}\nDecimals: ${result.decimals}\nInitial Supply: ${result.initialSupply}\nDeployer: ${result.deployer}\nGas Used: ${result.gasUsed}\nBlock Number: ${result.blockNumber}`,
+            text: `${result.status === 'pending' ? 'ERC20 Token Deployment Sent' : 'ERC20 Token Deployed Successfully!'}\n\nContract Address: ${result.contractAddress}\nContract Explorer: ${contractExplorerLink}\n\nTransaction Hash: ${result.transactionHash}\nTransaction Explorer: ${txExplorerLink}\n\nToken Details:\nName: ${result.name}\nSymbol: ${result.symbol}\nDecimals: ${result.decimals}\nInitial Supply: ${result.initialSupply}\nDeployer: ${result.deployer}\nGas Used: ${result.gasUsed}\nBlock Number: ${result.blockNumber}${this.describePending(result.status)}`,
           },
         ],
       };
     } catch (error) {
-      throw new Error(`Failed to deploy ERC20 token: ${error}`);
+      throw wrapError('deploy ERC20 token', error);
     }
   }
 
@@ -890,12 +2273,22 @@ class RootstockMCPServer {
         ],
       };
     } catch (error) {
-      throw new Error(`Failed to get token info: ${error}`);
+      throw wrapError('get token info', error);
     }
   }
 
   private async handleMintTokens(params: MintTokensParams) {
     try {
+      if (params.simulate) {
+        return await this.handleSimulation(this.walletManager.getCurrentAddress(), {
+          type: 'mint_tokens',
+          tokenAddress: params.tokenAddress,
+          to: params.to,
+          amount: params.amount,
+        }, params);
+      }
+
+      assertMainnetConfirmed(this.rootstockClient.getChainId(), params.confirmMainnet);
       const wallet = this.walletManager.getCurrentWallet();
       const result = await this.rootstockClient.mintTokens(
         wallet,
@@ -903,7 +2296,8 @@ class RootstockMCPServer {
         params.to,
         params.amount,
         params.gasLimit,
-        params.gasPrice
+        params.gasPrice,
+        { wait: params.wait, confirmations: params.confirmations, gasSpeed: params.gasSpeed }
       );
 
       const explorerUrl = this.rootstockClient.getExplorerUrl();
@@ -914,17 +2308,27 @@ class RootstockMCPServer {
         content: [
           {
             type: 'text',
-            text: `Tokens Minted Successfully!\n\nTransaction Hash: ${result.hash}\nTransaction Explorer: ${txExplorerLink}\n\nToken Contract: ${params.tokenAddress}\nContract Explorer: ${contractExplorerLink}\n\nMint Details:\nMinted To: ${params.to}\nAmount: ${params.amount}\nStatus: ${result.status}\nGas Used: ${result.gasUsed}`,
+            text: `${result.status === 'pending' ? 'Token Mint Sent' : 'Tokens Minted Successfully!'}\n\nTransaction Hash: ${result.hash}\nTransaction Explorer: ${txExplorerLink}\n\nToken Contract: ${params.tokenAddress}\nContract Explorer: ${contractExplorerLink}\n\nMint Details:\nMinted To: ${params.to}\nAmount: ${params.amount}\nStatus: ${result.status}\nGas Used: ${result.gasUsed}${this.describePending(result.status)}`,
           },
         ],
       };
     } catch (error) {
-      throw new Error(`Failed to mint tokens: ${error}`);
+      throw wrapError('mint tokens', error);
     }
   }
 
   private async handleDeployERC721Token(params: DeployERC721Params) {
     try {
+      if (params.simulate) {
+        return await this.handleSimulation(this.walletManager.getCurrentAddress(), {
+          type: 'deploy_erc721',
+          name: params.name,
+          symbol: params.symbol,
+          mintable: params.mintable,
+        }, params);
+      }
+
+      assertMainnetConfirmed(this.rootstockClient.getChainId(), params.confirmMainnet);
       const wallet = this.walletManager.getCurrentWallet();
       const result = await this.rootstockClient.deployERC721Token(
         wallet,
@@ -932,19 +2336,20 @@ class RootstockMCPServer {
         params.symbol,
         params.mintable || false,
         params.gasLimit,
-        params.gasPrice
+        params.gasPrice,
+        { wait: params.wait, confirmations: params.confirmations, gasSpeed: params.gasSpeed }
       );
 
       return {
         content: [
           {
             type: 'text',
-            text: `ERC721 NFT Contract Deployed Successfully!\n\nContract Address: ${result.contractAddress}\nTransaction Hash: ${result.transactionHash}\nName: ${result.name}\nSymbol: ${result.symbol}\nDeployer: ${result.deployer}${result.gasUsed ? `\nGas Used: ${result.gasUsed}` : ''}${result.blockNumber ? `\nBlock Number: ${result.blockNumber}` : ''}`,
+            text: `${result.status === 'pending' ? 'ERC721 NFT Contract Deployment Sent' : 'ERC721 NFT Contract Deployed Successfully!'}\n\nContract Address: ${result.contractAddress}\nTransaction Hash: ${result.transactionHash}\nName: ${result.name}\nSymbol: ${result.symbol}\nDeployer: ${result.deployer}${result.gasUsed ? `\nGas Used: ${result.gasUsed}` : ''}${result.blockNumber ? `\nBlock Number: ${result.blockNumber}` : ''}${this.describePending(result.status)}`,
           },
         ],
       };
     } catch (error) {
-      throw new Error(`Failed to deploy ERC721 token: ${error}`);
+      throw wrapError('deploy ERC721 token', error);
     }
   }
 
@@ -960,12 +2365,23 @@ class RootstockMCPServer {
         ],
       };
     } catch (error) {
-      throw new Error(`Failed to get NFT info: ${error}`);
+      throw wrapError('get NFT info', error);
     }
   }
 
   private async handleMintNFT(params: MintNFTParams) {
     try {
+      if (params.simulate) {
+        return await this.handleSimulation(this.walletManager.getCurrentAddress(), {
+          type: 'mint_nft',
+          tokenAddress: params.tokenAddress,
+          to: params.to,
+          tokenId: params.tokenId,
+          tokenURI: params.tokenURI,
+        }, params);
+      }
+
+      assertMainnetConfirmed(this.rootstockClient.getChainId(), params.confirmMainnet);
       const wallet = this.walletManager.getCurrentWallet();
       const result = await this.rootstockClient.mintNFT(
         wallet,
@@ -974,19 +2390,60 @@ class RootstockMCPServer {
         params.tokenId,
         params.tokenURI || '',
         params.gasLimit,
-        params.gasPrice
+        params.gasPrice,
+        { wait: params.wait, confirmations: params.confirmations, gasSpeed: params.gasSpeed }
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${result.status === 'pending' ? 'NFT Mint Sent' : 'NFT Minted Successfully!'}\n\nTransaction Hash: ${result.transactionHash}\nTo: ${result.to}\nToken ID: ${result.tokenId}${result.tokenURI ? `\nToken URI: ${result.tokenURI}` : ''}\nGas Used: ${result.gasUsed || 'N/A'}\nBlock Number: ${result.blockNumber || 'N/A'}${this.describePending(result.status)}`,
+          },
+        ],
+      };
+    } catch (error) {
+      throw wrapError('mint NFT', error);
+    }
+  }
+
+  private async handleDeployMulticall(params: DeployMulticallParams) {
+    try {
+      assertMainnetConfirmed(this.rootstockClient.getChainId(), params.confirmMainnet);
+      const wallet = params.from
+        ? this.walletManager.getWallet(params.from)
+        : this.walletManager.getCurrentWallet();
+      const result = await this.rootstockClient.deployMulticall(
+        wallet,
+        params.gasLimit,
+        params.gasPrice,
+        { wait: params.wait, confirmations: params.confirmations, gasSpeed: params.gasSpeed }
       );
 
+      // Keep using the contract after switching networks and back
+      this.networks.register({ ...this.networks.getActive(), multicallAddress: result.contractAddress });
+
+      if (result.alreadyDeployed) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Multicall3 is already deployed on this network.\n\nContract Address: ${result.contractAddress}`,
+            },
+          ],
+        };
+      }
+
       return {
         content: [
           {
             type: 'text',
-            text: `NFT Minted Successfully!\n\nTransaction Hash: ${result.transactionHash}\nTo: ${result.to}\nToken ID: ${result.tokenId}${result.tokenURI ? `\nToken URI: ${result.tokenURI}` : ''}\nGas Used: ${result.gasUsed || 'N/A'}\nBlock Number: ${result.blockNumber || 'N/A'}`,
+            text: `${result.status === 'pending' ? 'Multicall3 Deployment Sent' : 'Multicall3 Deployed Successfully!'}\n\nContract Address: ${result.contractAddress}\nTransaction Hash: ${result.transactionHash}\nDeployer: ${result.deployer}${result.gasUsed ? `\nGas Used: ${result.gasUsed}` : ''}${result.blockNumber ? `\nBlock Number: ${result.blockNumber}` : ''}${this.describePending(result.status)}\n\nBatched reads on this network use it until the server restarts. Set ROOTSTOCK_MULTICALL_ADDRESS=${result.contractAddress} (or multicallAddress in the network profile) to keep using it after a restart.`,
           },
         ],
       };
     } catch (error) {
-      throw new Error(`Failed to mint NFT: ${error}`);
+      throw wrapError('deploy Multicall3', error);
     }
   }
 
@@ -0,0 +1,222 @@
+/**
+ * Keystore
+ * Persists wallets as passphrase-encrypted JSON keystore (V3) files
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { wrapError } from './errors.js';
+
+export interface KeystoreOptions {
+  /** scrypt cost parameter; lower values are only meant for tests */
+  scryptN?: number;
+}
+
+export interface KeystoreEntry {
+  wallet: ethers.Wallet | ethers.HDNodeWallet;
+  name?: string;
+}
+
+export interface WatchOnlyEntry {
+  address: string;
+  name?: string;
+}
+
+export interface RemoteSignerEntry {
+  address: string;
+  endpoint: string;
+  name?: string;
+}
+
+export interface KeystoreLoadResult {
+  entries: KeystoreEntry[];
+  failed: string[];
+}
+
+export class Keystore {
+  private directory: string;
+  private options: KeystoreOptions;
+
+  constructor(directory: string, options: KeystoreOptions = {}) {
+    this.directory = path.resolve(directory);
+    this.options = options;
+  }
+
+  /**
+   * Get the keystore directory
+   */
+  getDirectory(): string {
+    return this.directory;
+  }
+
+  /**
+   * List keystore files in the directory
+   */
+  listFiles(): string[] {
+    if (!fs.existsSync(this.directory)) {
+      return [];
+    }
+
+    return fs.readdirSync(this.directory)
+      .map((file) => path.join(this.directory, file))
+      .filter((file) => {
+        try {
+          return fs.statSync(file).isFile() && ethers.isKeystoreJson(fs.readFileSync(file, 'utf8'));
+        } catch {
+          return false;
+        }
+      });
+  }
+
+  /**
+   * Encrypt a wallet and write it to the keystore, replacing any previous file for the same address
+   */
+  save(wallet: ethers.Wallet | ethers.HDNodeWallet, passphrase: string, name?: string): string {
+    try {
+      fs.mkdirSync(this.directory, { recursive: true, mode: 0o700 });
+
+      const account: ethers.KeystoreAccount = {
+        address: wallet.address,
+        privateKey: wallet.privateKey,
+      };
+
+      if (wallet instanceof ethers.HDNodeWallet && wallet.mnemonic) {
+        account.mnemonic = {
+          path: wallet.path || undefined,
+          locale: wallet.mnemonic.wordlist.locale,
+          entropy: wallet.mnemonic.entropy,
+        };
+      }
+
+      const json = JSON.parse(ethers.encryptKeystoreJsonSync(account, passphrase, {
+        scrypt: this.options.scryptN ? { N: this.options.scryptN } : undefined,
+      }));
+
+      // The wallet name is stored unencrypted next to the V3 fields
+      if (name) {
+        json.name = name;
+      }
+
+      const existing = this.findFile(wallet.address);
+      const file = existing || path.join(this.directory, this.fileName(wallet.address));
+      fs.writeFileSync(file, JSON.stringify(json, null, 2), { mode: 0o600 });
+
+      return file;
+    } catch (error) {
+      throw wrapError('save wallet to keystore', error);
+    }
+  }
+
+  /**
+   * Decrypt every keystore file with the given passphrase
+   */
+  load(passphrase: string): KeystoreLoadResult {
+    const result: KeystoreLoadResult = { entries: [], failed: [] };
+
+    for (const file of this.listFiles()) {
+      try {
+        const json = fs.readFileSync(file, 'utf8');
+        const name = JSON.parse(json).name;
+        result.entries.push({
+          wallet: ethers.Wallet.fromEncryptedJsonSync(json, passphrase),
+          name: typeof name === 'string' ? name : undefined,
+        });
+      } catch {
+        result.failed.push(file);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Write the watch-only address list; it holds no secrets and is stored unencrypted
+   */
+  saveWatchOnly(entries: WatchOnlyEntry[]): void {
+    try {
+      this.writeList('watch-only.json', entries);
+    } catch (error) {
+      throw wrapError('save watch-only wallets', error);
+    }
+  }
+
+  /**
+   * Read the watch-only address list
+   */
+  loadWatchOnly(): WatchOnlyEntry[] {
+    return this.readList<WatchOnlyEntry>('watch-only.json')
+      .filter((entry) => typeof entry?.address === 'string');
+  }
+
+  /**
+   * Write the remote signer list; it holds endpoints only, never keys
+   */
+  saveRemoteSigners(entries: RemoteSignerEntry[]): void {
+    try {
+      this.writeList('remote-signers.json', entries);
+    } catch (error) {
+      throw wrapError('save remote signers', error);
+    }
+  }
+
+  /**
+   * Read the remote signer list
+   */
+  loadRemoteSigners(): RemoteSignerEntry[] {
+    return this.readList<RemoteSignerEntry>('remote-signers.json')
+      .filter((entry) => typeof entry?.address === 'string' && typeof entry?.endpoint === 'string');
+  }
+
+  /**
+   * Check whether a keystore file exists for an address
+   */
+  has(address: string): boolean {
+    return this.findFile(address) !== null;
+  }
+
+  private findFile(address: string): string | null {
+    const needle = address.toLowerCase().replace(/^0x/, '');
+
+    for (const file of this.listFiles()) {
+      try {
+        const json = JSON.parse(fs.readFileSync(file, 'utf8'));
+        if (String(json.address).toLowerCase().replace(/^0x/, '') === needle) {
+          return file;
+        }
+      } catch {
+        // Unreadable file, ignore
+      }
+    }
+
+    return null;
+  }
+
+  private writeList<T>(fileName: string, entries: T[]): void {
+    fs.mkdirSync(this.directory, { recursive: true, mode: 0o700 });
+    fs.writeFileSync(path.join(this.directory, fileName), JSON.stringify(entries, null, 2), { mode: 0o600 });
+  }
+
+  private readList<T>(fileName: string): T[] {
+    const file = path.join(this.directory, fileName);
+    if (!fs.existsSync(file)) {
+      return [];
+    }
+
+    try {
+      const entries = JSON.parse(fs.readFileSync(file, 'utf8'));
+      return Array.isArray(entries) ? entries : [];
+    } catch (error) {
+      console.warn(`Failed to read ${file}: ${error}`);
+      return [];
+    }
+  }
+
+  /**
+   * Geth-style file name: UTC--<timestamp>--<address>
+   */
+  private fileName(address: string): string {
+    const timestamp = new Date().toISOString().replace(/:/g, '-');
+    return `UTC--${timestamp}--${address.toLowerCase().replace(/^0x/, '')}.json`;
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Multicall
+ * Batches contract reads into one eth_call through a Multicall3 contract
+ */
+
+import { ethers } from 'ethers';
+
+// Deployed at the same address on most EVM chains, Rootstock Mainnet and Testnet included
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+export const MULTICALL3_ABI = [
+  'function aggregate((address target, bytes callData)[] calls) payable returns (uint256 blockNumber, bytes[] returnData)',
+  'function tryAggregate(bool requireSuccess, (address target, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+  'function aggregate3Value((address target, bool allowFailure, uint256 value, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+  'function getBlockNumber() view returns (uint256 blockNumber)',
+  'function getBlockHash(uint256 blockNumber) view returns (bytes32 blockHash)',
+  'function getCurrentBlockTimestamp() view returns (uint256 timestamp)',
+  'function getEthBalance(address addr) view returns (uint256 balance)',
+  'function getChainId() view returns (uint256 chainid)',
+];
+
+// contracts/Multicall3.sol compiled with solc 0.8.30, 200 optimizer runs and evmVersion paris (no PUSH0)
+export const MULTICALL3_BYTECODE = '0x6080604052348015600f57600080fd5b50610cce8061001f6000396000f3fe6080604052600436106100f35760003560e01c80634d2301cc1161008a578063a8b0574e11610059578063a8b0574e1461022f578063bce38bd71461024a578063c3077fa91461025d578063ee82ac5e1461027057600080fd5b80634d2301cc146101ce57806372425d9d146101f657806382ad56cb1461020957806386d516e81461021c57600080fd5b80633408e470116100c65780633408e47014610173578063399542e9146101865780633e64a696146101a857806342cbb15c146101bb57600080fd5b80630f28c97d146100f8578063174dea711461011a578063252dba421461013a57806327e86d6e1461015b575b600080fd5b34801561010457600080fd5b50425b6040519081526020015b60405180910390f35b61012d610128366004610922565b61028f565b6040516101119190610a1f565b61014d610148366004610922565b610474565b604051610111929190610a39565b34801561016757600080fd5b50436000190140610107565b34801561017f57600080fd5b5046610107565b610199610194366004610aba565b6105be565b60405161011193929190610b0d565b3480156101b457600080fd5b5048610107565b3480156101c757600080fd5b5043610107565b3480156101da57600080fd5b506101076101e9366004610b35565b6001600160a01b03163190565b34801561020257600080fd5b5044610107565b61012d610217366004610922565b6105d9565b34801561022857600080fd5b5045610107565b34801561023b57600080fd5b50604051418152602001610111565b61012d610258366004610aba565b61074e565b61019961026b366004610922565b6108b7565b34801561027c57600080fd5b5061010761028b366004610b5e565b4090565b60606000828067ffffffffffffffff8111156102ad576102ad610b77565b6040519080825280602002602001820160405280156102f357816020015b6040805180820190915260008152606060208201528152602001906001900390816102cb5790505b5092503660005b8281101561041b57600085828151811061031657610316610b8d565b6020026020010151905087878381811061033257610332610b8d565b90506020028101906103449190610ba3565b60408101359586019590935061035d6020850185610b35565b6001600160a01b0316816103746060870187610bc3565b604051610382929190610c0a565b60006040518083038185875af1925050503d80600081146103bf576040519150601f19603f3d011682016040523d82523d6000602084013e6103c4565b606091505b5060208085019190915290151583526103e39060408601908601610c1a565b806103ec575081515b6104115760405162461bcd60e51b815260040161040890610c35565b60405180910390fd5b50506001016102fa565b5082341461046b5760405162461bcd60e51b815260206004820152601a60248201527f4d756c746963616c6c333a2076616c7565206d69736d617463680000000000006044820152606401610408565b50505092915050565b436060828067ffffffffffffffff81111561049157610491610b77565b6040519080825280602002602001820160405280156104c457816020015b60608152602001906001900390816104af5790505b5091503660005b828110156105b45760008787838181106104e7576104e7610b8d565b90506020028101906104f99190610c6c565b92506105086020840184610b35565b6001600160a01b031661051e6020850185610bc3565b60405161052c929190610c0a565b6000604051808303816000865af19150503d8060008114610569576040519150601f19603f3d011682016040523d82523d6000602084013e61056e565b606091505b5086848151811061058157610581610b8d565b60209081029190910101529050806105ab5760405162461bcd60e51b815260040161040890610c35565b506001016104cb565b5050509250929050565b43804060606105ce86868661074e565b905093509350939050565b6060818067ffffffffffffffff8111156105f5576105f5610b77565b60405190808252806020026020018201604052801561063b57816020015b6040805180820190915260008152606060208201528152602001906001900390816106135790505b5091503660005b8281101561046b57600084828151811061065e5761065e610b8d565b6020026020010151905086868381811061067a5761067a610b8d565b905060200281019061068c9190610c82565b925061069b6020840184610b35565b6001600160a01b03166106b16040850185610bc3565b6040516106bf929190610c0a565b6000604051808303816000865af19150503d80600081146106fc576040519150601f19603f3d011682016040523d82523d6000602084013e610701565b606091505b5060208084019190915290151582526107209060408501908501610c1a565b80610729575080515b6107455760405162461bcd60e51b815260040161040890610c35565b50600101610642565b6060818067ffffffffffffffff81111561076a5761076a610b77565b6040519080825280602002602001820160405280156107b057816020015b6040805180820190915260008152606060208201528152602001906001900390816107885790505b5091503660005b828110156108ad5760008482815181106107d3576107d3610b8d565b602002602001015190508686838181106107ef576107ef610b8d565b90506020028101906108019190610c6c565b92506108106020840184610b35565b6001600160a01b03166108266020850185610bc3565b604051610834929190610c0a565b6000604051808303816000865af19150503d8060008114610871576040519150601f19603f3d011682016040523d82523d6000602084013e610876565b606091505b5060208301521515815287156108a45780516108a45760405162461bcd60e51b815260040161040890610c35565b506001016107b7565b5050509392505050565b60008060606108c8600186866105be565b919790965090945092505050565b60008083601f8401126108e857600080fd5b50813567ffffffffffffffff81111561090057600080fd5b6020830191508360208260051b850101111561091b57600080fd5b9250929050565b6000806020838503121561093557600080fd5b823567ffffffffffffffff81111561094c57600080fd5b610958858286016108d6565b90969095509350505050565b6000815180845260005b8181101561098a5760208185018101518683018201520161096e565b506000602082860101526020601f19601f83011685010191505092915050565b600082825180855260208501945060208160051b8301016020850160005b83811015610a1357601f19858403018852815180511515845260208101519050604060208501526109fc6040850182610964565b6020998a01999094509290920191506001016109c8565b50909695505050505050565b602081526000610a3260208301846109aa565b9392505050565b6000604082018483526040602084015280845180835260608501915060608160051b86010192506020860160005b82811015610a9857605f19878603018452610a83858351610964565b94506020938401939190910190600101610a67565b5092979650505050505050565b80358015158114610ab557600080fd5b919050565b600080600060408486031215610acf57600080fd5b610ad884610aa5565b9250602084013567ffffffffffffffff811115610af457600080fd5b610b00868287016108d6565b9497909650939450505050565b838152826020820152606060408201526000610b2c60608301846109aa565b95945050505050565b600060208284031215610b4757600080fd5b81356001600160a01b0381168114610a3257600080fd5b600060208284031215610b7057600080fd5b5035919050565b634e487b7160e01b600052604160045260246000fd5b634e487b7160e01b600052603260045260246000fd5b60008235607e19833603018112610bb957600080fd5b9190910192915050565b6000808335601e19843603018112610bda57600080fd5b83018035915067ffffffffffffffff821115610bf557600080fd5b60200191503681900382131561091b57600080fd5b8183823760009101908152919050565b600060208284031215610c2c57600080fd5b610a3282610aa5565b60208082526017908201527f4d756c746963616c6c333a2063616c6c206661696c6564000000000000000000604082015260600190565b60008235603e19833603018112610bb957600080fd5b60008235605e19833603018112610bb957600080fdfea2646970667358221220fd52b23bfbd79f9ec386e0de88e0b87c1d84b2abb71fc54d8b56dc1275b85be164736f6c634300081e0033';
+
+export interface MulticallCall {
+  target: string;
+  callData: string;
+  /** Report a failed call instead of failing the whole batch (default true) */
+  allowFailure?: boolean;
+}
+
+export interface MulticallResult {
+  success: boolean;
+  returnData: string;
+}
+
+export interface MulticallResponse {
+  /** Block all calls were read at */
+  blockNumber: number;
+  results: MulticallResult[];
+  /** Whether the calls went through Multicall3 rather than one by one */
+  batched: boolean;
+}
+
+export interface MulticallOptions {
+  /** Multicall3 contract address (default: the canonical deployment) */
+  address?: string;
+  /** Calls per eth_call; longer lists are split, all read at the same block */
+  batchSize?: number;
+}
+
+const multicallInterface = new ethers.Interface(MULTICALL3_ABI);
+
+/**
+ * Decode the return data of one call, or null if it failed or returned something else
+ */
+export function decodeCallResult(
+  contractInterface: ethers.Interface,
+  method: string,
+  result: MulticallResult
+): ethers.Result | null {
+  if (!result.success || result.returnData === '0x') {
+    return null;
+  }
+  try {
+    return contractInterface.decodeFunctionResult(method, result.returnData);
+  } catch {
+    return null;
+  }
+}
+
+export class Multicall {
+  readonly address: string;
+  readonly contractInterface: ethers.Interface = multicallInterface;
+  private batchSize: number;
+  private deployed = false;
+
+  constructor(options: MulticallOptions = {}) {
+    this.address = ethers.getAddress(options.address || MULTICALL3_ADDRESS);
+    this.batchSize = Math.max(1, options.batchSize ?? 500);
+  }
+
+  /**
+   * Whether the Multicall3 contract exists on the connected chain. Only a positive answer is cached,
+   * so a contract deployed later is picked up
+   */
+  async isAvailable(provider: ethers.Provider): Promise<boolean> {
+    if (!this.deployed) {
+      this.deployed = (await provider.getCode(this.address)) !== '0x';
+    }
+    return this.deployed;
+  }
+
+  /**
+   * A call reading the native balance of an address, to batch along with contract reads
+   */
+  getEthBalanceCall(address: string): MulticallCall {
+    return {
+      target: this.address,
+      callData: multicallInterface.encodeFunctionData('getEthBalance', [address]),
+    };
+  }
+
+  /**
+   * Run the calls at one block: through Multicall3 when it is deployed, otherwise one eth_call each
+   */
+  async aggregate(provider: ethers.Provider, calls: MulticallCall[], blockTag?: number): Promise<MulticallResponse> {
+    if (!await this.isAvailable(provider)) {
+      const blockNumber = blockTag ?? await provider.getBlockNumber();
+      const results = await Promise.all(calls.map((call) => this.callDirectly(provider, call, blockNumber)));
+      return { blockNumber, results, batched: false };
+    }
+
+    let blockNumber = blockTag;
+    const results: MulticallResult[] = [];
+    for (let start = 0; start === 0 || start < calls.length; start += this.batchSize) {
+      const batch = calls.slice(start, start + this.batchSize);
+      // The first batch also reads the block number, so later batches can be pinned to it
+      const readsBlock = blockNumber === undefined;
+      if (readsBlock) {
+        batch.unshift({ target: this.address, callData: multicallInterface.encodeFunctionData('getBlockNumber') });
+      }
+
+      const data = multicallInterface.encodeFunctionData('aggregate3', [
+        batch.map((call) => [call.target, call.allowFailure ?? true, call.callData]),
+      ]);
+      const [decoded] = multicallInterface.decodeFunctionResult(
+        'aggregate3',
+        await provider.call({ to: this.address, data, blockTag: blockNumber })
+      );
+      const batchResults: MulticallResult[] = Array.from(decoded, (result: ethers.Result) => ({
+        success: result.success,
+        returnData: result.returnData,
+      }));
+
+      if (readsBlock) {
+        const [blockResult, ...callResults] = batchResults;
+        blockNumber = Number(ethers.toBigInt(blockResult.returnData));
+        results.push(...callResults);
+      } else {
+        results.push(...batchResults);
+      }
+    }
+
+    return { blockNumber: blockNumber as number, results, batched: true };
+  }
+
+  /**
+   * Without Multicall3, reads of its own helpers are answered by the provider instead
+   */
+  private async callDirectly(provider: ethers.Provider, call: MulticallCall, blockTag: number): Promise<MulticallResult> {
+    if (call.target.toLowerCase() === this.address.toLowerCase()) {
+      const parsed = multicallInterface.parseTransaction({ data: call.callData });
+      if (parsed?.name === 'getEthBalance') {
+        const balance = await provider.getBalance(parsed.args[0], blockTag);
+        return { success: true, returnData: ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [balance]) };
+      }
+    }
+
+    try {
+      return { success: true, returnData: await provider.call({ to: call.target, data: call.callData, blockTag }) };
+    } catch (error) {
+      if (call.allowFailure === false || !ethers.isError(error, 'CALL_EXCEPTION')) {
+        throw error;
+      }
+      return { success: false, returnData: error.data ?? '0x' };
+    }
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Network Profiles
+ * Built-in and custom network settings that can be switched at runtime
+ */
+
+import fs from 'fs';
+import { RootstockConfig } from './types.js';
+import { RootstockError, wrapError } from './errors.js';
+
+export interface NetworkProfile {
+  id: string;
+  rpcUrl: string;
+  /** Used when rpcUrl fails, and to spread read requests */
+  fallbackRpcUrls?: string[];
+  chainId: number;
+  networkName: string;
+  explorerUrl?: string;
+  /** Blockscout-compatible API used for transaction history */
+  explorerApiUrl?: string;
+  currencySymbol: string;
+  /** Multicall3 contract used to batch reads (default: the canonical deployment) */
+  multicallAddress?: string;
+}
+
+export interface NetworkRegistryOptions {
+  /** Profile to start on; when set, the overrides are ignored */
+  network?: string;
+  /** Extra profiles, replacing built-in ones with the same id */
+  profiles?: NetworkProfile[];
+  /** Single-network settings applied to the profile matching their chain ID (default 31) */
+  overrides?: Partial<RootstockConfig>;
+}
+
+export const MAINNET_CHAIN_ID = 30;
+
+export const BUILTIN_NETWORKS: NetworkProfile[] = [
+  {
+    id: 'mainnet',
+    rpcUrl: 'https://public-node.rsk.co',
+    chainId: 30,
+    networkName: 'Rootstock Mainnet',
+    explorerUrl: 'https://explorer.rootstock.io',
+    currencySymbol: 'RBTC',
+  },
+  {
+    id: 'testnet',
+    rpcUrl: 'https://public-node.testnet.rsk.co',
+    chainId: 31,
+    networkName: 'Rootstock Testnet',
+    explorerUrl: 'https://explorer.testnet.rootstock.io',
+    currencySymbol: 'tRBTC',
+  },
+  {
+    id: 'regtest',
+    rpcUrl: 'http://localhost:4444',
+    chainId: 33,
+    networkName: 'Rootstock Regtest',
+    currencySymbol: 'RBTC',
+  },
+];
+
+export class NetworkRegistry {
+  private profiles: Map<string, NetworkProfile> = new Map();
+  private activeId: string;
+
+  constructor(options: NetworkRegistryOptions = {}) {
+    for (const profile of [...BUILTIN_NETWORKS, ...(options.profiles || [])]) {
+      this.register(profile);
+    }
+
+    if (options.network) {
+      this.activeId = this.get(options.network).id;
+      return;
+    }
+
+    // Without an explicit profile, the single-network settings pick and adjust one
+    const overrides = Object.fromEntries(
+      Object.entries(options.overrides || {}).filter(([, value]) => value !== undefined && value !== '')
+    ) as Partial<RootstockConfig>;
+    const chainId = overrides.chainId ?? 31;
+    const base = this.list().find((profile) => profile.chainId === chainId);
+
+    if (base) {
+      this.register({ ...base, ...overrides, id: base.id });
+      this.activeId = base.id;
+    } else {
+      if (!overrides.rpcUrl) {
+        throw new Error(`No network profile for chain ID ${chainId} and no RPC URL configured`);
+      }
+      this.register({
+        id: 'custom',
+        rpcUrl: overrides.rpcUrl,
+        fallbackRpcUrls: overrides.fallbackRpcUrls,
+        chainId,
+        networkName: overrides.networkName || `Chain ${chainId}`,
+        explorerUrl: overrides.explorerUrl,
+        explorerApiUrl: overrides.explorerApiUrl,
+        currencySymbol: overrides.currencySymbol || 'RBTC',
+        multicallAddress: overrides.multicallAddress,
+      });
+      this.activeId = 'custom';
+    }
+  }
+
+  /**
+   * Build the registry from ROOTSTOCK_NETWORK, ROOTSTOCK_NETWORKS and the single-network variables
+   */
+  static fromEnv(): NetworkRegistry {
+    return new NetworkRegistry({
+      network: process.env.ROOTSTOCK_NETWORK || undefined,
+      profiles: NetworkRegistry.readProfiles(process.env.ROOTSTOCK_NETWORKS),
+      overrides: {
+        rpcUrl: process.env.ROOTSTOCK_RPC_URL,
+        fallbackRpcUrls: process.env.ROOTSTOCK_FALLBACK_RPC_URLS
+          ? process.env.ROOTSTOCK_FALLBACK_RPC_URLS.split(',').map((url) => url.trim()).filter(Boolean)
+          : undefined,
+        chainId: process.env.ROOTSTOCK_CHAIN_ID ? parseInt(process.env.ROOTSTOCK_CHAIN_ID, 10) : undefined,
+        networkName: process.env.ROOTSTOCK_NETWORK_NAME,
+        explorerUrl: process.env.ROOTSTOCK_EXPLORER_URL,
+        explorerApiUrl: process.env.ROOTSTOCK_EXPLORER_API_URL,
+        currencySymbol: process.env.ROOTSTOCK_CURRENCY_SYMBOL,
+        multicallAddress: process.env.ROOTSTOCK_MULTICALL_ADDRESS,
+      },
+    });
+  }
+
+  /**
+   * Read custom profiles from inline JSON or a path to a JSON file
+   */
+  static readProfiles(source?: string): NetworkProfile[] {
+    const value = source?.trim();
+    if (!value) {
+      return [];
+    }
+
+    try {
+      const profiles = JSON.parse(value.startsWith('[') ? value : fs.readFileSync(value, 'utf8'));
+      if (!Array.isArray(profiles)) {
+        throw new Error('expected an array of profiles');
+      }
+      return profiles;
+    } catch (error) {
+      throw wrapError('read network profiles', error);
+    }
+  }
+
+  /**
+   * Add or replace a profile
+   */
+  register(profile: NetworkProfile): void {
+    if (!profile.id || !/^[a-z0-9-]+$/i.test(profile.id)) {
+      throw new Error(`Invalid network profile id: ${profile.id}`);
+    }
+    if (!Number.isInteger(profile.chainId) || profile.chainId <= 0) {
+      throw new Error(`Invalid chain ID for network ${profile.id}: ${profile.chainId}`);
+    }
+    for (const url of [profile.rpcUrl, ...(profile.fallbackRpcUrls || [])]) {
+      try {
+        new URL(url);
+      } catch {
+        throw new Error(`Invalid RPC URL for network ${profile.id}: ${url}`);
+      }
+    }
+
+    this.profiles.set(profile.id.toLowerCase(), { ...profile });
+  }
+
+  /**
+   * List all profiles
+   */
+  list(): NetworkProfile[] {
+    return Array.from(this.profiles.values());
+  }
+
+  /**
+   * Find a profile by id or chain ID
+   */
+  get(network: string | number): NetworkProfile {
+    const key = String(network).trim().toLowerCase();
+    const profile = this.profiles.get(key)
+      || this.list().find((entry) => String(entry.chainId) === key);
+
+    if (!profile) {
+      throw new Error(`Unknown network: ${network}. Available networks: ${this.list().map((entry) => entry.id).join(', ')}`);
+    }
+    return profile;
+  }
+
+  getActive(): NetworkProfile {
+    return this.get(this.activeId);
+  }
+
+  /**
+   * Make a profile the active one
+   */
+  setActive(network: string | number): NetworkProfile {
+    const profile = this.get(network);
+    this.activeId = profile.id;
+    return profile;
+  }
+}
+
+/**
+ * Convert a profile to the client configuration
+ */
+export function toRootstockConfig(profile: NetworkProfile): RootstockConfig {
+  return {
+    rpcUrl: profile.rpcUrl,
+    fallbackRpcUrls: profile.fallbackRpcUrls,
+    chainId: profile.chainId,
+    networkName: profile.networkName,
+    explorerUrl: profile.explorerUrl,
+    explorerApiUrl: profile.explorerApiUrl,
+    currencySymbol: profile.currencySymbol,
+    multicallAddress: profile.multicallAddress,
+  };
+}
+
+/**
+ * Writes and signatures on mainnet can move real funds, so they need an explicit confirmation flag
+ */
+export function assertMainnetConfirmed(
+  chainId: number | undefined,
+  confirmMainnet?: boolean,
+  subject = 'This transaction would be sent'
+): void {
+  if (chainId === MAINNET_CHAIN_ID && confirmMainnet !== true) {
+    throw new RootstockError(
+      'CONFIRMATION_REQUIRED',
+      `${subject} on Rootstock Mainnet. Repeat the call with confirmMainnet: true to proceed.`
+    );
+  }
+}
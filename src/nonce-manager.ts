@@ -0,0 +1,102 @@
+/**
+ * Nonce Manager
+ * Serializes sends per wallet and hands out nonces tracked locally
+ */
+
+import { ethers } from 'ethers';
+
+export interface NonceManagerOptions {
+  /** Resync attempts after the node rejects a nonce */
+  maxNonceRetries?: number;
+}
+
+const NONCE_ERROR_CODES = new Set(['NONCE_EXPIRED', 'REPLACEMENT_UNDERPRICED']);
+
+// "Already known" is not one: it means this exact transaction is pending, which the RPC pool reports as sent
+const NONCE_ERROR = /nonce too low|nonce is too low|replacement transaction underpriced/i;
+
+/**
+ * Whether a broadcast failed because another transaction already uses its nonce
+ */
+export function isNonceError(error: unknown): boolean {
+  const code = (error as { code?: string })?.code;
+  const message = error instanceof Error ? error.message : String(error);
+  return (code !== undefined && NONCE_ERROR_CODES.has(code)) || NONCE_ERROR.test(message);
+}
+
+export class NonceManager {
+  private nextNonces: Map<string, number> = new Map();
+  private queues: Map<string, Promise<unknown>> = new Map();
+  private maxNonceRetries: number;
+
+  constructor(options: NonceManagerOptions = {}) {
+    this.maxNonceRetries = options.maxNonceRetries ?? 3;
+  }
+
+  /**
+   * Run a broadcast with the next nonce for the address. Broadcasts from the same address
+   * run one at a time, so concurrent sends get consecutive nonces instead of racing.
+   * Only signing and broadcasting are queued; waiting for receipts is left to the caller.
+   */
+  async send<T>(address: string, provider: ethers.Provider, broadcast: (nonce: number) => Promise<T>): Promise<T> {
+    const key = address.toLowerCase();
+    const previous = this.queues.get(key) || Promise.resolve();
+    const run = previous.then(() => this.sendNext(key, address, provider, broadcast));
+    const tail = run.catch(() => undefined);
+    this.queues.set(key, tail);
+
+    try {
+      return await run;
+    } finally {
+      if (this.queues.get(key) === tail) {
+        this.queues.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Next nonce the manager would use for an address, if it has sent from it
+   */
+  getNextNonce(address: string): number | undefined {
+    return this.nextNonces.get(address.toLowerCase());
+  }
+
+  /**
+   * Forget tracked nonces, e.g. after switching networks
+   */
+  reset(address?: string): void {
+    if (address) {
+      this.nextNonces.delete(address.toLowerCase());
+    } else {
+      this.nextNonces.clear();
+    }
+  }
+
+  private async sendNext<T>(
+    key: string,
+    address: string,
+    provider: ethers.Provider,
+    broadcast: (nonce: number) => Promise<T>
+  ): Promise<T> {
+    // Transactions sent outside this server show up in the node's pending count
+    const pending = await provider.getTransactionCount(address, 'pending');
+    let nonce = Math.max(pending, this.nextNonces.get(key) ?? 0);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await broadcast(nonce);
+        this.nextNonces.set(key, nonce + 1);
+        return result;
+      } catch (error) {
+        if (!isNonceError(error) || attempt >= this.maxNonceRetries) {
+          // The nonce was not consumed, so the next send reuses it
+          this.nextNonces.set(key, nonce);
+          throw error;
+        }
+
+        const resynced = await provider.getTransactionCount(address, 'pending');
+        nonce = Math.max(resynced, nonce + 1);
+      }
+    }
+  }
+}
@@ -3,11 +3,13 @@
  * Handles all blockchain interactions and API calls
  */
 
+import path from 'path';
 import axios, { AxiosInstance } from 'axios';
 import { ethers } from 'ethers';
 import {
   RootstockConfig,
   TransactionResponse,
+  TransactionDetails,
   BlockInfo,
   NetworkInfo,
   ContractCallResponse,
@@ -17,29 +19,260 @@ import {
   TokenInfoResponse,
   ERC721DeploymentResponse,
   NFTInfoResponse,
+  SignatureVerification,
+  TransactionStatus,
+  TransactionReplacement,
+  TransactionHistory,
+  LogQueryResult,
+  GetLogsParams,
+  SimulatedAction,
+  SimulationResult,
+  WaitOptions,
+  SendOptions,
+  GasSpeed,
+  BuildTransactionParams,
+  PreparedTransaction,
+  UnsignedTransaction,
+  SignedTransaction,
+  Portfolio,
+  PortfolioEntry,
+  MulticallDeployment,
 } from './types.js';
 import erc721Contracts from './erc721-contracts-rootstock.json' with { type: 'json' };
+import { WalletSigner } from './signer.js';
+import {
+  EIP1271_ABI,
+  EIP1271_MAGIC_VALUE,
+  TypedDataPayload,
+  getPermitType,
+  recoverSigner,
+  signTypedData,
+} from './signatures.js';
+import { SpendingPolicy, SpendRequest, decodeTokenCall } from './spending-policy.js';
+import { EndpointHealth, FailoverProvider, RpcPoolOptions } from './rpc-pool.js';
+import { NonceManager } from './nonce-manager.js';
+import { TransactionTracker } from './transaction-tracker.js';
+import { GasPriceOracle, GasPriceQuote } from './gas-price.js';
+import { EventLogReader } from './event-logs.js';
+import { ERC20_ABI } from './erc20-contracts.js';
+import { Multicall, MulticallCall, MULTICALL3_ABI, MULTICALL3_BYTECODE, decodeCallResult } from './multicall.js';
+import { CacheLifetime, ChainCache, ChainCacheOptions } from './cache.js';
+import { RootstockError, wrapError } from './errors.js';
+import { coerceAbiValues, formatAbiValues, parseFunctionSignature } from './abi-values.js';
+import {
+  decodeCalldata,
+  decodeReceiptLogs,
+  describeRevert,
+  getKnownInterfaces,
+  replayTransaction,
+} from './transaction-decoder.js';
+import {
+  BlockScanSource,
+  ExplorerApiSource,
+  HistoryOptions,
+  HistoryQuery,
+  TransactionHistoryIndex,
+} from './transaction-history.js';
+
+// Rootstock nodes only accept a transaction with a used nonce if its gas price is at least 40% higher
+export const REPLACEMENT_GAS_PRICE_BUMP = 40n;
+
+interface TokenMetadata {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+interface TokenRead {
+  method: string;
+  args?: unknown[];
+  /** Report null instead of failing when the token does not implement the method */
+  optional?: boolean;
+}
 
 export class RootstockClient {
-  private provider: ethers.JsonRpcProvider | null = null;
+  private provider: FailoverProvider | null = null;
   private httpClient: AxiosInstance | null = null;
   private config: RootstockConfig;
-
-  constructor(config: RootstockConfig) {
+  private spendingPolicy?: SpendingPolicy;
+  private poolOptions: RpcPoolOptions;
+  private historyOptions: HistoryOptions;
+  private history: TransactionHistoryIndex | null = null;
+  private nonceManager: NonceManager = new NonceManager();
+  private tracker: TransactionTracker = new TransactionTracker();
+  private gasPrices: GasPriceOracle;
+  private logReader: EventLogReader = new EventLogReader();
+  private multicall: Multicall | null = null;
+  private cache: ChainCache;
+
+  constructor(
+    config: RootstockConfig,
+    spendingPolicy?: SpendingPolicy,
+    poolOptions: RpcPoolOptions = {},
+    historyOptions: HistoryOptions = {},
+    cacheOptions: ChainCacheOptions = {}
+  ) {
     this.config = config;
+    this.spendingPolicy = spendingPolicy;
+    this.poolOptions = poolOptions;
+    this.historyOptions = historyOptions;
+    this.cache = new ChainCache(cacheOptions);
+    this.gasPrices = new GasPriceOracle({ cache: this.cache, cacheKey: this.cacheKey('gas-quote') });
     // Defer provider and httpClient creation until actually needed
   }
 
-  private getProvider(): ethers.JsonRpcProvider {
+  private getProvider(): FailoverProvider {
     if (!this.provider) {
-      this.provider = new ethers.JsonRpcProvider(this.config.rpcUrl, undefined, {
-        staticNetwork: true,
-        batchMaxCount: 1,
-      });
+      this.provider = new FailoverProvider(
+        [this.config.rpcUrl, ...(this.config.fallbackRpcUrls || [])],
+        this.poolOptions
+      );
     }
     return this.provider;
   }
 
+  /**
+   * Cache keys are scoped to the network, since the same address or block number means something else elsewhere
+   */
+  private cacheKey(...parts: Array<string | number>): string {
+    return [this.config.chainId ?? this.config.rpcUrl, ...parts].join(':');
+  }
+
+  /**
+   * Lifetime of data from a block: final once the block is deep enough, until then only briefly cached
+   */
+  private async getBlockLifetime(blockNumber: number): Promise<CacheLifetime> {
+    const head = await this.cache.getOrLoad(this.cacheKey('head'), () => this.getProvider().getBlockNumber(), 'latest');
+    return this.cache.getBlockLifetime(blockNumber, head);
+  }
+
+  private getMulticall(): Multicall {
+    if (!this.multicall) {
+      this.multicall = new Multicall({ address: this.config.multicallAddress });
+    }
+    return this.multicall;
+  }
+
+  /**
+   * Broadcast under the spending policy: the request is checked and reserved before signing
+   * and only counts toward the daily totals once it has been sent.
+   * The broadcast is queued behind other sends from the same wallet and given its nonce.
+   */
+  private async authorize<T>(request: SpendRequest, broadcast: (nonce: number) => Promise<T>): Promise<T> {
+    const send = () => this.nonceManager.send(request.from, this.getProvider(), broadcast);
+    if (!this.spendingPolicy) {
+      return send();
+    }
+
+    const reservation = this.spendingPolicy.reserve(request);
+    try {
+      const result = await send();
+      this.spendingPolicy.commit(reservation);
+      return result;
+    } catch (error) {
+      this.spendingPolicy.release(reservation);
+      throw error;
+    }
+  }
+
+  /**
+   * Wait for a broadcast transaction unless the caller asked not to; null means it was not waited for.
+   * A transaction mined as failed is replayed to report why it reverted
+   */
+  private async waitForReceipt(
+    tx: ethers.TransactionResponse,
+    options: WaitOptions,
+    abi?: Array<string | object>
+  ): Promise<ethers.TransactionReceipt | null> {
+    this.tracker.record(tx);
+    if (options.wait === false) {
+      return null;
+    }
+
+    try {
+      return await tx.wait(options.confirmations ?? 1);
+    } catch (error) {
+      const receipt = ethers.isError(error, 'CALL_EXCEPTION') ? error.receipt : undefined;
+      if (!receipt) {
+        throw error;
+      }
+      const revert = await replayTransaction(this.getProvider(), tx, receipt.blockNumber, getKnownInterfaces(abi));
+      throw new RootstockError(
+        'REVERTED',
+        `Transaction ${tx.hash} reverted in block ${receipt.blockNumber}${revert ? `: ${revert.reason}` : ''}`,
+        { cause: error }
+      );
+    }
+  }
+
+  /**
+   * Wrap a failure with what was being done, decoding the revert reason when a call or transaction reverted
+   */
+  private explainError(action: string, error: unknown, abi?: Array<string | object>): RootstockError {
+    const revert = describeRevert(error, getKnownInterfaces(abi));
+    return revert
+      ? new RootstockError('REVERTED', `execution reverted: ${revert.reason}`, { action, cause: error })
+      : wrapError(action, error);
+  }
+
+  /**
+   * Add the token amount and payee of an ERC20 transfer, transferFrom or approve to a spending request,
+   * so raw contract calls are held to the same token limits and recipient allowlist as send_transaction
+   */
+  private async withTokenSpend(spend: SpendRequest, data: string): Promise<SpendRequest> {
+    const call = decodeTokenCall(data);
+    if (!this.spendingPolicy || !call || !spend.to) {
+      return spend;
+    }
+
+    try {
+      const { metadata } = await this.readToken(spend.to, []);
+      return { ...spend, payee: call.payee, token: { address: spend.to, amount: call.amount, decimals: metadata.decimals } };
+    } catch (error) {
+      // ERC721 transferFrom and approve share these selectors; only ERC20 tokens have decimals
+      if (error instanceof RootstockError && error.code === 'INVALID_PARAMS') {
+        return { ...spend, payee: call.payee };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Spending request for a raw transaction, with the method and any ERC20 token amount decoded from its data
+   */
+  private async getRawSpend(from: string, tx: { to: string | null; value: bigint; data: string }): Promise<SpendRequest> {
+    const spend: SpendRequest = { from, to: tx.to ?? undefined, value: tx.value };
+    if (!tx.to) {
+      spend.method = { name: 'deploy' };
+    } else if (ethers.dataLength(tx.data) >= 4) {
+      const call = decodeCalldata(tx.data, getKnownInterfaces());
+      const selector = ethers.dataSlice(tx.data, 0, 4);
+      spend.method = call ? { name: call.name, signature: call.signature, selector } : { name: selector, selector };
+    }
+    return this.withTokenSpend(spend, tx.data);
+  }
+
+  /**
+   * History comes from the network's explorer API when configured, otherwise from scanning blocks
+   */
+  private getHistoryIndex(): TransactionHistoryIndex {
+    if (!this.history) {
+      const source = this.config.explorerApiUrl
+        ? new ExplorerApiSource(this.config.explorerApiUrl)
+        : new BlockScanSource(this.getProvider(), this.historyOptions.maxBlocksPerSync);
+      const file = this.historyOptions.directory
+        ? path.join(this.historyOptions.directory, `${this.config.chainId ?? 'unknown'}.json`)
+        : null;
+      this.history = new TransactionHistoryIndex(
+        source,
+        file,
+        this.historyOptions.startBlock,
+        this.historyOptions.finalityDepth
+      );
+    }
+    return this.history;
+  }
+
   private getHttpClient(): AxiosInstance {
     if (!this.httpClient) {
       this.httpClient = axios.create({
@@ -55,6 +288,26 @@ export class RootstockClient {
     return this.httpClient;
   }
 
+  /**
+   * Point the client at another network; connections are recreated on next use
+   */
+  switchNetwork(config: RootstockConfig): void {
+    this.provider?.destroy();
+    this.provider = null;
+    this.httpClient = null;
+    this.history = null;
+    this.multicall = null;
+    this.nonceManager.reset();
+    this.config = config;
+  }
+
+  /**
+   * Probe every configured RPC endpoint for latency and block height
+   */
+  async getRpcHealth(): Promise<EndpointHealth[]> {
+    return this.getProvider().checkHealth();
+  }
+
   /**
    * Get the native currency symbol
    */
@@ -62,6 +315,13 @@ export class RootstockClient {
     return this.config.currencySymbol || 'ETH';
   }
 
+  /**
+   * Get the configured chain ID
+   */
+  getChainId(): number | undefined {
+    return this.config.chainId;
+  }
+
   /**
    * Get the block explorer URL
    */
@@ -77,7 +337,7 @@ export class RootstockClient {
       const balance = await this.getProvider().getBalance(address);
       return ethers.formatEther(balance);
     } catch (error) {
-      throw new Error(`Failed to get balance: ${error}`);
+      throw wrapError('get balance', error);
     }
   }
 
@@ -86,33 +346,159 @@ export class RootstockClient {
    */
   async getTokenBalance(address: string, tokenAddress: string): Promise<TokenBalance> {
     try {
-      const tokenContract = new ethers.Contract(
+      const { metadata, values: [balance] } = await this.readToken(tokenAddress, [{ method: 'balanceOf', args: [address] }]);
+
+      return {
         tokenAddress,
-        [
-          'function balanceOf(address) view returns (uint256)',
-          'function decimals() view returns (uint8)',
-          'function symbol() view returns (string)',
-          'function name() view returns (string)',
-        ],
-        this.getProvider()
+        balance: ethers.formatUnits(balance as bigint, metadata.decimals),
+        ...metadata,
+      };
+    } catch (error) {
+      throw wrapError('get token balance', error);
+    }
+  }
+
+  /**
+   * Read from a token in one batch, together with its name, symbol and decimals unless they are cached.
+   * Token metadata never changes, so it is cached as final
+   */
+  private async readToken(tokenAddress: string, reads: TokenRead[]): Promise<{ metadata: TokenMetadata; values: unknown[] }> {
+    const token = new ethers.Interface(this.getMintableERC20ABI());
+    const key = this.cacheKey('token', tokenAddress.toLowerCase());
+    const cached = this.cache.get<TokenMetadata>(key);
+    const calls: TokenRead[] = [
+      ...reads,
+      ...(cached ? [] : [{ method: 'name' }, { method: 'symbol' }, { method: 'decimals' }]),
+    ];
+
+    const { results } = calls.length === 0 ? { results: [] } : await this.getMulticall().aggregate(
+      this.getProvider(),
+      calls.map((call) => ({ target: tokenAddress, callData: token.encodeFunctionData(call.method, call.args || []) }))
+    );
+    const values = calls.map((call, index) => {
+      const decoded = decodeCallResult(token, call.method, results[index]);
+      if (!decoded && !call.optional) {
+        throw new RootstockError('INVALID_PARAMS', `${tokenAddress} did not answer ${call.method}(); it may not be an ERC20 token`);
+      }
+      return decoded ? decoded[0] : null;
+    });
+
+    let metadata = cached;
+    if (!metadata) {
+      const [name, symbol, decimals] = values.slice(reads.length);
+      metadata = { name: String(name), symbol: String(symbol), decimals: Number(decimals) };
+      this.cache.set(key, metadata, 'final');
+    }
+    return { metadata, values: values.slice(0, reads.length) };
+  }
+
+  /**
+   * Read the native balance and ERC20 balances of many addresses at one block, batched through Multicall3
+   * into a single eth_call where it is deployed. A token that cannot be read is reported per entry
+   */
+  async getPortfolio(addresses: string[], tokenAddresses: string[] = []): Promise<Portfolio> {
+    try {
+      const multicall = this.getMulticall();
+      const token = new ethers.Interface(ERC20_ABI);
+      const owners = addresses.map((address) => ethers.getAddress(address));
+      const tokens = Array.from(new Set(tokenAddresses.map((address) => ethers.getAddress(address))));
+
+      const calls: MulticallCall[] = [
+        ...owners.map((owner) => multicall.getEthBalanceCall(owner)),
+        ...tokens.flatMap((tokenAddress) => ['decimals', 'symbol'].map((method) => ({
+          target: tokenAddress,
+          callData: token.encodeFunctionData(method),
+        }))),
+        ...owners.flatMap((owner) => tokens.map((tokenAddress) => ({
+          target: tokenAddress,
+          callData: token.encodeFunctionData('balanceOf', [owner]),
+        }))),
+      ];
+      const { blockNumber, results, batched } = await multicall.aggregate(this.getProvider(), calls);
+
+      const tokenInfo = tokens.map((tokenAddress, index) => {
+        const decimals = decodeCallResult(token, 'decimals', results[owners.length + index * 2]);
+        const symbol = decodeCallResult(token, 'symbol', results[owners.length + index * 2 + 1]);
+        return {
+          tokenAddress,
+          decimals: decimals ? Number(decimals[0]) : undefined,
+          symbol: symbol ? String(symbol[0]) : undefined,
+        };
+      });
+      const balancesStart = owners.length + tokens.length * 2;
+
+      const entries: PortfolioEntry[] = owners.map((owner, ownerIndex) => {
+        const native = decodeCallResult(multicall.contractInterface, 'getEthBalance', results[ownerIndex]);
+        return {
+          address: owner,
+          ...(native ? { nativeBalance: ethers.formatEther(native[0]) } : { nativeError: 'getEthBalance() failed' }),
+          tokens: tokenInfo.map((info, tokenIndex) => {
+            const balance = decodeCallResult(token, 'balanceOf', results[balancesStart + ownerIndex * tokens.length + tokenIndex]);
+            if (!balance) {
+              return { ...info, error: 'balanceOf() failed; it may not be an ERC20 token' };
+            }
+            return {
+              ...info,
+              balance: info.decimals !== undefined ? ethers.formatUnits(balance[0], info.decimals) : balance[0].toString(),
+            };
+          }),
+        };
+      });
+
+      return { blockNumber, batched, entries };
+    } catch (error) {
+      throw wrapError('get portfolio', error);
+    }
+  }
+
+  /**
+   * Deploy Multicall3 on a network that has none at the configured address, and use it from then on
+   */
+  async deployMulticall(
+    wallet: WalletSigner,
+    gasLimit?: string,
+    gasPrice?: string,
+    options: SendOptions = {}
+  ): Promise<MulticallDeployment> {
+    try {
+      const provider = this.getProvider();
+      const multicall = this.getMulticall();
+      if (await multicall.isAvailable(provider)) {
+        return { contractAddress: multicall.address, alreadyDeployed: true };
+      }
+
+      const resolvedGasPrice = await this.gasPrices.resolve(provider, gasPrice, options.gasSpeed);
+      const contractFactory = new ethers.ContractFactory(MULTICALL3_ABI, MULTICALL3_BYTECODE, wallet.connect(provider));
+      const contract = await this.authorize(
+        { from: wallet.address, method: { name: 'deploy' } },
+        (nonce) => contractFactory.deploy({
+          gasLimit: gasLimit ? BigInt(gasLimit) : undefined,
+          gasPrice: resolvedGasPrice,
+          nonce,
+        })
       );
 
-      const [balance, decimals, symbol, name] = await Promise.all([
-        tokenContract.balanceOf(address),
-        tokenContract.decimals(),
-        tokenContract.symbol(),
-        tokenContract.name(),
-      ]);
+      const deployment = contract.deploymentTransaction();
+      if (!deployment) {
+        throw new Error('Deployment transaction was not sent');
+      }
+      const contractAddress = await contract.getAddress();
+      // Reads switch to the new contract once its code shows up, without waiting here
+      this.config = { ...this.config, multicallAddress: contractAddress };
+      this.multicall = null;
 
+      const receipt = await this.waitForReceipt(deployment, options);
       return {
-        tokenAddress,
-        balance: ethers.formatUnits(balance, decimals),
-        decimals,
-        symbol,
-        name,
+        contractAddress,
+        alreadyDeployed: false,
+        transactionHash: deployment.hash,
+        deployer: wallet.address,
+        gasUsed: receipt?.gasUsed.toString(),
+        blockNumber: receipt?.blockNumber,
+        status: receipt ? (receipt.status === 1 ? 'confirmed' : 'failed') : 'pending',
       };
     } catch (error) {
-      throw new Error(`Failed to get token balance: ${error}`);
+      throw this.explainError('deploy Multicall3', error);
     }
   }
 
@@ -120,24 +506,29 @@ export class RootstockClient {
    * Send native token transaction
    */
   async sendTransaction(
-    wallet: ethers.Wallet | ethers.HDNodeWallet,
+    wallet: WalletSigner,
     to: string,
     amount: string,
     gasLimit?: string,
-    gasPrice?: string
+    gasPrice?: string,
+    options: SendOptions = {}
   ): Promise<TransactionResponse> {
     try {
       const connectedWallet = wallet.connect(this.getProvider());
+      const resolvedGasPrice = await this.gasPrices.resolve(this.getProvider(), gasPrice, options.gasSpeed);
       
       const tx: ethers.TransactionRequest = {
         to,
         value: ethers.parseEther(amount),
         gasLimit: gasLimit ? BigInt(gasLimit) : undefined,
-        gasPrice: gasPrice ? BigInt(gasPrice) : undefined,
+        gasPrice: resolvedGasPrice,
       };
 
-      const transaction = await connectedWallet.sendTransaction(tx);
-      const receipt = await transaction.wait();
+      const transaction = await this.authorize(
+        { from: wallet.address, to, value: tx.value as bigint },
+        (nonce) => connectedWallet.sendTransaction({ ...tx, nonce })
+      );
+      const receipt = await this.waitForReceipt(transaction, options);
 
       return {
         hash: transaction.hash,
@@ -148,10 +539,95 @@ export class RootstockClient {
         gasPrice: transaction.gasPrice?.toString(),
         blockNumber: receipt?.blockNumber,
         blockHash: receipt?.blockHash,
-        status: receipt?.status === 1 ? 'confirmed' : 'failed',
+        status: receipt ? (receipt.status === 1 ? 'confirmed' : 'failed') : 'pending',
       };
     } catch (error) {
-      throw new Error(`Failed to send transaction: ${error}`);
+      throw this.explainError('send transaction', error);
+    }
+  }
+
+  /**
+   * Resend a pending transaction with the same nonce and a higher gas price.
+   * Speeding up keeps the transaction as it is; cancelling replaces it with a 0-value transfer to self.
+   */
+  async replaceTransaction(
+    wallet: WalletSigner,
+    hash: string,
+    action: 'speed_up' | 'cancel',
+    gasPrice?: string,
+    options: SendOptions = {}
+  ): Promise<TransactionReplacement> {
+    try {
+      const provider = this.getProvider();
+      const original = await provider.getTransaction(hash);
+      if (!original) {
+        throw new RootstockError('NOT_FOUND', 'Transaction not found; it may have been dropped');
+      }
+      if (original.blockNumber !== null) {
+        throw new Error(`Transaction was already mined in block ${original.blockNumber}`);
+      }
+      if (original.from.toLowerCase() !== wallet.address.toLowerCase()) {
+        throw new Error(`Transaction was sent from ${original.from}, not ${wallet.address}`);
+      }
+
+      // Rootstock has no EIP-1559, so the replacement competes on the legacy gas price
+      const previousGasPrice = original.gasPrice;
+      const minimumReplacementPrice = (previousGasPrice * (100n + REPLACEMENT_GAS_PRICE_BUMP) + 99n) / 100n;
+      const price = await this.gasPrices.resolve(provider, gasPrice, options.gasSpeed);
+      if (gasPrice && price < minimumReplacementPrice) {
+        throw new RootstockError('REPLACEMENT_UNDERPRICED', `Gas price must be at least ${minimumReplacementPrice} wei to replace the transaction`);
+      }
+      const newGasPrice = price > minimumReplacementPrice ? price : minimumReplacementPrice;
+
+      const request: ethers.TransactionRequest = action === 'cancel'
+        ? { to: wallet.address, value: 0n, data: '0x', gasLimit: 21000n }
+        : { to: original.to, value: original.value, data: original.data, gasLimit: original.gasLimit };
+
+      // The original may not have passed the spending policy (broadcast_raw_transaction, or sent
+      // elsewhere with the same key), so resending it is checked; only one of the two can be mined,
+      // so it is not counted again. A cancel moves no funds and needs no check
+      if (action === 'speed_up') {
+        this.spendingPolicy?.check(await this.getRawSpend(wallet.address, original));
+      }
+      const connectedWallet = wallet.connect(provider);
+      const replacement = await connectedWallet.sendTransaction({
+        ...request,
+        nonce: original.nonce,
+        gasPrice: newGasPrice,
+        type: 0,
+        chainId: original.chainId,
+      });
+
+      const result: TransactionReplacement = {
+        action,
+        originalHash: original.hash,
+        replacementHash: replacement.hash,
+        from: original.from,
+        nonce: original.nonce,
+        previousGasPrice: previousGasPrice.toString(),
+        gasPrice: newGasPrice.toString(),
+        status: 'pending',
+      };
+
+      let receipt: ethers.TransactionReceipt | null;
+      try {
+        receipt = await this.waitForReceipt(replacement, options);
+      } catch (error) {
+        // The original (or another transaction with the same nonce) got mined first
+        if (!ethers.isError(error, 'TRANSACTION_REPLACED')) {
+          throw error;
+        }
+        receipt = error.receipt;
+      }
+
+      if (receipt) {
+        result.minedHash = receipt.hash;
+        result.blockNumber = receipt.blockNumber;
+        result.status = receipt.status === 1 ? 'confirmed' : 'failed';
+      }
+      return result;
+    } catch (error) {
+      throw this.explainError(`${action === 'cancel' ? 'cancel' : 'speed up'} transaction`, error);
     }
   }
 
@@ -159,15 +635,17 @@ export class RootstockClient {
    * Send ERC20 token transaction
    */
   async sendTokenTransaction(
-    wallet: ethers.Wallet | ethers.HDNodeWallet,
+    wallet: WalletSigner,
     tokenAddress: string,
     to: string,
     amount: string,
     gasLimit?: string,
-    gasPrice?: string
+    gasPrice?: string,
+    options: SendOptions = {}
   ): Promise<TransactionResponse> {
     try {
       const connectedWallet = wallet.connect(this.getProvider());
+      const resolvedGasPrice = await this.gasPrices.resolve(this.getProvider(), gasPrice, options.gasSpeed);
       
       const tokenContract = new ethers.Contract(
         tokenAddress,
@@ -181,12 +659,16 @@ export class RootstockClient {
       const decimals = await tokenContract.decimals();
       const parsedAmount = ethers.parseUnits(amount, decimals);
 
-      const tx = await tokenContract.transfer(to, parsedAmount, {
-        gasLimit: gasLimit ? BigInt(gasLimit) : undefined,
-        gasPrice: gasPrice ? BigInt(gasPrice) : undefined,
-      });
+      const tx = await this.authorize(
+        { from: wallet.address, to, token: { address: tokenAddress, amount: parsedAmount, decimals: Number(decimals) } },
+        (nonce) => tokenContract.transfer(to, parsedAmount, {
+          gasLimit: gasLimit ? BigInt(gasLimit) : undefined,
+          gasPrice: resolvedGasPrice,
+          nonce,
+        })
+      );
 
-      const receipt = await tx.wait();
+      const receipt = await this.waitForReceipt(tx, options);
 
       return {
         hash: tx.hash,
@@ -197,40 +679,263 @@ export class RootstockClient {
         gasPrice: tx.gasPrice?.toString(),
         blockNumber: receipt?.blockNumber,
         blockHash: receipt?.blockHash,
-        status: receipt?.status === 1 ? 'confirmed' : 'failed',
+        status: receipt ? (receipt.status === 1 ? 'confirmed' : 'failed') : 'pending',
       };
     } catch (error) {
-      throw new Error(`Failed to send token transaction: ${error}`);
+      throw this.explainError('send token transaction', error);
     }
   }
 
   /**
-   * Get transaction details
+   * Build an unsigned transaction with the nonce, gas limit, gas price and chain ID filled in.
+   * Nothing is signed or reserved, so building twice before broadcasting yields the same nonce
    */
-  async getTransaction(hash: string): Promise<TransactionResponse> {
+  async buildTransaction(from: string, params: Omit<BuildTransactionParams, 'from'>): Promise<UnsignedTransaction> {
     try {
-      const [tx, receipt] = await Promise.all([
-        this.getProvider().getTransaction(hash),
-        this.getProvider().getTransactionReceipt(hash),
+      const provider = this.getProvider();
+      const to = params.to ? ethers.getAddress(params.to) : undefined;
+      const value = params.value ? ethers.parseEther(params.value) : 0n;
+      const data = params.data ? ethers.hexlify(params.data) : '0x';
+      if (!to && data === '0x') {
+        throw new Error('A transaction without a recipient must carry contract creation code in data');
+      }
+
+      const [network, gasPrice, nonce, gasLimit] = await Promise.all([
+        provider.getNetwork(),
+        this.gasPrices.resolve(provider, params.gasPrice, params.gasSpeed),
+        params.nonce ?? this.getPendingNonce(from),
+        params.gasLimit ? BigInt(params.gasLimit) : provider.estimateGas({ from, to, value, data }),
       ]);
 
-      if (!tx) {
-        throw new Error('Transaction not found');
+      // Rootstock has no EIP-1559, so transactions are legacy with EIP-155 replay protection
+      const tx = ethers.Transaction.from({ type: 0, to, value, data, nonce, gasLimit, gasPrice, chainId: network.chainId });
+      return {
+        ...this.describePreparedTransaction(tx, from),
+        unsignedTransaction: tx.unsignedSerialized,
+      };
+    } catch (error) {
+      throw this.explainError('build transaction', error);
+    }
+  }
+
+  /**
+   * Sign a transaction built by buildTransaction (or elsewhere) without broadcasting it.
+   * The spending policy applies as for any other transaction, and counts it once signed
+   */
+  async signTransaction(wallet: WalletSigner, unsignedTransaction: string): Promise<SignedTransaction> {
+    try {
+      const tx = this.parseRawTransaction(unsignedTransaction);
+      if (tx.isSigned()) {
+        throw new Error('Transaction is already signed');
+      }
+      await this.assertChainId(tx.chainId);
+
+      const policy = this.spendingPolicy;
+      const reservation = policy?.reserve(await this.getRawSpend(wallet.address, tx));
+      let signedTransaction: string;
+      try {
+        signedTransaction = await wallet.connect(this.getProvider()).signTransaction({
+          type: 0,
+          to: tx.to,
+          value: tx.value,
+          data: tx.data,
+          nonce: tx.nonce,
+          gasLimit: tx.gasLimit,
+          gasPrice: tx.gasPrice,
+          chainId: tx.chainId,
+        });
+      } catch (error) {
+        if (reservation) {
+          policy?.release(reservation);
+        }
+        throw error;
+      }
+      if (reservation) {
+        policy?.commit(reservation);
       }
 
       return {
-        hash: tx.hash,
-        from: tx.from,
-        to: tx.to || '',
-        value: ethers.formatEther(tx.value),
+        ...this.describePreparedTransaction(ethers.Transaction.from(signedTransaction), wallet.address),
+        signedTransaction,
+        hash: ethers.keccak256(signedTransaction),
+      };
+    } catch (error) {
+      throw this.explainError('sign transaction', error);
+    }
+  }
+
+  /**
+   * Broadcast a signed transaction as is, whoever signed it
+   */
+  async broadcastRawTransaction(signedTransaction: string, options: WaitOptions = {}): Promise<TransactionResponse> {
+    try {
+      const signed = this.parseRawTransaction(signedTransaction);
+      if (!signed.isSigned()) {
+        throw new Error('Transaction is not signed');
+      }
+      await this.assertChainId(signed.chainId);
+
+      const transaction = await this.getProvider().broadcastTransaction(signed.serialized);
+      const receipt = await this.waitForReceipt(transaction, options);
+
+      return {
+        hash: transaction.hash,
+        from: transaction.from,
+        to: transaction.to ?? '',
+        value: ethers.formatEther(transaction.value),
         gasUsed: receipt?.gasUsed.toString(),
-        gasPrice: tx.gasPrice?.toString(),
+        gasPrice: transaction.gasPrice?.toString(),
         blockNumber: receipt?.blockNumber,
         blockHash: receipt?.blockHash,
         status: receipt ? (receipt.status === 1 ? 'confirmed' : 'failed') : 'pending',
       };
     } catch (error) {
-      throw new Error(`Failed to get transaction: ${error}`);
+      throw this.explainError('broadcast transaction', error);
+    }
+  }
+
+  private parseRawTransaction(raw: string): ethers.Transaction {
+    let tx: ethers.Transaction;
+    try {
+      tx = ethers.Transaction.from(raw);
+    } catch (error) {
+      throw new RootstockError('INVALID_PARAMS', `Invalid serialized transaction: ${error instanceof Error ? error.message : error}`);
+    }
+    if (tx.type !== 0) {
+      throw new RootstockError('INVALID_PARAMS', `Unsupported transaction type ${tx.type}; Rootstock only accepts legacy (type 0) transactions`);
+    }
+    return tx;
+  }
+
+  private async assertChainId(chainId: bigint): Promise<void> {
+    const network = await this.getProvider().getNetwork();
+    if (chainId !== network.chainId) {
+      throw new RootstockError('INVALID_PARAMS', `Transaction is for chain ${chainId}, but the connected network is chain ${network.chainId}`);
+    }
+  }
+
+  private describePreparedTransaction(tx: ethers.Transaction, from: string): PreparedTransaction {
+    return {
+      from,
+      to: tx.to ?? undefined,
+      value: ethers.formatEther(tx.value),
+      data: tx.data,
+      nonce: tx.nonce,
+      gasLimit: tx.gasLimit.toString(),
+      gasPrice: (tx.gasPrice ?? 0n).toString(),
+      chainId: Number(tx.chainId),
+    };
+  }
+
+  /**
+   * Next nonce for an address: the node's pending count, or further along if this server sent past it
+   */
+  private async getPendingNonce(address: string): Promise<number> {
+    return Math.max(
+      this.nonceManager.getNextNonce(address) ?? 0,
+      await this.getProvider().getTransactionCount(address, 'pending')
+    );
+  }
+
+  /**
+   * Get transaction details
+   */
+  async getTransaction(hash: string, abi?: Array<string | object>): Promise<TransactionDetails> {
+    try {
+      // The decoded output depends on the ABI, so each ABI gets its own entry
+      const key = this.cacheKey('tx', hash.toLowerCase(), abi ? ethers.id(JSON.stringify(abi)) : 'known');
+      return await this.cache.getOrLoad(
+        key,
+        () => this.loadTransaction(hash, abi),
+        (details) => (details.blockNumber === undefined ? 'none' : this.getBlockLifetime(details.blockNumber))
+      );
+    } catch (error) {
+      throw wrapError('get transaction', error);
+    }
+  }
+
+  private async loadTransaction(hash: string, abi?: Array<string | object>): Promise<TransactionDetails> {
+    const provider = this.getProvider();
+    const [tx, receipt] = await Promise.all([
+      provider.getTransaction(hash),
+      provider.getTransactionReceipt(hash),
+    ]);
+
+    if (!tx) {
+      throw new RootstockError('NOT_FOUND', 'Transaction not found');
+    }
+
+    const block = receipt ? await this.getBlock(receipt.blockNumber) : null;
+    const interfaces = getKnownInterfaces(abi);
+    const revert = receipt?.status === 0
+      ? await replayTransaction(provider, tx, receipt.blockNumber, interfaces)
+      : undefined;
+
+    return {
+      hash: tx.hash,
+      from: tx.from,
+      to: tx.to || '',
+      value: ethers.formatEther(tx.value),
+      gasUsed: receipt?.gasUsed.toString(),
+      gasPrice: tx.gasPrice?.toString(),
+      blockNumber: receipt?.blockNumber,
+      blockHash: receipt?.blockHash,
+      timestamp: block?.timestamp,
+      status: receipt ? (receipt.status === 1 ? 'confirmed' : 'failed') : 'pending',
+      nonce: tx.nonce,
+      gasLimit: tx.gasLimit.toString(),
+      data: tx.data,
+      contractAddress: receipt?.contractAddress ?? undefined,
+      // Deployment input is init code, not a function call
+      decodedInput: tx.to ? decodeCalldata(tx.data, interfaces) : undefined,
+      logs: receipt ? decodeReceiptLogs(receipt.logs, interfaces) : undefined,
+      revert,
+    };
+  }
+
+  /**
+   * Report whether a transaction is pending, included or confirmed, or was dropped or replaced
+   */
+  async trackTransaction(hash: string, confirmations: number = 1): Promise<TransactionStatus> {
+    try {
+      return await this.tracker.track(this.getProvider(), hash, confirmations);
+    } catch (error) {
+      throw wrapError('track transaction', error);
+    }
+  }
+
+  /**
+   * Get native and ERC20 transfers of an address, newest first
+   */
+  async getTransactionHistory(address: string, query: HistoryQuery = {}): Promise<TransactionHistory> {
+    try {
+      const latestBlock = await this.getProvider().getBlockNumber();
+      return await this.getHistoryIndex().getHistory(address, latestBlock, query);
+    } catch (error) {
+      throw wrapError('get transaction history', error);
+    }
+  }
+
+  /**
+   * Get contract event logs, decoded with the given ABI or the standard token ABIs.
+   * Defaults to the last 2000 blocks
+   */
+  async getLogs(params: GetLogsParams): Promise<LogQueryResult> {
+    try {
+      const provider = this.getProvider();
+      const toBlock = params.toBlock ?? await provider.getBlockNumber();
+      const fromBlock = params.fromBlock ?? Math.max(0, toBlock - 1999);
+
+      return await this.logReader.getLogs(provider, {
+        address: params.address,
+        topics: params.topics,
+        event: params.event,
+        abi: params.abi,
+        fromBlock,
+        toBlock,
+      });
+    } catch (error) {
+      throw wrapError('get logs', error);
     }
   }
 
@@ -239,33 +944,33 @@ export class RootstockClient {
    */
   async getBlock(blockNumber?: number, blockHash?: string): Promise<BlockInfo> {
     try {
-      let block;
-      if (blockHash) {
-        block = await this.getProvider().getBlock(blockHash);
-      } else if (blockNumber !== undefined) {
-        block = await this.getProvider().getBlock(blockNumber);
-      } else {
-        block = await this.getProvider().getBlock('latest');
-      }
+      const tag = blockHash ? blockHash.toLowerCase() : blockNumber ?? 'latest';
 
-      if (!block) {
-        throw new Error('Block not found');
-      }
+      return await this.cache.getOrLoad(
+        this.cacheKey('block', tag),
+        async () => {
+          const block = await this.getProvider().getBlock(tag);
+          if (!block) {
+            throw new RootstockError('NOT_FOUND', 'Block not found');
+          }
 
-      return {
-        number: block.number,
-        hash: block.hash || '',
-        parentHash: block.parentHash,
-        timestamp: block.timestamp,
-        gasLimit: block.gasLimit.toString(),
-        gasUsed: block.gasUsed.toString(),
-        miner: block.miner,
-        difficulty: block.difficulty?.toString(),
-        size: block.length || 0,
-        transactionCount: block.transactions.length,
-      };
+          return {
+            number: block.number,
+            hash: block.hash || '',
+            parentHash: block.parentHash,
+            timestamp: block.timestamp,
+            gasLimit: block.gasLimit.toString(),
+            gasUsed: block.gasUsed.toString(),
+            miner: block.miner,
+            difficulty: block.difficulty?.toString(),
+            size: block.length || 0,
+            transactionCount: block.transactions.length,
+          };
+        },
+        (block) => (tag === 'latest' ? 'latest' : this.getBlockLifetime(block.number))
+      );
     } catch (error) {
-      throw new Error(`Failed to get block: ${error}`);
+      throw wrapError('get block', error);
     }
   }
 
@@ -301,7 +1006,7 @@ export class RootstockClient {
   /**
    * Estimate gas for a transaction
    */
-  async estimateGas(to: string, value?: string, data?: string): Promise<GasEstimate> {
+  async estimateGas(to: string, value?: string, data?: string, gasSpeed?: GasSpeed): Promise<GasEstimate> {
     try {
       const tx: ethers.TransactionRequest = {
         to,
@@ -309,12 +1014,11 @@ export class RootstockClient {
         data: data || '0x',
       };
 
-      const [gasLimit, feeData] = await Promise.all([
+      const [gasLimit, gasPrice] = await Promise.all([
         this.getProvider().estimateGas(tx),
-        this.getProvider().getFeeData(),
+        this.gasPrices.resolve(this.getProvider(), undefined, gasSpeed),
       ]);
 
-      const gasPrice = feeData.gasPrice || BigInt(0);
       const estimatedCost = gasLimit * gasPrice;
 
       return {
@@ -323,7 +1027,239 @@ export class RootstockClient {
         estimatedCost: ethers.formatEther(estimatedCost),
       };
     } catch (error) {
-      throw new Error(`Failed to estimate gas: ${error}`);
+      throw this.explainError('estimate gas', error);
+    }
+  }
+
+  /**
+   * Get the slow, normal and fast gas price presets from recent blocks' minimum gas price
+   */
+  async getGasPrices(): Promise<GasPriceQuote> {
+    try {
+      return await this.gasPrices.getQuote(this.getProvider());
+    } catch (error) {
+      throw wrapError('get gas prices', error);
+    }
+  }
+
+  /**
+   * Dry-run a write tool call against the pending state: eth_call for the outcome and any revert reason,
+   * eth_estimateGas for the cost. Nothing is signed, so any address can be simulated, including watch-only ones
+   */
+  async simulate(
+    from: string,
+    action: SimulatedAction,
+    gasPrice?: string,
+    gasSpeed?: GasSpeed,
+    gasLimit?: string
+  ): Promise<SimulationResult> {
+    try {
+      const provider = this.getProvider();
+      const { tx, spend, fragment, abi } = await this.populateAction(from, action);
+      const [resolvedGasPrice, balance] = await Promise.all([
+        this.gasPrices.resolve(provider, gasPrice, gasSpeed),
+        provider.getBalance(from),
+      ]);
+      const value = BigInt(tx.value ?? 0n);
+      const request: ethers.TransactionRequest = {
+        ...tx,
+        from,
+        value,
+        gasLimit: gasLimit ? BigInt(gasLimit) : undefined,
+      };
+      const interfaces = getKnownInterfaces(abi);
+
+      const result: SimulationResult = {
+        success: true,
+        from,
+        to: tx.to ? String(tx.to) : undefined,
+        value: ethers.formatEther(value),
+        gasPrice: resolvedGasPrice.toString(),
+        balance: ethers.formatEther(balance),
+        sufficientFunds: balance >= value,
+      };
+
+      if (!tx.to) {
+        result.contractAddress = ethers.getCreateAddress({ from, nonce: await this.getPendingNonce(from) });
+      }
+
+      try {
+        result.returnData = await provider.call({ ...request, blockTag: 'pending' });
+        const gasEstimate = request.gasLimit ?? await provider.estimateGas(request);
+        const gasCost = BigInt(gasEstimate) * resolvedGasPrice;
+        result.gasEstimate = gasEstimate.toString();
+        result.gasCost = ethers.formatEther(gasCost);
+        result.sufficientFunds = balance >= value + gasCost;
+      } catch (error) {
+        const revert = describeRevert(error, interfaces);
+        // Nodes refuse to execute a call whose value the sender cannot pay
+        if (!revert && result.sufficientFunds) {
+          throw error;
+        }
+        result.success = false;
+        result.revert = revert;
+      }
+
+      if (fragment && result.returnData && result.returnData !== '0x') {
+        try {
+          const decoded = ethers.Interface.from([fragment]).decodeFunctionResult(fragment, result.returnData);
+          result.result = formatAbiValues(fragment.outputs, decoded);
+        } catch {
+          // Return data does not match the declared outputs; the raw data is still reported
+        }
+      }
+
+      if (this.spendingPolicy) {
+        try {
+          this.spendingPolicy.check(spend);
+        } catch (error) {
+          result.policyViolation = error instanceof Error ? error.message : String(error);
+        }
+      }
+
+      return result;
+    } catch (error) {
+      throw this.explainError('simulate transaction', error);
+    }
+  }
+
+  /**
+   * Build the unsigned transaction and spending request that a write tool call would send
+   */
+  private async populateAction(from: string, action: SimulatedAction): Promise<{
+    tx: ethers.TransactionRequest;
+    spend: SpendRequest;
+    fragment?: ethers.FunctionFragment;
+    abi?: Array<string | object>;
+  }> {
+    const provider = this.getProvider();
+    const call = (address: string, abi: Array<string | object>, methodName: string, args: unknown[], value?: bigint) => {
+      const contractInterface = new ethers.Interface(abi);
+      const fragment = contractInterface.getFunction(methodName, args);
+      if (!fragment) {
+        throw new RootstockError('INVALID_PARAMS', `Method ${methodName} is not in the contract ABI`);
+      }
+      return {
+        tx: { to: address, data: contractInterface.encodeFunctionData(fragment, args), value },
+        fragment,
+        abi,
+        method: { name: methodName, signature: fragment.format(), selector: fragment.selector },
+      };
+    };
+    const getDecimals = (tokenAddress: string) =>
+      new ethers.Contract(tokenAddress, ['function decimals() view returns (uint8)'], provider).decimals();
+
+    switch (action.type) {
+      case 'transfer': {
+        const value = ethers.parseEther(action.amount);
+        return { tx: { to: action.to, value }, spend: { from, to: action.to, value } };
+      }
+
+      case 'token_transfer': {
+        const decimals = await getDecimals(action.tokenAddress);
+        const amount = ethers.parseUnits(action.amount, decimals);
+        const { tx, fragment } = call(action.tokenAddress, this.getStandardERC20ABI(), 'transfer', [action.to, amount]);
+        return {
+          tx,
+          fragment,
+          spend: { from, to: action.to, token: { address: action.tokenAddress, amount, decimals: Number(decimals) } },
+        };
+      }
+
+      case 'contract_call': {
+        const value = action.value ? ethers.parseEther(action.value) : 0n;
+        const { abi, fragment, args } = this.resolveContractFunction(action.methodName, action.parameters || [], action.abi);
+        const data = ethers.Interface.from(abi).encodeFunctionData(fragment, args);
+        return {
+          tx: { to: action.contractAddress, data, value },
+          fragment,
+          abi,
+          spend: await this.withTokenSpend({
+            from,
+            to: action.contractAddress,
+            value,
+            method: { name: action.methodName, signature: fragment.format(), selector: fragment.selector },
+          }, data),
+        };
+      }
+
+      case 'mint_tokens': {
+        const amount = ethers.parseUnits(action.amount, await getDecimals(action.tokenAddress));
+        const { tx, fragment, method } = call(action.tokenAddress, this.getMintableERC20ABI(), 'mint', [action.to, amount]);
+        return { tx, fragment, spend: { from, to: action.tokenAddress, method } };
+      }
+
+      case 'mint_nft': {
+        const { tx, fragment, method } = call(
+          action.tokenAddress,
+          this.getMintableERC721ABI(),
+          'mint',
+          [action.to, BigInt(action.tokenId), action.tokenURI || '']
+        );
+        return { tx, fragment, spend: { from, to: action.tokenAddress, method } };
+      }
+
+      case 'deploy_erc20': {
+        const compiled = this.getCompiledERC20Contract(action.mintable ?? false);
+        const factory = new ethers.ContractFactory(compiled.abi, compiled.bytecode);
+        const tx = await factory.getDeployTransaction(action.name, action.symbol, BigInt(action.initialSupply), action.decimals);
+        return { tx, abi: compiled.abi, spend: { from, method: { name: 'deploy' } } };
+      }
+
+      case 'deploy_erc721': {
+        const compiled = this.getCompiledERC721Contract(action.mintable ?? false);
+        const factory = new ethers.ContractFactory(compiled.abi, compiled.bytecode);
+        const tx = await factory.getDeployTransaction(action.name, action.symbol);
+        return { tx, abi: compiled.abi, spend: { from, method: { name: 'deploy' } } };
+      }
+
+      default:
+        throw new Error(`Unknown action: ${(action as { type: string }).type}`);
+    }
+  }
+
+  /**
+   * Sign EIP-712 typed data; permits are refused for wallets under the spending policy
+   */
+  async signTypedData(wallet: WalletSigner, payload: TypedDataPayload): Promise<string> {
+    try {
+      const permitType = this.spendingPolicy && getPermitType(payload);
+      if (permitType) {
+        this.spendingPolicy?.checkPermit(wallet.address, permitType);
+      }
+      return await signTypedData(wallet, payload);
+    } catch (error) {
+      throw wrapError('sign typed data', error);
+    }
+  }
+
+  /**
+   * Verify a signature over a digest, falling back to EIP-1271 when the address is a contract
+   */
+  async verifySignature(address: string, signature: string, digest: string): Promise<SignatureVerification> {
+    try {
+      const expected = ethers.getAddress(address);
+      const recoveredAddress = recoverSigner(digest, signature) || undefined;
+      if (recoveredAddress === expected) {
+        return { valid: true, address: expected, method: 'ecrecover', recoveredAddress };
+      }
+
+      const code = await this.getProvider().getCode(expected);
+      if (code !== '0x') {
+        const contract = new ethers.Contract(expected, EIP1271_ABI, this.getProvider());
+        try {
+          const result: string = await contract.isValidSignature(digest, signature);
+          if (result.toLowerCase() === EIP1271_MAGIC_VALUE) {
+            return { valid: true, address: expected, method: 'eip1271', recoveredAddress };
+          }
+        } catch {
+          // Contracts without EIP-1271 support revert; treat as invalid
+        }
+      }
+
+      return { valid: false, address: expected, recoveredAddress };
+    } catch (error) {
+      throw wrapError('verify signature', error);
     }
   }
 
@@ -334,55 +1270,105 @@ export class RootstockClient {
     contractAddress: string,
     methodName: string,
     parameters: any[] = [],
-    abi?: any[]
+    abi?: any[] | string
   ): Promise<ContractCallResponse> {
     try {
-      // Use a basic ABI if none provided
-      const contractAbi = abi || [
-        `function ${methodName}(${parameters.map((_, i) => `uint256 param${i}`).join(', ')}) view returns (uint256)`,
-      ];
+      const { abi: contractAbi, fragment, args } = this.resolveContractFunction(methodName, parameters, abi, true);
 
       const contract = new ethers.Contract(contractAddress, contractAbi, this.getProvider());
-      const result = await contract[methodName](...parameters);
+      const result = await contract.getFunction(fragment).staticCallResult(...args);
 
       return {
-        result: result.toString(),
+        result: formatAbiValues(fragment.outputs, result),
+        signature: fragment.format('full'),
       };
     } catch (error) {
-      throw new Error(`Failed to call contract: ${error}`);
+      throw this.explainError('call contract', error, typeof abi === 'string' ? undefined : abi);
     }
   }
 
+  /**
+   * Find the function to call and coerce the JSON parameters to its types. The ABI may be a function
+   * signature such as "balanceOf(address) returns (uint256)"; without either, every parameter
+   * (and a read's return value) is taken to be uint256
+   */
+  private resolveContractFunction(
+    methodName: string,
+    parameters: unknown[],
+    abi?: Array<string | object> | string,
+    readOnly: boolean = false
+  ): { abi: Array<string | object>; fragment: ethers.FunctionFragment; args: unknown[] } {
+    let contractAbi: Array<string | object>;
+    if (typeof abi === 'string') {
+      const signature = parseFunctionSignature(abi);
+      if (signature.name !== methodName) {
+        throw new RootstockError('INVALID_PARAMS', `Signature ${signature.format()} does not match method ${methodName}`);
+      }
+      contractAbi = [signature.format('full')];
+    } else {
+      contractAbi = abi || [
+        `function ${methodName}(${parameters.map((_, i) => `uint256 param${i}`).join(', ')})${readOnly ? ' view returns (uint256)' : ''}`,
+      ];
+    }
+
+    const contractInterface = new ethers.Interface(contractAbi);
+    let fragment: ethers.FunctionFragment | null;
+    try {
+      fragment = contractInterface.getFunction(methodName);
+    } catch {
+      // Overloaded: pick the variant matching the parameters
+      fragment = contractInterface.getFunction(methodName, parameters);
+    }
+    if (!fragment) {
+      throw new RootstockError('INVALID_PARAMS', `Method ${methodName} is not in the contract ABI`);
+    }
+
+    return { abi: contractAbi, fragment, args: coerceAbiValues(fragment.inputs, parameters) };
+  }
+
   /**
    * Send a transaction to a smart contract
    */
   async sendContractTransaction(
-    wallet: ethers.Wallet | ethers.HDNodeWallet,
+    wallet: WalletSigner,
     contractAddress: string,
     methodName: string,
     parameters: any[] = [],
-    abi?: any[],
+    abi?: any[] | string,
     value?: string,
     gasLimit?: string,
-    gasPrice?: string
+    gasPrice?: string,
+    options: SendOptions = {}
   ): Promise<TransactionResponse> {
     try {
       const connectedWallet = wallet.connect(this.getProvider());
+      const resolvedGasPrice = await this.gasPrices.resolve(this.getProvider(), gasPrice, options.gasSpeed);
       
-      // Use a basic ABI if none provided
-      const contractAbi = abi || [
-        `function ${methodName}(${parameters.map((_, i) => `uint256 param${i}`).join(', ')})`,
-      ];
+      const { abi: contractAbi, fragment, args } = this.resolveContractFunction(methodName, parameters, abi);
 
       const contract = new ethers.Contract(contractAddress, contractAbi, connectedWallet);
-      
-      const tx = await contract[methodName](...parameters, {
-        value: value ? ethers.parseEther(value) : 0,
-        gasLimit: gasLimit ? BigInt(gasLimit) : undefined,
-        gasPrice: gasPrice ? BigInt(gasPrice) : undefined,
-      });
+      const parsedValue = value ? ethers.parseEther(value) : 0n;
 
-      const receipt = await tx.wait();
+      const spend = await this.withTokenSpend(
+        {
+          from: wallet.address,
+          to: contractAddress,
+          value: parsedValue,
+          method: { name: methodName, signature: fragment.format(), selector: fragment.selector },
+        },
+        contract.interface.encodeFunctionData(fragment, args)
+      );
+      const tx = await this.authorize(
+        spend,
+        (nonce) => contract.getFunction(fragment)(...args, {
+          value: parsedValue,
+          gasLimit: gasLimit ? BigInt(gasLimit) : undefined,
+          gasPrice: resolvedGasPrice,
+          nonce,
+        })
+      );
+
+      const receipt = await this.waitForReceipt(tx, options, contractAbi);
 
       return {
         hash: tx.hash,
@@ -393,10 +1379,10 @@ export class RootstockClient {
         gasPrice: tx.gasPrice?.toString(),
         blockNumber: receipt?.blockNumber,
         blockHash: receipt?.blockHash,
-        status: receipt?.status === 1 ? 'confirmed' : 'failed',
+        status: receipt ? (receipt.status === 1 ? 'confirmed' : 'failed') : 'pending',
       };
     } catch (error) {
-      throw new Error(`Failed to send contract transaction: ${error}`);
+      throw this.explainError('send contract transaction', error, typeof abi === 'string' ? undefined : abi);
     }
   }
 
@@ -404,14 +1390,15 @@ export class RootstockClient {
    * Deploy an ERC20 token contract
    */
   async deployERC20Token(
-    wallet: ethers.Wallet | ethers.HDNodeWallet,
+    wallet: WalletSigner,
     name: string,
     symbol: string,
     decimals: number = 18,
     initialSupply: string,
     mintable: boolean = false,
     gasLimit?: string,
-    gasPrice?: string
+    gasPrice?: string,
+    options: SendOptions = {}
   ): Promise<{
     contractAddress: string;
     transactionHash: string;
@@ -422,16 +1409,18 @@ export class RootstockClient {
     deployer: string;
     gasUsed?: string;
     blockNumber?: number;
+    status?: 'pending' | 'confirmed' | 'failed';
   }> {
     try {
       const connectedWallet = wallet.connect(this.getProvider());
+      const resolvedGasPrice = await this.gasPrices.resolve(this.getProvider(), gasPrice, options.gasSpeed);
 
       // Check wallet balance first
       const balance = await this.getProvider().getBalance(wallet.address);
       console.log(`Wallet balance: ${ethers.formatEther(balance)} ${this.getCurrencySymbol()}`);
 
       if (balance === 0n) {
-        throw new Error(`Wallet has no funds for deployment. Please fund the wallet: ${wallet.address}`);
+        throw new RootstockError('INSUFFICIENT_FUNDS', `Wallet has no funds for deployment. Please fund the wallet: ${wallet.address}`);
       }
 
       // Get pre-compiled contract
@@ -451,29 +1440,36 @@ export class RootstockClient {
       console.log(`Deploying contract with initial supply: ${parsedInitialSupply.toString()}`);
 
       // Deploy contract with Hyperion-compatible parameters: name, symbol, initialSupply, decimals
-      const contract = await contractFactory.deploy(
-        name,
-        symbol,
-        parsedInitialSupply,
-        decimals,
-        {
-          gasLimit: gasLimit ? BigInt(gasLimit) : undefined,
-          gasPrice: gasPrice ? BigInt(gasPrice) : undefined,
-        }
+      const contract = await this.authorize(
+        { from: wallet.address, method: { name: 'deploy' } },
+        (nonce) => contractFactory.deploy(
+          name,
+          symbol,
+          parsedInitialSupply,
+          decimals,
+          {
+            gasLimit: gasLimit ? BigInt(gasLimit) : undefined,
+            gasPrice: resolvedGasPrice,
+            nonce,
+          }
+        )
       );
 
-      console.log('Contract deployment transaction sent, waiting for confirmation...');
+      const deployment = contract.deploymentTransaction();
+      if (!deployment) {
+        throw new Error('Deployment transaction was not sent');
+      }
 
       // Wait for deployment
-      const receipt = await contract.deploymentTransaction()?.wait();
-      console.log('Contract deployed successfully!');
+      const receipt = await this.waitForReceipt(deployment, options);
+      console.log(receipt ? 'Contract deployed successfully!' : 'Contract deployment transaction sent');
 
       const contractAddress = await contract.getAddress();
       console.log(`Contract address: ${contractAddress}`);
 
       return {
         contractAddress,
-        transactionHash: contract.deploymentTransaction()?.hash || '',
+        transactionHash: deployment.hash,
         name,
         symbol,
         decimals,
@@ -481,10 +1477,11 @@ export class RootstockClient {
         deployer: wallet.address,
         gasUsed: receipt?.gasUsed.toString(),
         blockNumber: receipt?.blockNumber,
+        status: receipt ? (receipt.status === 1 ? 'confirmed' : 'failed') : 'pending',
       };
     } catch (error) {
       console.error('Deployment error:', error);
-      throw new Error(`Failed to deploy ERC20 token: ${error}`);
+      throw this.explainError('deploy ERC20 token', error);
     }
   }
 
@@ -500,42 +1497,20 @@ export class RootstockClient {
     owner?: string;
   }> {
     try {
-      const tokenContract = new ethers.Contract(
-        tokenAddress,
-        this.getStandardERC20ABI(),
-        this.getProvider()
-      );
-
-      const [name, symbol, decimals, totalSupply] = await Promise.all([
-        tokenContract.name(),
-        tokenContract.symbol(),
-        tokenContract.decimals(),
-        tokenContract.totalSupply(),
+      // Only mintable tokens have an owner
+      const { metadata, values: [totalSupply, owner] } = await this.readToken(tokenAddress, [
+        { method: 'totalSupply' },
+        { method: 'owner', optional: true },
       ]);
 
-      let owner: string | undefined;
-      try {
-        // Try to get owner if it's a mintable token
-        const mintableContract = new ethers.Contract(
-          tokenAddress,
-          this.getMintableERC20ABI(),
-          this.getProvider()
-        );
-        owner = await mintableContract.owner();
-      } catch {
-        // Owner function doesn't exist, it's a standard token
-      }
-
       return {
         address: tokenAddress,
-        name,
-        symbol,
-        decimals: Number(decimals),
-        totalSupply: ethers.formatUnits(totalSupply, decimals),
-        owner,
+        ...metadata,
+        totalSupply: ethers.formatUnits(totalSupply as bigint, metadata.decimals),
+        owner: owner === null ? undefined : String(owner),
       };
     } catch (error) {
-      throw new Error(`Failed to get token info: ${error}`);
+      throw wrapError('get token info', error);
     }
   }
 
@@ -543,15 +1518,17 @@ export class RootstockClient {
    * Mint tokens (only for mintable tokens)
    */
   async mintTokens(
-    wallet: ethers.Wallet | ethers.HDNodeWallet,
+    wallet: WalletSigner,
     tokenAddress: string,
     to: string,
     amount: string,
     gasLimit?: string,
-    gasPrice?: string
+    gasPrice?: string,
+    options: SendOptions = {}
   ): Promise<TransactionResponse> {
     try {
       const connectedWallet = wallet.connect(this.getProvider());
+      const resolvedGasPrice = await this.gasPrices.resolve(this.getProvider(), gasPrice, options.gasSpeed);
 
       const tokenContract = new ethers.Contract(
         tokenAddress,
@@ -563,12 +1540,21 @@ export class RootstockClient {
       const decimals = await tokenContract.decimals();
       const parsedAmount = ethers.parseUnits(amount, decimals);
 
-      const tx = await tokenContract.mint(to, parsedAmount, {
-        gasLimit: gasLimit ? BigInt(gasLimit) : undefined,
-        gasPrice: gasPrice ? BigInt(gasPrice) : undefined,
-      });
+      const mintFragment = tokenContract.interface.getFunction('mint');
+      const tx = await this.authorize(
+        {
+          from: wallet.address,
+          to: tokenAddress,
+          method: { name: 'mint', signature: mintFragment?.format(), selector: mintFragment?.selector },
+        },
+        (nonce) => tokenContract.mint(to, parsedAmount, {
+          gasLimit: gasLimit ? BigInt(gasLimit) : undefined,
+          gasPrice: resolvedGasPrice,
+          nonce,
+        })
+      );
 
-      const receipt = await tx.wait();
+      const receipt = await this.waitForReceipt(tx, options);
 
       return {
         hash: tx.hash,
@@ -579,10 +1565,10 @@ export class RootstockClient {
         gasPrice: tx.gasPrice?.toString(),
         blockNumber: receipt?.blockNumber,
         blockHash: receipt?.blockHash,
-        status: receipt?.status === 1 ? 'confirmed' : 'failed',
+        status: receipt ? (receipt.status === 1 ? 'confirmed' : 'failed') : 'pending',
       };
     } catch (error) {
-      throw new Error(`Failed to mint tokens: ${error}`);
+      throw this.explainError('mint tokens', error);
     }
   }
 
@@ -590,22 +1576,24 @@ export class RootstockClient {
    * Deploy an ERC721 NFT contract
    */
   async deployERC721Token(
-    wallet: ethers.Wallet | ethers.HDNodeWallet,
+    wallet: WalletSigner,
     name: string,
     symbol: string,
     mintable: boolean = false,
     gasLimit?: string,
-    gasPrice?: string
+    gasPrice?: string,
+    options: SendOptions = {}
   ): Promise<ERC721DeploymentResponse> {
     try {
       const connectedWallet = wallet.connect(this.getProvider());
+      const resolvedGasPrice = await this.gasPrices.resolve(this.getProvider(), gasPrice, options.gasSpeed);
 
       // Check wallet balance first
       const balance = await this.getProvider().getBalance(wallet.address);
       console.log(`Wallet balance: ${ethers.formatEther(balance)} ${this.getCurrencySymbol()}`);
 
       if (balance === 0n) {
-        throw new Error(`Wallet has no funds for deployment. Please fund the wallet: ${wallet.address}`);
+        throw new RootstockError('INSUFFICIENT_FUNDS', `Wallet has no funds for deployment. Please fund the wallet: ${wallet.address}`);
       }
 
       // Get pre-compiled ERC721 contract
@@ -623,36 +1611,44 @@ export class RootstockClient {
       console.log(`Deploying ERC721 contract: ${name} (${symbol})`);
 
       // Deploy contract with parameters: name, symbol
-      const contract = await contractFactory.deploy(
-        name,
-        symbol,
-        {
-          gasLimit: gasLimit ? BigInt(gasLimit) : undefined,
-          gasPrice: gasPrice ? BigInt(gasPrice) : undefined,
-        }
+      const contract = await this.authorize(
+        { from: wallet.address, method: { name: 'deploy' } },
+        (nonce) => contractFactory.deploy(
+          name,
+          symbol,
+          {
+            gasLimit: gasLimit ? BigInt(gasLimit) : undefined,
+            gasPrice: resolvedGasPrice,
+            nonce,
+          }
+        )
       );
 
-      console.log('Contract deployment transaction sent, waiting for confirmation...');
+      const deployment = contract.deploymentTransaction();
+      if (!deployment) {
+        throw new Error('Deployment transaction was not sent');
+      }
 
       // Wait for deployment
-      const receipt = await contract.deploymentTransaction()?.wait();
-      console.log('ERC721 contract deployed successfully!');
+      const receipt = await this.waitForReceipt(deployment, options);
+      console.log(receipt ? 'ERC721 contract deployed successfully!' : 'Contract deployment transaction sent');
 
       const contractAddress = await contract.getAddress();
       console.log(`Contract address: ${contractAddress}`);
 
       return {
         contractAddress,
-        transactionHash: contract.deploymentTransaction()?.hash || '',
+        transactionHash: deployment.hash,
         name,
         symbol,
         deployer: wallet.address,
         gasUsed: receipt?.gasUsed.toString(),
         blockNumber: receipt?.blockNumber,
+        status: receipt ? (receipt.status === 1 ? 'confirmed' : 'failed') : 'pending',
       };
     } catch (error) {
       console.error('ERC721 deployment error:', error);
-      throw new Error(`Failed to deploy ERC721 token: ${error}`);
+      throw this.explainError('deploy ERC721 token', error);
     }
   }
 
@@ -660,13 +1656,14 @@ export class RootstockClient {
    * Mint an NFT (only for mintable ERC721 contracts)
    */
   async mintNFT(
-    wallet: ethers.Wallet | ethers.HDNodeWallet,
+    wallet: WalletSigner,
     tokenAddress: string,
     to: string,
     tokenId: string,
     tokenURI: string = '',
     gasLimit?: string,
-    gasPrice?: string
+    gasPrice?: string,
+    options: SendOptions = {}
   ): Promise<{
     transactionHash: string;
     to: string;
@@ -674,9 +1671,11 @@ export class RootstockClient {
     tokenURI?: string;
     gasUsed?: string;
     blockNumber?: number;
+    status?: 'pending' | 'confirmed' | 'failed';
   }> {
     try {
       const connectedWallet = wallet.connect(this.getProvider());
+      const resolvedGasPrice = await this.gasPrices.resolve(this.getProvider(), gasPrice, options.gasSpeed);
 
       const nftContract = new ethers.Contract(
         tokenAddress,
@@ -687,12 +1686,21 @@ export class RootstockClient {
       // Convert tokenId to BigInt
       const parsedTokenId = BigInt(tokenId);
 
-      const tx = await nftContract.mint(to, parsedTokenId, tokenURI, {
-        gasLimit: gasLimit ? BigInt(gasLimit) : undefined,
-        gasPrice: gasPrice ? BigInt(gasPrice) : undefined,
-      });
+      const mintFragment = nftContract.interface.getFunction('mint');
+      const tx = await this.authorize(
+        {
+          from: wallet.address,
+          to: tokenAddress,
+          method: { name: 'mint', signature: mintFragment?.format(), selector: mintFragment?.selector },
+        },
+        (nonce) => nftContract.mint(to, parsedTokenId, tokenURI, {
+          gasLimit: gasLimit ? BigInt(gasLimit) : undefined,
+          gasPrice: resolvedGasPrice,
+          nonce,
+        })
+      );
 
-      const receipt = await tx.wait();
+      const receipt = await this.waitForReceipt(tx, options);
 
       return {
         transactionHash: tx.hash,
@@ -701,9 +1709,10 @@ export class RootstockClient {
         tokenURI: tokenURI || undefined,
         gasUsed: receipt?.gasUsed.toString(),
         blockNumber: receipt?.blockNumber,
+        status: receipt ? (receipt.status === 1 ? 'confirmed' : 'failed') : 'pending',
       };
     } catch (error) {
-      throw new Error(`Failed to mint NFT: ${error}`);
+      throw this.explainError('mint NFT', error);
     }
   }
 
@@ -762,7 +1771,7 @@ export class RootstockClient {
 
       return result;
     } catch (error) {
-      throw new Error(`Failed to get NFT info: ${error}`);
+      throw wrapError('get NFT info', error);
     }
   }
 
@@ -0,0 +1,251 @@
+/**
+ * RPC Pool
+ * A JSON-RPC provider that spreads reads over several endpoints and fails over on outages
+ */
+
+import { ethers } from 'ethers';
+import { RootstockError } from './errors.js';
+
+export interface RpcPoolOptions {
+  /** Extra attempts on other endpoints after a failed request */
+  maxRetries?: number;
+  /** Base delay before a retry, doubled on every attempt (ms) */
+  retryDelay?: number;
+  /** How long a failed endpoint is skipped, multiplied by its consecutive failures (ms) */
+  cooldown?: number;
+  /** Background health check interval; 0 disables it (ms) */
+  healthCheckInterval?: number;
+  /** Endpoints further behind the highest block than this are treated as unhealthy */
+  maxBlockLag?: number;
+  /** Per-request timeout (ms) */
+  timeout?: number;
+}
+
+export interface EndpointHealth {
+  url: string;
+  healthy: boolean;
+  latencyMs?: number;
+  blockNumber?: number;
+  blocksBehind?: number;
+  consecutiveFailures: number;
+  lastError?: string;
+  lastChecked?: string;
+}
+
+interface Endpoint {
+  url: string;
+  latencyMs?: number;
+  blockNumber?: number;
+  blocksBehind?: number;
+  consecutiveFailures: number;
+  unhealthyUntil: number;
+  lastError?: string;
+  lastChecked?: number;
+}
+
+const DEFAULT_OPTIONS: Required<RpcPoolOptions> = {
+  maxRetries: 3,
+  retryDelay: 250,
+  cooldown: 30000,
+  healthCheckInterval: 60000,
+  maxBlockLag: 10,
+  timeout: 30000,
+};
+
+// Broadcasts go to the preferred endpoint first instead of being spread
+const WRITE_METHODS = new Set(['eth_sendRawTransaction', 'eth_sendTransaction']);
+
+const ALREADY_KNOWN = /already known|known transaction|already imported/i;
+
+/**
+ * Read the pool settings from ROOTSTOCK_MAX_RETRIES and ROOTSTOCK_API_TIMEOUT
+ */
+export function getRpcPoolOptionsFromEnv(): RpcPoolOptions {
+  const options: RpcPoolOptions = {};
+  if (process.env.ROOTSTOCK_MAX_RETRIES) {
+    options.maxRetries = parseInt(process.env.ROOTSTOCK_MAX_RETRIES, 10);
+  }
+  if (process.env.ROOTSTOCK_API_TIMEOUT) {
+    options.timeout = parseInt(process.env.ROOTSTOCK_API_TIMEOUT, 10);
+  }
+  return options;
+}
+
+export class FailoverProvider extends ethers.JsonRpcProvider {
+  private endpoints: Endpoint[];
+  private poolOptions: Required<RpcPoolOptions>;
+  private cursor = 0;
+  private healthTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(urls: string[], options: RpcPoolOptions = {}) {
+    const unique = Array.from(new Set(urls.map((url) => url.trim()).filter(Boolean)));
+    if (unique.length === 0) {
+      throw new Error('At least one RPC URL is required');
+    }
+
+    super(unique[0], undefined, { staticNetwork: true, batchMaxCount: 1 });
+    this.endpoints = unique.map((url) => ({ url, consecutiveFailures: 0, unhealthyUntil: 0 }));
+    this.poolOptions = {
+      ...DEFAULT_OPTIONS,
+      ...Object.fromEntries(Object.entries(options).filter(([, value]) => Number.isFinite(value))),
+    };
+
+    if (this.endpoints.length > 1 && this.poolOptions.healthCheckInterval > 0) {
+      this.healthTimer = setInterval(() => {
+        this.checkHealth().catch(() => undefined);
+      }, this.poolOptions.healthCheckInterval);
+      // Health checks must not keep the process alive
+      this.healthTimer.unref();
+    }
+  }
+
+  /**
+   * Send a payload to the pool, retrying on other endpoints when one is unreachable.
+   * JSON-RPC errors (reverts, bad params) are real answers and are returned as-is.
+   */
+  async _send(payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>): Promise<Array<ethers.JsonRpcResult>> {
+    const payloads = Array.isArray(payload) ? payload : [payload];
+    const write = payloads.some((entry) => WRITE_METHODS.has(entry.method));
+    const candidates = this.orderEndpoints(write);
+    const attempts = Math.max(1, Math.min(this.poolOptions.maxRetries + 1, candidates.length * 2));
+
+    let lastError: unknown;
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      if (attempt > 0) {
+        await new Promise((resolve) => setTimeout(resolve, this.poolOptions.retryDelay * 2 ** (attempt - 1)));
+      }
+
+      const endpoint = candidates[attempt % candidates.length];
+      try {
+        const results = await this.request(endpoint, payload);
+        return write ? this.acceptAlreadyKnown(payloads, results) : results;
+      } catch (error) {
+        lastError = error;
+      }
+    }
+
+    throw new RootstockError(
+      'RPC_UNAVAILABLE',
+      `All RPC endpoints failed: ${lastError instanceof Error ? lastError.message : lastError}`,
+      { cause: lastError }
+    );
+  }
+
+  /**
+   * Probe every endpoint for latency and block height
+   */
+  async checkHealth(): Promise<EndpointHealth[]> {
+    await Promise.all(this.endpoints.map(async (endpoint) => {
+      try {
+        const [result] = await this.request(endpoint, { method: 'eth_blockNumber', params: [], id: 1, jsonrpc: '2.0' });
+        if ('error' in result) {
+          throw new Error((result as ethers.JsonRpcError).error.message);
+        }
+        endpoint.blockNumber = Number(result.result);
+      } catch {
+        // Failure already recorded on the endpoint
+      }
+    }));
+
+    const highest = Math.max(0, ...this.endpoints.map((endpoint) => endpoint.blockNumber ?? 0));
+    for (const endpoint of this.endpoints) {
+      endpoint.blocksBehind = endpoint.blockNumber !== undefined ? highest - endpoint.blockNumber : undefined;
+    }
+
+    return this.getHealth();
+  }
+
+  /**
+   * Current view of every endpoint, without probing
+   */
+  getHealth(): EndpointHealth[] {
+    return this.endpoints.map((endpoint) => ({
+      url: endpoint.url,
+      healthy: this.isHealthy(endpoint),
+      latencyMs: endpoint.latencyMs,
+      blockNumber: endpoint.blockNumber,
+      blocksBehind: endpoint.blocksBehind,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      lastError: endpoint.lastError,
+      lastChecked: endpoint.lastChecked ? new Date(endpoint.lastChecked).toISOString() : undefined,
+    }));
+  }
+
+  destroy(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+    super.destroy();
+  }
+
+  /**
+   * Healthy endpoints first (rotated for reads, in configured order for writes), then the rest as a last resort
+   */
+  private orderEndpoints(write: boolean): Endpoint[] {
+    const healthy = this.endpoints.filter((endpoint) => this.isHealthy(endpoint));
+    const unhealthy = this.endpoints.filter((endpoint) => !this.isHealthy(endpoint));
+
+    if (!write && healthy.length > 1) {
+      const offset = this.cursor++ % healthy.length;
+      healthy.push(...healthy.splice(0, offset));
+    }
+    return [...healthy, ...unhealthy];
+  }
+
+  private isHealthy(endpoint: Endpoint): boolean {
+    return endpoint.unhealthyUntil <= Date.now()
+      && (endpoint.blocksBehind ?? 0) <= this.poolOptions.maxBlockLag;
+  }
+
+  private async request(
+    endpoint: Endpoint,
+    payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>
+  ): Promise<Array<ethers.JsonRpcResult>> {
+    const request = new ethers.FetchRequest(endpoint.url);
+    request.timeout = this.poolOptions.timeout;
+    // Fail over instead of waiting out rate limits on one endpoint
+    request.setThrottleParams({ maxAttempts: 1 });
+    request.body = JSON.stringify(payload);
+    request.setHeader('content-type', 'application/json');
+
+    const started = Date.now();
+    try {
+      const response = await request.send();
+      response.assertOk();
+      const body = response.bodyJson;
+
+      const latency = Date.now() - started;
+      endpoint.latencyMs = endpoint.latencyMs === undefined ? latency : Math.round(endpoint.latencyMs * 0.7 + latency * 0.3);
+      endpoint.consecutiveFailures = 0;
+      endpoint.unhealthyUntil = 0;
+      endpoint.lastError = undefined;
+      endpoint.lastChecked = Date.now();
+
+      return Array.isArray(body) ? body : [body];
+    } catch (error) {
+      endpoint.consecutiveFailures++;
+      endpoint.unhealthyUntil = Date.now() + this.poolOptions.cooldown * Math.min(endpoint.consecutiveFailures, 10);
+      endpoint.lastError = error instanceof Error ? error.message : String(error);
+      endpoint.lastChecked = Date.now();
+      throw new Error(`${endpoint.url}: ${endpoint.lastError}`);
+    }
+  }
+
+  /**
+   * A node that already has this exact signed transaction, from a retried broadcast or an earlier send,
+   * has accepted it; that is a success
+   */
+  private acceptAlreadyKnown(
+    payloads: Array<ethers.JsonRpcPayload>,
+    results: Array<ethers.JsonRpcResult | ethers.JsonRpcError>
+  ): Array<ethers.JsonRpcResult> {
+    return results.map((result) => {
+      const payload = payloads.find((entry) => entry.id === result.id);
+      if ('error' in result && payload?.method === 'eth_sendRawTransaction' && ALREADY_KNOWN.test(result.error.message || '')) {
+        return { id: result.id, result: ethers.keccak256((payload.params as string[])[0]) };
+      }
+      return result as ethers.JsonRpcResult;
+    });
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Secret Policy
+ * Decides where newly generated secrets go; by default they never leave the process
+ */
+
+import { ethers } from 'ethers';
+import { Keystore, KeystoreOptions } from './keystore.js';
+import { WalletInfo } from './types.js';
+
+export type SecretDelivery = 'none' | 'stderr' | 'file';
+
+export interface SecretPolicyOptions {
+  /** Where new secrets are written (never to tool output) */
+  delivery?: SecretDelivery;
+  /** Directory for encrypted secret files when delivery is 'file' */
+  fileDir?: string;
+  /** Passphrase for encrypted secret files when delivery is 'file' */
+  filePassphrase?: string;
+  /** Escape hatch: include secrets in returned wallet info and tool output */
+  allowReveal?: boolean;
+  keystoreOptions?: KeystoreOptions;
+}
+
+const DELIVERIES: SecretDelivery[] = ['none', 'stderr', 'file'];
+
+export const UNSAVED_SECRET_WARNING =
+  'The mnemonic was not shown and was not saved anywhere, so this wallet is lost when the server stops. ' +
+  'Configure ROOTSTOCK_KEYSTORE_DIR or ROOTSTOCK_SECRET_DELIVERY to keep new wallets recoverable.';
+
+export class SecretPolicy {
+  private delivery: SecretDelivery;
+  private allowReveal: boolean;
+  private secretStore?: Keystore;
+  private filePassphrase?: string;
+
+  constructor(options: SecretPolicyOptions = {}) {
+    this.delivery = options.delivery || 'none';
+    this.allowReveal = options.allowReveal === true;
+
+    if (!DELIVERIES.includes(this.delivery)) {
+      throw new Error(`Invalid secret delivery: ${this.delivery}. Use one of: ${DELIVERIES.join(', ')}`);
+    }
+
+    if (this.delivery === 'file') {
+      if (!options.fileDir || !options.filePassphrase) {
+        throw new Error('Secret delivery "file" requires a directory and a passphrase');
+      }
+      this.secretStore = new Keystore(options.fileDir, options.keystoreOptions);
+      this.filePassphrase = options.filePassphrase;
+    }
+  }
+
+  /**
+   * Build the policy from ROOTSTOCK_SECRET_* environment variables
+   */
+  static fromEnv(): SecretPolicy {
+    return new SecretPolicy({
+      delivery: (process.env.ROOTSTOCK_SECRET_DELIVERY || 'none') as SecretDelivery,
+      fileDir: process.env.ROOTSTOCK_SECRET_FILE_DIR,
+      filePassphrase: process.env.ROOTSTOCK_SECRET_FILE_PASSPHRASE,
+      allowReveal: process.env.ROOTSTOCK_ALLOW_SECRET_REVEAL === 'true',
+    });
+  }
+
+  /**
+   * Whether secrets may appear in tool output
+   */
+  canReveal(): boolean {
+    return this.allowReveal;
+  }
+
+  getDelivery(): SecretDelivery {
+    return this.delivery;
+  }
+
+  /**
+   * Hand a newly generated secret to the configured out-of-band channel.
+   * Returns a description of where it went, or undefined if it was not delivered.
+   */
+  deliver(wallet: ethers.Wallet | ethers.HDNodeWallet): string | undefined {
+    if (this.delivery === 'stderr') {
+      const phrase = wallet instanceof ethers.HDNodeWallet ? wallet.mnemonic?.phrase : undefined;
+      // stdout carries the MCP protocol, so secrets only ever go to stderr
+      console.error(`[secret] ${wallet.address} ${phrase ? `mnemonic: ${phrase}` : `private key: ${wallet.privateKey}`}`);
+      return 'server stderr';
+    }
+
+    if (this.delivery === 'file' && this.secretStore && this.filePassphrase) {
+      return this.secretStore.save(wallet, this.filePassphrase);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Strip secrets from wallet info unless revealing is explicitly allowed
+   */
+  redact(walletInfo: WalletInfo): WalletInfo {
+    if (this.allowReveal) {
+      return walletInfo;
+    }
+
+    const { privateKey: _privateKey, mnemonic: _mnemonic, ...rest } = walletInfo;
+    return rest;
+  }
+}
+
+/**
+ * Describe where the secret of a newly created wallet can be found, for tool output
+ */
+export function describeSecret(walletInfo: WalletInfo): string {
+  if (walletInfo.mnemonic) {
+    return `Mnemonic: ${walletInfo.mnemonic}\n\n⚠️ IMPORTANT: Save your mnemonic phrase securely. It's the only way to recover your wallet!`;
+  }
+
+  const locations = [walletInfo.keystorePath && 'the encrypted keystore', walletInfo.secretLocation].filter(Boolean);
+  if (locations.length === 0) {
+    return `⚠️ ${walletInfo.secretWarning ?? UNSAVED_SECRET_WARNING}`;
+  }
+  return `The mnemonic is not shown in tool output. It was saved to: ${locations.join(', ')}`;
+}
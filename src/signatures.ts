@@ -0,0 +1,140 @@
+/**
+ * Signatures
+ * personal_sign and EIP-712 helpers shared by the signing and verification tools
+ */
+
+import { ethers } from 'ethers';
+import { WalletSigner } from './signer.js';
+import { wrapError } from './errors.js';
+
+export type MessageEncoding = 'utf8' | 'hex';
+
+export interface TypedDataPayload {
+  domain: ethers.TypedDataDomain;
+  types: Record<string, Array<ethers.TypedDataField>>;
+  message: Record<string, unknown>;
+  primaryType?: string;
+}
+
+// EIP-2612 and DAI permits and the Permit2 messages all have a primary type starting with Permit
+const PERMIT_TYPE = /^Permit/;
+
+// bytes4(keccak256("isValidSignature(bytes32,bytes)"))
+export const EIP1271_MAGIC_VALUE = '0x1626ba7e';
+
+export const EIP1271_ABI = [
+  'function isValidSignature(bytes32 hash, bytes signature) view returns (bytes4)',
+];
+
+/**
+ * Convert a message to the form ethers signs; hex messages are signed as raw bytes
+ */
+export function toMessageBytes(message: string, encoding: MessageEncoding = 'utf8'): string | Uint8Array {
+  if (encoding === 'hex') {
+    if (!ethers.isHexString(message)) {
+      throw new Error('Message is not a valid hex string');
+    }
+    return ethers.getBytes(message);
+  }
+  return message;
+}
+
+/**
+ * Drop the EIP712Domain entry (ethers derives it from the domain) and, when a primary type
+ * is given, any type not reachable from it so ethers can infer the primary type
+ */
+export function normalizeTypes(
+  types: Record<string, Array<ethers.TypedDataField>>,
+  primaryType?: string
+): Record<string, Array<ethers.TypedDataField>> {
+  const { EIP712Domain: _domain, ...rest } = types;
+  if (!primaryType) {
+    return rest;
+  }
+  if (!rest[primaryType]) {
+    throw new Error(`Primary type ${primaryType} is not defined in types`);
+  }
+
+  const reachable: Record<string, Array<ethers.TypedDataField>> = {};
+  const visit = (name: string) => {
+    if (reachable[name] || !rest[name]) {
+      return;
+    }
+    reachable[name] = rest[name];
+    for (const field of rest[name]) {
+      visit(field.type.replace(/(\[\d*\])+$/, ''));
+    }
+  };
+  visit(primaryType);
+  return reachable;
+}
+
+/**
+ * Get the primary type of typed data that approves token spending, or undefined for any other typed data
+ */
+export function getPermitType(payload: TypedDataPayload): string | undefined {
+  const primaryType = payload.primaryType ?? ethers.TypedDataEncoder.getPrimaryType(normalizeTypes(payload.types));
+  return PERMIT_TYPE.test(primaryType) ? primaryType : undefined;
+}
+
+/**
+ * Sign a message with personal_sign semantics
+ */
+export async function signMessage(
+  wallet: WalletSigner,
+  message: string,
+  encoding: MessageEncoding = 'utf8'
+): Promise<string> {
+  try {
+    return await wallet.signMessage(toMessageBytes(message, encoding));
+  } catch (error) {
+    throw wrapError('sign message', error);
+  }
+}
+
+/**
+ * Sign EIP-712 typed data
+ */
+export async function signTypedData(wallet: WalletSigner, payload: TypedDataPayload): Promise<string> {
+  try {
+    return await wallet.signTypedData(
+      payload.domain,
+      normalizeTypes(payload.types, payload.primaryType),
+      payload.message
+    );
+  } catch (error) {
+    throw wrapError('sign typed data', error);
+  }
+}
+
+/**
+ * Compute the digest a signature commits to, for either a message or typed data
+ */
+export function getSignatureDigest(
+  message?: string,
+  typedData?: TypedDataPayload,
+  encoding: MessageEncoding = 'utf8'
+): string {
+  if (typedData) {
+    return ethers.TypedDataEncoder.hash(
+      typedData.domain,
+      normalizeTypes(typedData.types, typedData.primaryType),
+      typedData.message
+    );
+  }
+  if (message !== undefined) {
+    return ethers.hashMessage(toMessageBytes(message, encoding));
+  }
+  throw new Error('Either message or typedData must be provided');
+}
+
+/**
+ * Recover the signer of a digest, or null if the signature is not a valid ECDSA signature
+ */
+export function recoverSigner(digest: string, signature: string): string | null {
+  try {
+    return ethers.recoverAddress(digest, signature);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Remote Signer
+ * Signs over JSON-RPC (Clef / Web3Signer style) so private keys stay outside this process
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { ethers } from 'ethers';
+
+export type WalletSigner = ethers.Wallet | ethers.HDNodeWallet | RemoteSigner;
+
+export interface RemoteSignerOptions {
+  headers?: Record<string, string>;
+  timeout?: number;
+}
+
+export class RemoteSigner extends ethers.AbstractSigner {
+  readonly address: string;
+  readonly endpoint: string;
+  private options: RemoteSignerOptions;
+  private httpClient: AxiosInstance;
+  private requestId = 0;
+
+  constructor(
+    address: string,
+    endpoint: string,
+    provider: ethers.Provider | null = null,
+    options: RemoteSignerOptions = {}
+  ) {
+    super(provider);
+    this.address = ethers.getAddress(address);
+    this.endpoint = endpoint;
+    this.options = options;
+    this.httpClient = axios.create({
+      baseURL: endpoint,
+      timeout: options.timeout ?? 60000,
+      headers: {
+        'Content-Type': 'application/json',
+        ...options.headers,
+      },
+    });
+  }
+
+  /**
+   * List the accounts a remote signer can sign for
+   */
+  static async listAccounts(endpoint: string, options: RemoteSignerOptions = {}): Promise<string[]> {
+    const probe = new RemoteSigner(ethers.ZeroAddress, endpoint, null, options);
+    const accounts = await probe.request('eth_accounts', []);
+    if (!Array.isArray(accounts)) {
+      throw new Error('Remote signer returned an invalid account list');
+    }
+    return accounts.map((account: string) => ethers.getAddress(account));
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  connect(provider: ethers.Provider | null): RemoteSigner {
+    return new RemoteSigner(this.address, this.endpoint, provider, this.options);
+  }
+
+  async signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    const resolved = await ethers.resolveProperties({
+      to: tx.to ? ethers.resolveAddress(tx.to, this.provider) : undefined,
+      from: tx.from ? ethers.resolveAddress(tx.from, this.provider) : undefined,
+    });
+
+    if (resolved.from && resolved.from.toLowerCase() !== this.address.toLowerCase()) {
+      throw new Error(`Transaction from address ${resolved.from} does not match signer ${this.address}`);
+    }
+
+    const request: Record<string, string> = { from: this.address };
+    if (resolved.to) request.to = resolved.to;
+    if (tx.data) request.data = ethers.hexlify(tx.data);
+
+    // The JSON-RPC field for gasLimit is "gas"
+    const quantities = {
+      value: tx.value,
+      gas: tx.gasLimit,
+      gasPrice: tx.gasPrice,
+      maxFeePerGas: tx.maxFeePerGas,
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+      nonce: tx.nonce,
+      chainId: tx.chainId,
+    };
+    for (const [key, value] of Object.entries(quantities)) {
+      if (value !== null && value !== undefined) {
+        request[key] = ethers.toQuantity(value);
+      }
+    }
+
+    // Web3Signer returns the raw transaction, Clef wraps it as { raw, tx }
+    const result = await this.request('eth_signTransaction', [request]);
+    const raw = typeof result === 'string' ? result : (result as { raw?: unknown } | null)?.raw;
+    if (typeof raw !== 'string' || !ethers.isHexString(raw)) {
+      throw new Error('Remote signer returned an invalid signed transaction');
+    }
+
+    const signed = ethers.Transaction.from(raw);
+    if (signed.from?.toLowerCase() !== this.address.toLowerCase()) {
+      throw new Error(`Remote signer signed with ${signed.from} instead of ${this.address}`);
+    }
+
+    return raw;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const data = typeof message === 'string' ? ethers.hexlify(ethers.toUtf8Bytes(message)) : ethers.hexlify(message);
+    return toSignature(await this.request('eth_sign', [this.address, data]));
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, Array<ethers.TypedDataField>>,
+    value: Record<string, unknown>
+  ): Promise<string> {
+    const payload = ethers.TypedDataEncoder.getPayload(domain, types, value);
+    return toSignature(await this.request('eth_signTypedData_v4', [this.address, JSON.stringify(payload)]));
+  }
+
+  private async request(method: string, params: unknown[]): Promise<unknown> {
+    try {
+      const response = await this.httpClient.post('', {
+        jsonrpc: '2.0',
+        id: ++this.requestId,
+        method,
+        params,
+      });
+
+      if (response.data?.error) {
+        throw new Error(response.data.error.message || JSON.stringify(response.data.error));
+      }
+      return response.data?.result;
+    } catch (error) {
+      throw new Error(`Remote signer request ${method} failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
+
+/**
+ * Check that a signing request returned a hex signature
+ */
+function toSignature(result: unknown): string {
+  if (typeof result !== 'string' || !ethers.isHexString(result)) {
+    throw new Error('Remote signer returned an invalid signature');
+  }
+  return result;
+}
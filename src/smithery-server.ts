@@ -2,12 +2,21 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
 import * as dotenv from 'dotenv';
+import { ethers } from 'ethers';
 
 import { RootstockClient } from './rootstock-client.js';
 import { WalletManager } from './wallet-manager.js';
-import {
-  RootstockConfig,
-} from './types.js';
+import { RemoteSigner } from './signer.js';
+import { describeSecret } from './secret-policy.js';
+import { getSignatureDigest, signMessage } from './signatures.js';
+import { SpendingPolicy } from './spending-policy.js';
+import { MAINNET_CHAIN_ID, NetworkRegistry, assertMainnetConfirmed, toRootstockConfig } from './networks.js';
+import { getRpcPoolOptionsFromEnv } from './rpc-pool.js';
+import { getHistoryOptionsFromEnv } from './transaction-history.js';
+import { getCacheOptionsFromEnv } from './cache.js';
+import { getDefaultDerivationScheme } from './derivation.js';
+import { RootstockError, toRootstockError, toToolErrorResult } from './errors.js';
+import { DecodedLog, GasSpeed, PreparedTransaction, SimulatedAction } from './types.js';
 
 // Load environment variables
 dotenv.config();
@@ -15,7 +24,9 @@ dotenv.config();
 // Configuration schema for Smithery
 export const configSchema = z.object({
   privateKey: z.string().optional().describe("Your funded private key for Rootstock testnet"),
+  network: z.string().optional().describe("Network profile (mainnet, testnet, regtest or a custom profile); overrides the settings below"),
   rpcUrl: z.string().default('https://public-node.testnet.rsk.co').describe("Rootstock RPC URL"),
+  fallbackRpcUrls: z.array(z.string()).optional().describe("Additional RPC URLs used for failover and to spread reads"),
   chainId: z.number().default(31).describe("Rootstock Chain ID"),
   networkName: z.string().default('Rootstock Testnet').describe("Network name"),
   explorerUrl: z.string().default('https://explorer.testnet.rootstock.io').describe("Block explorer URL"),
@@ -33,17 +44,29 @@ function createStatelessServer({
     version: "1.1.0",
   });
 
-  // Initialize configuration (following rootstock-mcp-server pattern)
-  const rootstockConfig: RootstockConfig = {
-    rpcUrl: config.rpcUrl,
-    chainId: config.chainId,
-    networkName: config.networkName,
-    explorerUrl: config.explorerUrl,
-    currencySymbol: config.currencySymbol,
-  };
+  // Initialize configuration: a named profile wins, otherwise the single-network settings apply
+  const networks = new NetworkRegistry({
+    network: config.network,
+    profiles: NetworkRegistry.readProfiles(process.env.ROOTSTOCK_NETWORKS),
+    overrides: {
+      rpcUrl: config.rpcUrl,
+      fallbackRpcUrls: config.fallbackRpcUrls,
+      chainId: config.chainId,
+      networkName: config.networkName,
+      explorerUrl: config.explorerUrl,
+      currencySymbol: config.currencySymbol,
+    },
+  });
+  const rootstockConfig = toRootstockConfig(networks.getActive());
 
   // Initialize clients (following rootstock-mcp-server pattern)
-  const rootstockClient = new RootstockClient(rootstockConfig);
+  const rootstockClient = new RootstockClient(
+    rootstockConfig,
+    SpendingPolicy.fromEnv(),
+    getRpcPoolOptionsFromEnv(),
+    getHistoryOptionsFromEnv(),
+    getCacheOptionsFromEnv()
+  );
   const walletManager = new WalletManager();
 
   // Import wallet from config if privateKey is provided
@@ -55,12 +78,17 @@ function createStatelessServer({
     }
   }
 
-  // Helper function to check if wallet is configured and return helpful error message
-  const getWalletWithErrorHandling = () => {
+  // Helper function to get a signing wallet; only a missing wallet gets the setup instructions, other errors keep their code
+  const getWalletWithErrorHandling = (from?: string) => {
     try {
-      return walletManager.getCurrentWallet();
+      return from ? walletManager.getWallet(from) : walletManager.getCurrentWallet();
     } catch (error) {
-      throw new Error(
+      const typed = toRootstockError(error);
+      if (typed.code !== 'WALLET_NOT_FOUND' || walletManager.getWalletCount() > 0) {
+        throw typed;
+      }
+      throw new RootstockError(
+        'WALLET_NOT_FOUND',
         `❌ No wallet configured for this operation!\n\n` +
         `To use wallet operations, you need to configure your private key:\n\n` +
         `🔧 **Via Smithery Interface (Recommended):**\n` +
@@ -70,11 +98,80 @@ function createStatelessServer({
         `🔧 **Alternative Methods:**\n` +
         `• Use 'import_wallet' tool to add your private key\n` +
         `• Set ROOTSTOCK_PRIVATE_KEY environment variable\n\n` +
-        `Original error: ${error instanceof Error ? error.message : String(error)}`
+        `Original error: ${typed.message}`,
+        { cause: error }
       );
     }
   };
 
+  // Helper function to point at track_transaction when a write returned before being mined
+  const describePending = (status?: string) =>
+    status === 'pending' ? '\n\nThe transaction has not been mined yet. Use track_transaction to follow it.' : '';
+
+  // Helper functions to list decoded arguments and events
+  const describeArgs = (args: Record<string, unknown>) =>
+    Object.entries(args)
+      .map(([name, value]) => `   ${name}: ${typeof value === 'object' ? JSON.stringify(value) : value}\n`)
+      .join('');
+
+  const describeLog = (log: DecodedLog, index: number) => {
+    const header = `${index + 1}. ${log.signature || 'Unknown event'} at ${log.address}\n`;
+    return log.args
+      ? header + describeArgs(log.args)
+      : `${header}   Topics: ${log.topics.join(', ')}\n   Data: ${log.data}\n`;
+  };
+
+  // Helper function to list the fields of a transaction prepared for offline signing
+  const describePreparedTransaction = (tx: PreparedTransaction) =>
+    `From: ${tx.from}\n` +
+    `To: ${tx.to || '(contract deployment)'}\n` +
+    `Value: ${tx.value} ${rootstockClient.getCurrencySymbol()}\n` +
+    `Data: ${tx.data}\n` +
+    `Nonce: ${tx.nonce}\n` +
+    `Gas Limit: ${tx.gasLimit}\n` +
+    `Gas Price: ${tx.gasPrice} wei\n` +
+    `Chain ID: ${tx.chainId}\n`;
+
+  // Helper function to dry-run a write tool call and describe the expected outcome
+  const simulateAction = async (
+    from: string,
+    action: SimulatedAction,
+    gasPrice?: string,
+    gasSpeed?: GasSpeed,
+    gasLimit?: string
+  ) => {
+    const simulation = await rootstockClient.simulate(from, action, gasPrice, gasSpeed, gasLimit);
+    const symbol = rootstockClient.getCurrencySymbol();
+    const target = simulation.contractAddress ? `Contract Address: ${simulation.contractAddress}` : `To: ${simulation.to}`;
+
+    let response = `Simulation ${simulation.success ? 'Succeeded' : 'Failed'} (nothing was signed or sent)\n\n` +
+      `From: ${simulation.from}\n${target}\nValue: ${simulation.value} ${symbol}\n`;
+    if (simulation.revert) {
+      response += `Revert Reason: ${simulation.revert.reason}\n`;
+    }
+    if (simulation.gasEstimate) {
+      response += `Gas Estimate: ${simulation.gasEstimate}\n` +
+        `Gas Price: ${simulation.gasPrice} wei\n` +
+        `Gas Cost: ${simulation.gasCost} ${symbol}\n`;
+    }
+    response += `Balance: ${simulation.balance} ${symbol}${simulation.sufficientFunds ? '' : ' (not enough for value and gas)'}\n`;
+    if (simulation.result) {
+      response += `\nExpected Result:\n${describeArgs(simulation.result)}`;
+    }
+    if (simulation.policyViolation) {
+      response += `\n${simulation.policyViolation}\n`;
+    }
+
+    return {
+      content: [
+        {
+          type: "text" as const,
+          text: response,
+        },
+      ],
+    };
+  };
+
   // Create Wallet Tool
   server.tool(
     "create_wallet",
@@ -89,19 +186,12 @@ function createStatelessServer({
           content: [
             {
               type: "text",
-              text: `Wallet created successfully!\n\nAddress: ${walletInfo.address}\nMnemonic: ${walletInfo.mnemonic}\n\n⚠️ IMPORTANT: Save your mnemonic phrase securely. It's the only way to recover your wallet!`,
+              text: `Wallet created successfully!\n\n${describeSecret(walletInfo)}\n\nName: ${walletInfo.name}\nAddress: ${walletInfo.address}${walletInfo.keystorePath ? `\nKeystore File: ${walletInfo.keystorePath}` : ''}`,
             },
           ],
         };
       } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error creating wallet: ${error instanceof Error ? error.message : String(error)}`,
-            },
-          ],
-        };
+        return toToolErrorResult(error);
       }
     }
   );
@@ -114,27 +204,21 @@ function createStatelessServer({
       privateKey: z.string().optional().describe("Private key to import (alternative to mnemonic)"),
       mnemonic: z.string().optional().describe("Mnemonic phrase to import (alternative to private key)"),
       name: z.string().optional().describe("Optional name for the wallet"),
+      derivationPath: z.string().optional().describe("Optional derivation path for mnemonic imports (e.g. m/44'/137'/0'/0/0 for Rootstock mainnet, m/44'/37'/0'/0/0 for testnet)"),
     },
-    async ({ privateKey, mnemonic, name }) => {
+    async ({ privateKey, mnemonic, name, derivationPath }) => {
       try {
-        const walletInfo = walletManager.importWallet(privateKey, mnemonic, name);
+        const walletInfo = walletManager.importWallet(privateKey, mnemonic, name, derivationPath);
         return {
           content: [
             {
               type: "text",
-              text: `Wallet imported successfully!\n\nAddress: ${walletInfo.address}`,
+              text: `Wallet imported successfully!\n\nName: ${walletInfo.name}\nAddress: ${walletInfo.address}${walletInfo.keystorePath ? `\nKeystore File: ${walletInfo.keystorePath}` : ''}`,
             },
           ],
         };
       } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error importing wallet: ${error instanceof Error ? error.message : String(error)}`,
-            },
-          ],
-        };
+        return toToolErrorResult(error);
       }
     }
   );
@@ -154,7 +238,112 @@ function createStatelessServer({
 
         for (const wallet of wallets) {
           const isCurrent = wallet.address.toLowerCase() === currentAddress.toLowerCase();
-          response += `${isCurrent ? '→ ' : '  '}${wallet.address}${isCurrent ? ' (current)' : ''}\n`;
+          response += `${isCurrent ? '→ ' : '  '}${wallet.name ? `${wallet.name}: ` : ''}${wallet.address}${wallet.watchOnly ? ' (watch-only)' : ''}${wallet.remoteSigner ? ' (remote signer)' : ''}${isCurrent ? ' (current)' : ''}\n`;
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: response,
+            },
+          ],
+        };
+      } catch (error) {
+        return toToolErrorResult(error);
+      }
+    }
+  );
+
+  // Add Watch-Only Wallet Tool
+  server.tool(
+    "add_watch_only_wallet",
+    "Track an address without its private key (balances and history only, no signing)",
+    {
+      address: z.string().describe("Address to watch"),
+      name: z.string().optional().describe("Optional name for the wallet"),
+    },
+    async ({ address, name }) => {
+      try {
+        const walletInfo = walletManager.addWatchOnlyWallet(address, name);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Watch-only wallet added!\n\nName: ${walletInfo.name}\nAddress: ${walletInfo.address}\n\nThis wallet can be used for balances and history but cannot sign transactions.`,
+            },
+          ],
+        };
+      } catch (error) {
+        return toToolErrorResult(error);
+      }
+    }
+  );
+
+  // Add Remote Signer Tool
+  server.tool(
+    "add_remote_signer",
+    "Add accounts held by an external JSON-RPC signer (Clef, Web3Signer); keys never enter this server",
+    {
+      endpoint: z.string().describe("Remote signer JSON-RPC URL"),
+      address: z.string().optional().describe("Account to add (defaults to every account the signer reports)"),
+      name: z.string().optional().describe("Optional name for the wallet (only when adding a single account)"),
+    },
+    async ({ endpoint, address, name }) => {
+      try {
+        const addresses = address ? [address] : await RemoteSigner.listAccounts(endpoint);
+        if (addresses.length === 0) {
+          throw new Error(`Remote signer at ${endpoint} reported no accounts`);
+        }
+
+        let response = `Remote signer added!\n\nEndpoint: ${endpoint}\n\n`;
+        for (const account of addresses) {
+          const walletInfo = walletManager.addRemoteSigner(account, endpoint, addresses.length === 1 ? name : undefined);
+          response += `${walletInfo.name}: ${walletInfo.address}\n`;
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: response,
+            },
+          ],
+        };
+      } catch (error) {
+        return toToolErrorResult(error);
+      }
+    }
+  );
+
+  // Derive Accounts Tool
+  server.tool(
+    "derive_accounts",
+    "Derive HD accounts from the mnemonic stored with a wallet",
+    {
+      address: z.string().optional().describe("Wallet whose mnemonic to use (defaults to the current wallet)"),
+      count: z.number().optional().describe("Number of accounts to derive (default: 5)"),
+      startIndex: z.number().optional().describe("First account index (default: 0)"),
+      network: z.enum(['mainnet', 'testnet', 'ethereum']).optional().describe("Derivation path preset: Rootstock mainnet (137), Rootstock testnet (37) or Ethereum (60). Defaults to the connected network"),
+      derivationPath: z.string().optional().describe("Custom base path, the account index is appended (e.g. m/44'/137'/0'/0)"),
+      addToWallets: z.boolean().optional().describe("Add the derived accounts to the available wallets (default: false)"),
+    },
+    async ({ address, count, startIndex, network, derivationPath, addToWallets }) => {
+      try {
+        const accounts = walletManager.deriveAccounts(address, {
+          count,
+          startIndex,
+          scheme: derivationPath ? undefined : network || getDefaultDerivationScheme(rootstockClient.getChainId()),
+          path: derivationPath,
+          addToWallets,
+        });
+
+        let response = `Derived Accounts (${accounts.length}):\n\n`;
+        for (const account of accounts) {
+          response += `${account.derivationPath}  ${account.address}\n`;
+        }
+        if (addToWallets) {
+          response += `\nAccounts added to available wallets.`;
         }
 
         return {
@@ -166,14 +355,38 @@ function createStatelessServer({
           ],
         };
       } catch (error) {
+        return toToolErrorResult(error);
+      }
+    }
+  );
+
+  // Unlock Keystore Tool
+  server.tool(
+    "unlock_keystore",
+    "Unlock the encrypted keystore and load the wallets saved in it",
+    {
+      passphrase: z.string().describe("Keystore passphrase"),
+    },
+    async ({ passphrase }) => {
+      try {
+        const addresses = walletManager.unlockKeystore(passphrase);
+        const status = walletManager.getKeystoreStatus();
+
+        let response = `Keystore unlocked!\n\nDirectory: ${status.directory}\nWallets Loaded: ${addresses.length}\n`;
+        for (const address of addresses) {
+          response += `  ${address}\n`;
+        }
+
         return {
           content: [
             {
               type: "text",
-              text: `Error listing wallets: ${error instanceof Error ? error.message : String(error)}`,
+              text: response,
             },
           ],
         };
+      } catch (error) {
+        return toToolErrorResult(error);
       }
     }
   );
@@ -183,11 +396,13 @@ function createStatelessServer({
     "get_balance",
     "Get the balance of a wallet address (native tokens or ERC20 tokens)",
     {
-      address: z.string().describe("Wallet address to check balance for"),
+      address: z.string().describe("Wallet address or wallet name to check balance for"),
       tokenAddress: z.string().optional().describe("Optional ERC20 token contract address"),
     },
-    async ({ address, tokenAddress }) => {
+    async ({ address: addressOrName, tokenAddress }) => {
       try {
+        const address = walletManager.resolveAddress(addressOrName);
+
         if (tokenAddress) {
           const tokenBalance = await rootstockClient.getTokenBalance(address, tokenAddress);
           return {
@@ -210,14 +425,7 @@ function createStatelessServer({
           };
         }
       } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error getting balance: ${error instanceof Error ? error.message : String(error)}`,
-            },
-          ],
-        };
+        return toToolErrorResult(error);
       }
     }
   );
@@ -227,11 +435,12 @@ function createStatelessServer({
     "get_native_balance",
     "Get the native tRBTC balance of a wallet address on Rootstock testnet",
     {
-      address: z.string().describe("Wallet address to check native balance for"),
+      address: z.string().describe("Wallet address or wallet name to check native balance for"),
     },
-    async ({ address }) => {
+    async ({ address: addressOrName }) => {
       try {
         // This tool doesn't require authentication
+        const address = walletManager.resolveAddress(addressOrName);
         const balance = await rootstockClient.getBalance(address);
         const networkInfo = await rootstockClient.getNetworkInfo();
 
@@ -244,14 +453,51 @@ function createStatelessServer({
           ],
         };
       } catch (error) {
+        return toToolErrorResult(error);
+      }
+    }
+  );
+
+  // Get Portfolio Tool
+  server.tool(
+    "get_portfolio",
+    "Get the native balance and ERC20 token balances of many addresses at once, batched through Multicall3",
+    {
+      addresses: z.array(z.string()).optional().describe("Wallet addresses or names (default: every wallet in list_wallets)"),
+      tokenAddresses: z.array(z.string()).optional().describe("ERC20 token contract addresses to read balances of"),
+    },
+    async ({ addresses: addressesOrNames, tokenAddresses }) => {
+      try {
+        const addresses = addressesOrNames && addressesOrNames.length > 0
+          ? addressesOrNames.map((address) => walletManager.resolveAddress(address))
+          : walletManager.listWallets().map((wallet) => wallet.address);
+        if (addresses.length === 0) {
+          throw new Error('No addresses given and no wallets configured');
+        }
+
+        const portfolio = await rootstockClient.getPortfolio(addresses, tokenAddresses || []);
+        const symbol = rootstockClient.getCurrencySymbol();
+        const entries = portfolio.entries.map((entry, index) => {
+          const tokens = entry.tokens.map((token) =>
+            `   ${token.symbol ? `${token.symbol} (${token.tokenAddress})` : token.tokenAddress}: ` +
+            `${token.error ? `error: ${token.error}` : token.balance}\n`
+          );
+          const native = entry.nativeError ? `error: ${entry.nativeError}` : entry.nativeBalance;
+          return `${index + 1}. ${entry.address}\n   ${symbol}: ${native}\n${tokens.join('')}`;
+        });
+
         return {
           content: [
             {
               type: "text",
-              text: `Error getting native balance: ${error instanceof Error ? error.message : String(error)}`,
+              text: `Portfolio at block ${portfolio.blockNumber}` +
+                    `${portfolio.batched ? ' (batched through Multicall3)' : ' (Multicall3 unavailable; read one by one)'}\n\n` +
+                    `${entries.join('\n')}`,
             },
           ],
         };
+      } catch (error) {
+        return toToolErrorResult(error);
       }
     }
   );
@@ -261,37 +507,35 @@ function createStatelessServer({
     "send_transaction",
     "Send native tokens or ERC20 tokens to another address",
     {
-      to: z.string().describe("Recipient address"),
+      from: z.string().optional().describe("Optional sender wallet address or name (defaults to the current wallet)"),
+      to: z.string().describe("Recipient address or wallet name"),
       amount: z.string().describe("Amount to send (in token units, not wei)"),
       tokenAddress: z.string().optional().describe("Optional ERC20 token contract address (for token transfers)"),
       gasLimit: z.string().optional().describe("Optional gas limit"),
       gasPrice: z.string().optional().describe("Optional gas price"),
+      gasSpeed: z.enum(["slow", "normal", "fast"]).optional().describe("Gas price preset from recent blocks' minimum gas price, used instead of gasPrice (default: normal)"),
+      confirmMainnet: z.boolean().optional().describe("Required to be true when the active network is Rootstock Mainnet"),
+      wait: z.boolean().optional().describe("Wait for the transaction to be mined (default true); false returns the hash immediately"),
+      confirmations: z.number().optional().describe("Blocks to wait for before returning (default 1)"),
+      simulate: z.boolean().optional().describe("Only simulate: report the expected outcome, gas cost and any revert reason without signing or sending"),
     },
-    async ({ to, amount, tokenAddress, gasLimit, gasPrice }) => {
+    async ({ from, to: recipient, amount, tokenAddress, gasLimit, gasPrice, gasSpeed, confirmMainnet, wait, confirmations, simulate }) => {
       try {
-        // Check if wallet is configured (following rootstock-mcp-server pattern)
-        let wallet;
-        try {
-          wallet = walletManager.getCurrentWallet();
-        } catch (error) {
-          return {
-            content: [
-              {
-                type: "text",
-                text: `❌ No wallet configured for transactions!\n\n` +
-                  `To send transactions, you need to configure your private key:\n\n` +
-                  `🔧 **Via Smithery Interface (Recommended):**\n` +
-                  `1. Click "Save & Connect" below\n` +
-                  `2. Enter your funded private key for Rootstock testnet\n` +
-                  `3. Example: 0x1234567890123456789012345678901234567890123456789012345678901234\n\n` +
-                  `🔧 **Alternative Methods:**\n` +
-                  `• Use 'import_wallet' tool to add your private key\n` +
-                  `• Set ROOTSTOCK_PRIVATE_KEY environment variable\n\n` +
-                  `Original error: ${error instanceof Error ? error.message : String(error)}`,
-              },
-            ],
-          };
+        if (simulate) {
+          const to = walletManager.resolveAddress(recipient);
+          return await simulateAction(
+            from ? walletManager.resolveAddress(from) : walletManager.getCurrentAddress(),
+            tokenAddress ? { type: 'token_transfer', tokenAddress, to, amount } : { type: 'transfer', to, amount },
+            gasPrice,
+            gasSpeed,
+            gasLimit
+          );
         }
+        assertMainnetConfirmed(rootstockClient.getChainId(), confirmMainnet);
+        // Check if wallet is configured (following rootstock-mcp-server pattern)
+        const wallet = getWalletWithErrorHandling(from);
+
+        const to = walletManager.resolveAddress(recipient);
 
         let result;
         if (tokenAddress) {
@@ -301,7 +545,8 @@ function createStatelessServer({
             to,
             amount,
             gasLimit,
-            gasPrice
+            gasPrice,
+            { wait, confirmations, gasSpeed }
           );
         } else {
           result = await rootstockClient.sendTransaction(
@@ -309,7 +554,8 @@ function createStatelessServer({
             to,
             amount,
             gasLimit,
-            gasPrice
+            gasPrice,
+            { wait, confirmations, gasSpeed }
           );
         }
 
@@ -317,48 +563,92 @@ function createStatelessServer({
           content: [
             {
               type: "text",
-              text: `Transaction sent successfully!\n\nHash: ${result.hash}\nFrom: ${result.from}\nTo: ${result.to}\nAmount: ${result.value}\nStatus: ${result.status}`,
+              text: `Transaction sent successfully!\n\nHash: ${result.hash}\nFrom: ${result.from}\nTo: ${result.to}\nAmount: ${result.value}\nStatus: ${result.status}${describePending(result.status)}`,
             },
           ],
         };
       } catch (error) {
+        return toToolErrorResult(error);
+      }
+    }
+  );
+
+  // Get Network Info Tool
+  server.tool(
+    "get_network_info",
+    "Get current network information and status",
+    {},
+    async () => {
+      try {
+        const networkInfo = await rootstockClient.getNetworkInfo();
         return {
           content: [
             {
               type: "text",
-              text: `Error sending transaction: ${error instanceof Error ? error.message : String(error)}`,
+              text: `Network Information:\n\nChain ID: ${networkInfo.chainId}\nNetwork: ${networkInfo.networkName}\nLatest Block: ${networkInfo.blockNumber}\nGas Price: ${networkInfo.gasPrice}\nConnected: ${networkInfo.isConnected}`,
             },
           ],
         };
+      } catch (error) {
+        return toToolErrorResult(error);
       }
     }
   );
 
-  // Get Network Info Tool
+  // Get RPC Health Tool
   server.tool(
-    "get_network_info",
-    "Get current network information and status",
+    "get_rpc_health",
+    "Check every configured RPC endpoint and report its health, latency and block height",
     {},
     async () => {
       try {
-        const networkInfo = await rootstockClient.getNetworkInfo();
+        const health = await rootstockClient.getRpcHealth();
+
+        let response = `RPC Endpoints (${health.length}):\n\n`;
+        for (const endpoint of health) {
+          response += `${endpoint.healthy ? '✅' : '❌'} ${endpoint.url}\n`;
+          response += `   Latency: ${endpoint.latencyMs !== undefined ? `${endpoint.latencyMs} ms` : 'n/a'}\n`;
+          response += `   Block: ${endpoint.blockNumber ?? 'n/a'}${endpoint.blocksBehind ? ` (${endpoint.blocksBehind} behind)` : ''}\n`;
+          if (endpoint.lastError) {
+            response += `   Last Error: ${endpoint.lastError}\n`;
+          }
+        }
+
         return {
           content: [
             {
               type: "text",
-              text: `Network Information:\n\nChain ID: ${networkInfo.chainId}\nNetwork: ${networkInfo.networkName}\nLatest Block: ${networkInfo.blockNumber}\nGas Price: ${networkInfo.gasPrice}\nConnected: ${networkInfo.isConnected}`,
+              text: response,
             },
           ],
         };
       } catch (error) {
+        return toToolErrorResult(error);
+      }
+    }
+  );
+
+  // Switch Network Tool
+  server.tool(
+    "switch_network",
+    "Switch the active network profile (mainnet, testnet, regtest or a custom profile)",
+    {
+      network: z.string().describe(`Profile id or chain ID (available: ${networks.list().map((profile) => profile.id).join(', ')})`),
+    },
+    async ({ network }) => {
+      try {
+        const profile = networks.setActive(network);
+        rootstockClient.switchNetwork(toRootstockConfig(profile));
         return {
           content: [
             {
               type: "text",
-              text: `Error getting network info: ${error instanceof Error ? error.message : String(error)}`,
+              text: `Switched to ${profile.networkName} (${profile.id})\n\nChain ID: ${profile.chainId}\nRPC URL: ${profile.rpcUrl}\nCurrency: ${profile.currencySymbol}${profile.explorerUrl ? `\nExplorer: ${profile.explorerUrl}` : ''}${profile.chainId === MAINNET_CHAIN_ID ? '\n\n⚠️ Mainnet: write tools require confirmMainnet: true' : ''}`,
             },
           ],
         };
+      } catch (error) {
+        return toToolErrorResult(error);
       }
     }
   );
@@ -366,30 +656,295 @@ function createStatelessServer({
   // Get Transaction Tool
   server.tool(
     "get_transaction",
-    "Get details of a transaction by hash",
+    "Get details of a transaction by hash, with its decoded input, events and any created contract",
     {
       hash: z.string().describe("Transaction hash"),
+      abi: z.array(z.any()).optional().describe("Optional contract ABI to decode the input and events with (ERC20 and ERC721 are built in)"),
     },
-    async ({ hash }) => {
+    async ({ hash, abi }) => {
       try {
-        const transaction = await rootstockClient.getTransaction(hash);
+        const transaction = await rootstockClient.getTransaction(hash, abi);
+
+        const recipient = transaction.contractAddress
+          ? `Contract Created: ${transaction.contractAddress}`
+          : `To: ${transaction.to || '(contract deployment)'}`;
+
+        let response = `Transaction Details:\n\nHash: ${transaction.hash}\nFrom: ${transaction.from}\n${recipient}\n` +
+          `Value: ${transaction.value} ${rootstockClient.getCurrencySymbol()}\n` +
+          `Nonce: ${transaction.nonce}\n` +
+          `Gas Used: ${transaction.gasUsed ?? 'n/a'} of ${transaction.gasLimit}\n` +
+          `Gas Price: ${transaction.gasPrice} wei\n` +
+          `Status: ${transaction.status}\n` +
+          `Block: ${transaction.blockNumber ?? 'pending'}\n`;
+        if (transaction.timestamp) {
+          response += `Timestamp: ${new Date(transaction.timestamp * 1000).toISOString()}\n`;
+        }
+        if (transaction.revert) {
+          response += `Revert Reason: ${transaction.revert.reason}\n`;
+        }
+
+        if (transaction.decodedInput) {
+          response += `\nFunction: ${transaction.decodedInput.signature}\n${describeArgs(transaction.decodedInput.args)}`;
+        } else if (transaction.to && transaction.data !== '0x') {
+          response += `\nInput Data: ${transaction.data}\n`;
+        }
+
+        if (transaction.logs && transaction.logs.length > 0) {
+          response += `\nEvents (${transaction.logs.length}):\n`;
+          transaction.logs.forEach((log, index) => {
+            response += describeLog(log, index);
+          });
+        }
+
         return {
           content: [
             {
               type: "text",
-              text: `Transaction Details:\n\nHash: ${transaction.hash}\nFrom: ${transaction.from}\nTo: ${transaction.to}\nValue: ${transaction.value}\nGas Used: ${transaction.gasUsed}\nStatus: ${transaction.status}\nBlock: ${transaction.blockNumber}`,
+              text: response,
             },
           ],
         };
       } catch (error) {
+        return toToolErrorResult(error);
+      }
+    }
+  );
+
+  // Get Transaction History Tool
+  server.tool(
+    "get_transaction_history",
+    "List native and ERC20 transfers of an address, newest first",
+    {
+      address: z.string().describe("Address or wallet name"),
+      page: z.number().optional().describe("Page number, starting at 1 (default 1)"),
+      pageSize: z.number().optional().describe("Transfers per page, up to 100 (default 20)"),
+      tokenAddress: z.string().optional().describe("Only show transfers of this ERC20 token"),
+    },
+    async ({ address: account, page, pageSize, tokenAddress }) => {
+      try {
+        const address = walletManager.resolveAddress(account);
+        const history = await rootstockClient.getTransactionHistory(address, { page, pageSize, tokenAddress });
+        const pages = Math.max(1, Math.ceil(history.totalCount / history.pageSize));
+
+        let response = `Transaction History for ${address}\n` +
+          `Page ${history.page} of ${pages} (${history.totalCount} transfers, blocks ${history.fromBlock}-${history.syncedToBlock}, via ${history.source})\n\n`;
+        for (const tx of history.transactions) {
+          const direction = tx.from.toLowerCase() === address.toLowerCase() ? 'OUT' : 'IN';
+          const asset = tx.tokenAddress ? tx.tokenSymbol || tx.tokenAddress : rootstockClient.getCurrencySymbol();
+          const time = tx.timestamp ? ` ${new Date(tx.timestamp * 1000).toISOString()}` : '';
+          response += `${direction} ${tx.value} ${asset} | block ${tx.blockNumber}${time}${tx.status === 'failed' ? ' | failed' : ''}\n` +
+            `   ${direction === 'OUT' ? `To: ${tx.to}` : `From: ${tx.from}`}\n` +
+            `   Hash: ${tx.hash}\n`;
+        }
+        if (history.transactions.length === 0) {
+          response += 'No transfers found.\n';
+        }
+        if (history.syncedToBlock !== undefined && history.latestBlock !== undefined && history.syncedToBlock < history.latestBlock) {
+          response += `\nIndexing in progress: synced to block ${history.syncedToBlock} of ${history.latestBlock}. Call again to continue.`;
+        }
+
         return {
           content: [
             {
               type: "text",
-              text: `Error getting transaction: ${error instanceof Error ? error.message : String(error)}`,
+              text: response,
             },
           ],
         };
+      } catch (error) {
+        return toToolErrorResult(error);
+      }
+    }
+  );
+
+  // Track Transaction Tool
+  server.tool(
+    "track_transaction",
+    "Check whether a transaction is pending, included or confirmed, or was dropped or replaced",
+    {
+      hash: z.string().describe("Transaction hash"),
+      confirmations: z.number().optional().describe("Blocks deep the transaction must be to count as confirmed (default 1)"),
+    },
+    async ({ hash, confirmations }) => {
+      try {
+        const result = await rootstockClient.trackTransaction(hash, confirmations || 1);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Transaction Status: ${result.status}\n\n` +
+                    `Hash: ${result.hash}\n` +
+                    `Confirmations: ${result.confirmations}/${result.requiredConfirmations}\n` +
+                    `${result.from ? `From: ${result.from}\nNonce: ${result.nonce}\n` : ''}` +
+                    `${result.blockNumber !== undefined ? `Block: ${result.blockNumber}\nGas Used: ${result.gasUsed}\n` : ''}` +
+                    `${result.replacedBy ? `Replaced By: ${result.replacedBy}\n` : ''}` +
+                    `\nTransaction Explorer: ${rootstockClient.getExplorerUrl()}/tx/${result.hash}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return toToolErrorResult(error);
+      }
+    }
+  );
+
+  const replaceTransactionSchema = {
+    hash: z.string().describe("Hash of the pending transaction"),
+    gasPrice: z.string().optional().describe("Optional gas price in wei (default: 40% above the original, or the gasSpeed preset if higher)"),
+    gasSpeed: z.enum(["slow", "normal", "fast"]).optional().describe("Gas price preset from recent blocks' minimum gas price, used instead of gasPrice (default: normal)"),
+    confirmMainnet: z.boolean().optional().describe("Required to be true when the active network is Rootstock Mainnet"),
+    wait: z.boolean().optional().describe("Wait for the original or the replacement to be mined (default true)"),
+    confirmations: z.number().optional().describe("Blocks to wait for before returning (default 1)"),
+  };
+
+  // Helper function shared by the speed-up and cancel tools; the sender's wallet signs the replacement
+  const replaceTransaction = async (
+    action: 'speed_up' | 'cancel',
+    { hash, gasPrice, gasSpeed, confirmMainnet, wait, confirmations }: {
+      hash: string;
+      gasPrice?: string;
+      gasSpeed?: GasSpeed;
+      confirmMainnet?: boolean;
+      wait?: boolean;
+      confirmations?: number;
+    }
+  ) => {
+    try {
+      assertMainnetConfirmed(rootstockClient.getChainId(), confirmMainnet);
+      const original = await rootstockClient.getTransaction(hash);
+      const wallet = walletManager.getWallet(original.from);
+      const result = await rootstockClient.replaceTransaction(wallet, hash, action, gasPrice, { wait, confirmations, gasSpeed });
+
+      const explorerUrl = rootstockClient.getExplorerUrl();
+      const winner = result.minedHash?.toLowerCase() === result.replacementHash.toLowerCase() ? 'replacement' : 'original';
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `${action === 'cancel' ? 'Cancellation' : 'Speed-up'} sent!\n\n` +
+                  `Original Transaction: ${result.originalHash}\n` +
+                  `Replacement Transaction: ${result.replacementHash}\n` +
+                  `From: ${result.from}\n` +
+                  `Nonce: ${result.nonce}\n` +
+                  `Gas Price: ${result.previousGasPrice} -> ${result.gasPrice} wei\n\n` +
+                  `${result.minedHash ? `Mined: ${result.minedHash} (${winner}) in block ${result.blockNumber}\n` : ''}` +
+                  `Status: ${result.status}` +
+                  `${result.minedHash ? `\nTransaction Explorer: ${explorerUrl}/tx/${result.minedHash}` : describePending(result.status)}`,
+          },
+        ],
+      };
+    } catch (error) {
+      return toToolErrorResult(error);
+    }
+  };
+
+  // Speed Up Transaction Tool
+  server.tool(
+    "speed_up_transaction",
+    "Resend a pending transaction with the same nonce and a higher gas price",
+    replaceTransactionSchema,
+    async (params) => replaceTransaction('speed_up', params)
+  );
+
+  // Cancel Transaction Tool
+  server.tool(
+    "cancel_transaction",
+    "Cancel a pending transaction by replacing it with a 0-value transfer to self at a higher gas price",
+    replaceTransactionSchema,
+    async (params) => replaceTransaction('cancel', params)
+  );
+
+  // Build Transaction Tool
+  server.tool(
+    "build_transaction",
+    "Build an unsigned transaction with the nonce, gas limit, gas price and chain ID filled in, for signing separately",
+    {
+      from: z.string().optional().describe("Optional sender wallet address or name (defaults to the current wallet); watch-only wallets are allowed"),
+      to: z.string().optional().describe("Recipient address or wallet name; omit to deploy the creation code in data"),
+      value: z.string().optional().describe("Optional value in the native currency (not wei)"),
+      data: z.string().optional().describe("Optional calldata or contract creation code as hex"),
+      nonce: z.number().optional().describe("Optional nonce (default: the sender's next nonce)"),
+      gasLimit: z.string().optional().describe("Optional gas limit (default: estimated)"),
+      gasPrice: z.string().optional().describe("Optional gas price in wei; rejected if below the block minimum"),
+      gasSpeed: z.enum(["slow", "normal", "fast"]).optional().describe("Gas price preset from recent blocks' minimum gas price, used instead of gasPrice (default: normal)"),
+    },
+    async ({ from, to, value, data, nonce, gasLimit, gasPrice, gasSpeed }) => {
+      try {
+        const tx = await rootstockClient.buildTransaction(
+          from ? walletManager.resolveAddress(from) : walletManager.getCurrentAddress(),
+          { to: to ? walletManager.resolveAddress(to) : undefined, value, data, nonce, gasLimit, gasPrice, gasSpeed }
+        );
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Unsigned Transaction Built (not signed or sent)\n\n${describePreparedTransaction(tx)}` +
+                    `\nUnsigned Transaction:\n${tx.unsignedTransaction}\n\n` +
+                    `Sign it with sign_transaction or an external signer, then submit it with broadcast_raw_transaction.`,
+            },
+          ],
+        };
+      } catch (error) {
+        return toToolErrorResult(error);
+      }
+    }
+  );
+
+  // Sign Transaction Tool
+  server.tool(
+    "sign_transaction",
+    "Sign an unsigned transaction with a managed wallet without broadcasting it",
+    {
+      unsignedTransaction: z.string().describe("Unsigned serialized transaction as hex, e.g. from build_transaction"),
+      from: z.string().optional().describe("Optional signing wallet address or name (defaults to the current wallet)"),
+      confirmMainnet: z.boolean().optional().describe("Required to be true when the active network is Rootstock Mainnet"),
+    },
+    async ({ unsignedTransaction, from, confirmMainnet }) => {
+      try {
+        // Only transactions for the connected chain are signed, and once signed they can be relayed anywhere
+        assertMainnetConfirmed(rootstockClient.getChainId(), confirmMainnet, 'This transaction would be signed');
+        const wallet = getWalletWithErrorHandling(from);
+        const tx = await rootstockClient.signTransaction(wallet, unsignedTransaction);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Transaction Signed (not sent)\n\nTransaction Hash: ${tx.hash}\n${describePreparedTransaction(tx)}` +
+                    `\nSigned Transaction:\n${tx.signedTransaction}\n\n` +
+                    `Submit it with broadcast_raw_transaction.`,
+            },
+          ],
+        };
+      } catch (error) {
+        return toToolErrorResult(error);
+      }
+    }
+  );
+
+  // Broadcast Raw Transaction Tool
+  server.tool(
+    "broadcast_raw_transaction",
+    "Broadcast a signed serialized transaction, wherever it was signed",
+    {
+      signedTransaction: z.string().describe("Signed serialized transaction as hex"),
+      confirmMainnet: z.boolean().optional().describe("Required to be true when the active network is Rootstock Mainnet"),
+      wait: z.boolean().optional().describe("Wait for the transaction to be mined (default true); false returns the hash immediately"),
+      confirmations: z.number().optional().describe("Blocks to wait for before returning (default 1)"),
+    },
+    async ({ signedTransaction, confirmMainnet, wait, confirmations }) => {
+      try {
+        assertMainnetConfirmed(rootstockClient.getChainId(), confirmMainnet);
+        const result = await rootstockClient.broadcastRawTransaction(signedTransaction, { wait, confirmations });
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Transaction broadcast successfully!\n\nHash: ${result.hash}\nFrom: ${result.from}\nTo: ${result.to || '(contract deployment)'}\nAmount: ${result.value}\nStatus: ${result.status}${describePending(result.status)}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return toToolErrorResult(error);
       }
     }
   );
@@ -414,14 +969,80 @@ function createStatelessServer({
           ],
         };
       } catch (error) {
+        return toToolErrorResult(error);
+      }
+    }
+  );
+
+  // Get Logs Tool
+  server.tool(
+    "get_logs",
+    "Get contract event logs by address, event or topics over a block range, decoded with an ABI",
+    {
+      address: z.union([z.string(), z.array(z.string())]).optional().describe("Contract address, or an array of addresses"),
+      event: z.string().optional().describe("Event name from the ABI, or a signature such as \"Transfer(address,address,uint256)\""),
+      topics: z.array(z.union([z.string(), z.array(z.string()), z.null()])).optional()
+        .describe("Topic filters by position; null matches anything and an array matches any of its values"),
+      abi: z.union([z.enum(["erc20", "erc721"]), z.array(z.any())]).optional()
+        .describe("ABI to decode with, or \"erc20\" / \"erc721\" (default: tries ERC20, then ERC721)"),
+      fromBlock: z.number().optional().describe("First block (default: 2000 blocks before toBlock)"),
+      toBlock: z.number().optional().describe("Last block (default: latest)"),
+    },
+    async (params) => {
+      try {
+        const result = await rootstockClient.getLogs(params);
+
+        let response = `Event Logs (${result.logs.length} in blocks ${result.fromBlock}-${result.toBlock}):\n\n`;
+        result.logs.forEach((log, index) => {
+          response += `${describeLog(log, index)}` +
+            `   Block: ${log.blockNumber} | Log Index: ${log.logIndex}\n` +
+            `   Transaction: ${log.transactionHash}\n`;
+        });
+        if (result.logs.length === 0) {
+          response += 'No logs found.\n';
+        }
+        if (result.truncated) {
+          response += `\nResult limit reached. Call again with fromBlock ${result.toBlock + 1} for more.`;
+        }
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: response,
+            },
+          ],
+        };
+      } catch (error) {
+        return toToolErrorResult(error);
+      }
+    }
+  );
+
+  // Get Gas Price Tool
+  server.tool(
+    "get_gas_price",
+    "Get slow, normal and fast gas prices based on the minimum gas price of recent blocks",
+    {},
+    async () => {
+      try {
+        const quote = await rootstockClient.getGasPrices();
+        const gwei = (value: bigint) => `${value} wei (${ethers.formatUnits(value, 'gwei')} gwei)`;
         return {
           content: [
             {
               type: "text",
-              text: `Error getting block: ${error instanceof Error ? error.message : String(error)}`,
+              text: `Gas Prices (block ${quote.blockNumber}):\n\n` +
+                    `Slow: ${gwei(quote.slow)}\n` +
+                    `Normal: ${gwei(quote.normal)}\n` +
+                    `Fast: ${gwei(quote.fast)}\n\n` +
+                    `Block Minimum: ${quote.minimumGasPrice !== undefined ? gwei(quote.minimumGasPrice) : 'not reported by this chain'}\n` +
+                    `Node Suggestion: ${gwei(quote.networkGasPrice)}`,
             },
           ],
         };
+      } catch (error) {
+        return toToolErrorResult(error);
       }
     }
   );
@@ -434,10 +1055,11 @@ function createStatelessServer({
       to: z.string().describe("Recipient address"),
       value: z.string().optional().describe("Optional value to send (in ether)"),
       data: z.string().optional().describe("Optional transaction data"),
+      gasSpeed: z.enum(["slow", "normal", "fast"]).optional().describe("Gas price preset from recent blocks' minimum gas price, used instead of gasPrice (default: normal)"),
     },
-    async ({ to, value, data }) => {
+    async ({ to, value, data, gasSpeed }) => {
       try {
-        const gasEstimate = await rootstockClient.estimateGas(to, value, data);
+        const gasEstimate = await rootstockClient.estimateGas(to, value, data, gasSpeed);
         return {
           content: [
             {
@@ -447,76 +1069,160 @@ function createStatelessServer({
           ],
         };
       } catch (error) {
+        return toToolErrorResult(error);
+      }
+    }
+  );
+
+  const typedDataSchema = {
+    domain: z.record(z.any()).describe("EIP-712 domain (name, version, chainId, verifyingContract, salt)"),
+    types: z.record(z.array(z.object({ name: z.string(), type: z.string() }))).describe("Type definitions, e.g. {\"Order\": [{\"name\": \"amount\", \"type\": \"uint256\"}]}"),
+    message: z.record(z.any()).describe("Value to sign"),
+    primaryType: z.string().optional().describe("Primary type (optional when it can be inferred from types)"),
+  };
+
+  // Sign Message Tool
+  server.tool(
+    "sign_message",
+    "Sign a message with personal_sign (EIP-191)",
+    {
+      message: z.string().describe("Message to sign"),
+      encoding: z.enum(['utf8', 'hex']).optional().describe("Message encoding; hex messages are signed as raw bytes (default: utf8)"),
+      from: z.string().optional().describe("Wallet address or name to sign with (defaults to the current wallet)"),
+    },
+    async ({ message, encoding, from }) => {
+      try {
+        const wallet = from ? walletManager.getWallet(from) : walletManager.getCurrentWallet();
+        const signature = await signMessage(wallet, message, encoding);
         return {
           content: [
             {
               type: "text",
-              text: `Error estimating gas: ${error instanceof Error ? error.message : String(error)}`,
+              text: `Message signed!\n\nSigner: ${wallet.address}\nSignature: ${signature}`,
             },
           ],
         };
+      } catch (error) {
+        return toToolErrorResult(error);
       }
     }
   );
 
-  // Set Current Wallet Tool
+  // Sign Typed Data Tool
   server.tool(
-    "set_current_wallet",
-    "Set the current active wallet for transactions",
+    "sign_typed_data",
+    "Sign EIP-712 typed data",
     {
-      address: z.string().describe("Wallet address to set as current"),
+      ...typedDataSchema,
+      from: z.string().optional().describe("Wallet address or name to sign with (defaults to the current wallet)"),
+      confirmMainnet: z.boolean().optional().describe("Required to be true when the domain chainId, or the active network if it has none, is Rootstock Mainnet"),
     },
-    async ({ address }) => {
+    async ({ domain, types, message, primaryType, from, confirmMainnet }) => {
       try {
-        // Note: WalletManager doesn't have setCurrentAddress method,
-        // this would need to be implemented or use a different approach
+        const wallet = from ? walletManager.getWallet(from) : walletManager.getCurrentWallet();
+        // A typed data signature is only valid on the chain its domain names, if it names one
+        const chainId = domain.chainId !== undefined && domain.chainId !== null ? Number(domain.chainId) : rootstockClient.getChainId();
+        assertMainnetConfirmed(chainId, confirmMainnet, 'This signature would be valid');
+        const signature = await rootstockClient.signTypedData(wallet, { domain, types, message, primaryType });
         return {
           content: [
             {
               type: "text",
-              text: `Note: Setting current wallet functionality needs to be implemented in WalletManager. Address: ${address}`,
+              text: `Typed data signed!\n\nSigner: ${wallet.address}\nSignature: ${signature}`,
             },
           ],
         };
       } catch (error) {
+        return toToolErrorResult(error);
+      }
+    }
+  );
+
+  // Verify Signature Tool
+  server.tool(
+    "verify_signature",
+    "Verify a message or EIP-712 signature, including EIP-1271 contract signatures",
+    {
+      address: z.string().describe("Expected signer address (account or EIP-1271 contract)"),
+      signature: z.string().describe("Signature to verify"),
+      message: z.string().optional().describe("Signed message (for personal_sign signatures)"),
+      encoding: z.enum(['utf8', 'hex']).optional().describe("Message encoding (default: utf8)"),
+      typedData: z.object(typedDataSchema).optional().describe("Signed typed data (for EIP-712 signatures)"),
+    },
+    async ({ address, signature, message, encoding, typedData }) => {
+      try {
+        const digest = getSignatureDigest(message, typedData, encoding);
+        const result = await rootstockClient.verifySignature(walletManager.resolveAddress(address), signature, digest);
+
+        let response = `Signature ${result.valid ? 'is valid' : 'is NOT valid'}\n\nAddress: ${result.address}`;
+        if (result.method) {
+          response += `\nMethod: ${result.method === 'eip1271' ? 'EIP-1271 contract signature' : 'ECDSA recovery'}`;
+        }
+        if (result.recoveredAddress && result.recoveredAddress !== result.address) {
+          response += `\nRecovered Signer: ${result.recoveredAddress}`;
+        }
+
         return {
           content: [
             {
               type: "text",
-              text: `Error setting current wallet: ${error instanceof Error ? error.message : String(error)}`,
+              text: response,
             },
           ],
         };
+      } catch (error) {
+        return toToolErrorResult(error);
       }
     }
   );
 
-  // Get Current Wallet Tool
+  // Set Current Wallet Tool
   server.tool(
-    "get_current_wallet",
-    "Get the current active wallet information",
-    {},
-    async () => {
+    "set_current_wallet",
+    "Set the current active wallet for transactions",
+    {
+      address: z.string().describe("Wallet address or name to set as current"),
+    },
+    async ({ address }) => {
       try {
+        walletManager.setCurrentWallet(address);
         const currentAddress = walletManager.getCurrentAddress();
-        const wallet = walletManager.getCurrentWallet();
+        const name = walletManager.getWalletName(currentAddress);
         return {
           content: [
             {
               type: "text",
-              text: `Current Wallet:\n\nAddress: ${currentAddress}\nWallet Type: ${wallet.constructor.name}`,
+              text: `Current wallet set to: ${name ? `${name} (${currentAddress})` : currentAddress}`,
             },
           ],
         };
       } catch (error) {
+        return toToolErrorResult(error);
+      }
+    }
+  );
+
+  // Get Current Wallet Tool
+  server.tool(
+    "get_current_wallet",
+    "Get the current active wallet information",
+    {},
+    async () => {
+      try {
+        const currentAddress = walletManager.getCurrentAddress();
+        const walletType = walletManager.isWatchOnly(currentAddress)
+          ? 'watch-only (cannot sign transactions)'
+          : walletManager.getCurrentWallet().constructor.name;
         return {
           content: [
             {
               type: "text",
-              text: `Error getting current wallet: ${error instanceof Error ? error.message : String(error)}`,
+              text: `Current Wallet:\n\nName: ${walletManager.getWalletName(currentAddress)}\nAddress: ${currentAddress}\nWallet Type: ${walletType}`,
             },
           ],
         };
+      } catch (error) {
+        return toToolErrorResult(error);
       }
     }
   );
@@ -533,9 +1239,24 @@ function createStatelessServer({
       mintable: z.boolean().optional().describe("Whether token should be mintable (default: false)"),
       gasLimit: z.string().optional().describe("Gas limit for deployment"),
       gasPrice: z.string().optional().describe("Gas price for deployment"),
+      gasSpeed: z.enum(["slow", "normal", "fast"]).optional().describe("Gas price preset from recent blocks' minimum gas price, used instead of gasPrice (default: normal)"),
+      confirmMainnet: z.boolean().optional().describe("Required to be true when the active network is Rootstock Mainnet"),
+      wait: z.boolean().optional().describe("Wait for the transaction to be mined (default true); false returns the hash immediately"),
+      confirmations: z.number().optional().describe("Blocks to wait for before returning (default 1)"),
+      simulate: z.boolean().optional().describe("Only simulate: report the expected outcome, gas cost and any revert reason without signing or sending"),
     },
-    async ({ name, symbol, decimals, initialSupply, mintable, gasLimit, gasPrice }) => {
+    async ({ name, symbol, decimals, initialSupply, mintable, gasLimit, gasPrice, gasSpeed, confirmMainnet, wait, confirmations, simulate }) => {
       try {
+        if (simulate) {
+          return await simulateAction(
+            walletManager.getCurrentAddress(),
+            { type: 'deploy_erc20', name, symbol, decimals: decimals || 18, initialSupply, mintable },
+            gasPrice,
+            gasSpeed,
+            gasLimit
+          );
+        }
+        assertMainnetConfirmed(rootstockClient.getChainId(), confirmMainnet);
         // Check if wallet is configured (following rootstock-mcp-server pattern)
         const wallet = getWalletWithErrorHandling();
 
@@ -547,7 +1268,8 @@ function createStatelessServer({
           initialSupply,
           mintable || false,
           gasLimit,
-          gasPrice
+          gasPrice,
+          { wait, confirmations, gasSpeed }
         );
 
         const explorerUrl = rootstockClient.getExplorerUrl();
@@ -555,7 +1277,7 @@ function createStatelessServer({
           content: [
             {
               type: "text",
-              text: `ERC20 Token Deployed Successfully!\n\n` +
+              text: `${result.status === 'pending' ? 'ERC20 Token Deployment Sent' : 'ERC20 Token Deployed Successfully!'}\n\n` +
                     `Contract Address: ${result.contractAddress}\n` +
                     `Transaction Hash: ${result.transactionHash}\n` +
                     `Token Name: ${result.name}\n` +
@@ -566,19 +1288,12 @@ function createStatelessServer({
                     `Gas Used: ${result.gasUsed || 'N/A'}\n` +
                     `Block Number: ${result.blockNumber || 'Pending'}\n\n` +
                     `Transaction Explorer: ${explorerUrl}/tx/${result.transactionHash}\n` +
-                    `Contract Explorer: ${explorerUrl}/address/${result.contractAddress}`,
+                    `Contract Explorer: ${explorerUrl}/address/${result.contractAddress}${describePending(result.status)}`,
             },
           ],
         };
       } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error deploying ERC20 token: ${error instanceof Error ? error.message : String(error)}`,
-            },
-          ],
-        };
+        return toToolErrorResult(error);
       }
     }
   );
@@ -611,14 +1326,7 @@ function createStatelessServer({
           ],
         };
       } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error getting token info: ${error instanceof Error ? error.message : String(error)}`,
-            },
-          ],
-        };
+        return toToolErrorResult(error);
       }
     }
   );
@@ -633,9 +1341,24 @@ function createStatelessServer({
       amount: z.string().describe("Amount of tokens to mint"),
       gasLimit: z.string().optional().describe("Gas limit for minting"),
       gasPrice: z.string().optional().describe("Gas price for minting"),
+      gasSpeed: z.enum(["slow", "normal", "fast"]).optional().describe("Gas price preset from recent blocks' minimum gas price, used instead of gasPrice (default: normal)"),
+      confirmMainnet: z.boolean().optional().describe("Required to be true when the active network is Rootstock Mainnet"),
+      wait: z.boolean().optional().describe("Wait for the transaction to be mined (default true); false returns the hash immediately"),
+      confirmations: z.number().optional().describe("Blocks to wait for before returning (default 1)"),
+      simulate: z.boolean().optional().describe("Only simulate: report the expected outcome, gas cost and any revert reason without signing or sending"),
     },
-    async ({ tokenAddress, to, amount, gasLimit, gasPrice }) => {
+    async ({ tokenAddress, to, amount, gasLimit, gasPrice, gasSpeed, confirmMainnet, wait, confirmations, simulate }) => {
       try {
+        if (simulate) {
+          return await simulateAction(
+            walletManager.getCurrentAddress(),
+            { type: 'mint_tokens', tokenAddress, to, amount },
+            gasPrice,
+            gasSpeed,
+            gasLimit
+          );
+        }
+        assertMainnetConfirmed(rootstockClient.getChainId(), confirmMainnet);
         // Check if wallet is configured (following rootstock-mcp-server pattern)
         const wallet = getWalletWithErrorHandling();
 
@@ -645,7 +1368,8 @@ function createStatelessServer({
           to,
           amount,
           gasLimit,
-          gasPrice
+          gasPrice,
+          { wait, confirmations, gasSpeed }
         );
 
         const explorerUrl = rootstockClient.getExplorerUrl();
@@ -653,7 +1377,7 @@ function createStatelessServer({
           content: [
             {
               type: "text",
-              text: `Tokens Minted Successfully!\n\n` +
+              text: `${result.status === 'pending' ? 'Token Mint Sent' : 'Tokens Minted Successfully!'}\n\n` +
                     `Transaction Hash: ${result.hash}\n` +
                     `Token Contract: ${tokenAddress}\n` +
                     `Recipient: ${to}\n` +
@@ -661,19 +1385,12 @@ function createStatelessServer({
                     `From: ${result.from}\n` +
                     `Gas Used: ${result.gasUsed || 'N/A'}\n` +
                     `Block Number: ${result.blockNumber || 'Pending'}\n\n` +
-                    `Transaction Explorer: ${explorerUrl}/tx/${result.hash}`,
+                    `Transaction Explorer: ${explorerUrl}/tx/${result.hash}${describePending(result.status)}`,
             },
           ],
         };
       } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error minting tokens: ${error instanceof Error ? error.message : String(error)}`,
-            },
-          ],
-        };
+        return toToolErrorResult(error);
       }
     }
   );
@@ -688,9 +1405,24 @@ function createStatelessServer({
       mintable: z.boolean().optional().describe("Whether NFT should be mintable (default: false)"),
       gasLimit: z.string().optional().describe("Gas limit for deployment"),
       gasPrice: z.string().optional().describe("Gas price for deployment"),
+      gasSpeed: z.enum(["slow", "normal", "fast"]).optional().describe("Gas price preset from recent blocks' minimum gas price, used instead of gasPrice (default: normal)"),
+      confirmMainnet: z.boolean().optional().describe("Required to be true when the active network is Rootstock Mainnet"),
+      wait: z.boolean().optional().describe("Wait for the transaction to be mined (default true); false returns the hash immediately"),
+      confirmations: z.number().optional().describe("Blocks to wait for before returning (default 1)"),
+      simulate: z.boolean().optional().describe("Only simulate: report the expected outcome, gas cost and any revert reason without signing or sending"),
     },
-    async ({ name, symbol, mintable, gasLimit, gasPrice }) => {
+    async ({ name, symbol, mintable, gasLimit, gasPrice, gasSpeed, confirmMainnet, wait, confirmations, simulate }) => {
       try {
+        if (simulate) {
+          return await simulateAction(
+            walletManager.getCurrentAddress(),
+            { type: 'deploy_erc721', name, symbol, mintable },
+            gasPrice,
+            gasSpeed,
+            gasLimit
+          );
+        }
+        assertMainnetConfirmed(rootstockClient.getChainId(), confirmMainnet);
         // Check if wallet is configured (following rootstock-mcp-server pattern)
         const wallet = getWalletWithErrorHandling();
 
@@ -700,7 +1432,8 @@ function createStatelessServer({
           symbol,
           mintable || false,
           gasLimit,
-          gasPrice
+          gasPrice,
+          { wait, confirmations, gasSpeed }
         );
 
         const explorerUrl = rootstockClient.getExplorerUrl();
@@ -708,7 +1441,7 @@ function createStatelessServer({
           content: [
             {
               type: "text",
-              text: `ERC721 NFT Contract Deployed Successfully!\n\n` +
+              text: `${result.status === 'pending' ? 'ERC721 NFT Contract Deployment Sent' : 'ERC721 NFT Contract Deployed Successfully!'}\n\n` +
                     `Contract Address: ${result.contractAddress}\n` +
                     `Transaction Hash: ${result.transactionHash}\n` +
                     `NFT Collection Name: ${result.name}\n` +
@@ -717,19 +1450,12 @@ function createStatelessServer({
                     `Gas Used: ${result.gasUsed || 'N/A'}\n` +
                     `Block Number: ${result.blockNumber || 'Pending'}\n\n` +
                     `Transaction Explorer: ${explorerUrl}/tx/${result.transactionHash}\n` +
-                    `Contract Explorer: ${explorerUrl}/address/${result.contractAddress}`,
+                    `Contract Explorer: ${explorerUrl}/address/${result.contractAddress}${describePending(result.status)}`,
             },
           ],
         };
       } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error deploying ERC721 token: ${error instanceof Error ? error.message : String(error)}`,
-            },
-          ],
-        };
+        return toToolErrorResult(error);
       }
     }
   );
@@ -764,14 +1490,7 @@ function createStatelessServer({
           ],
         };
       } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error getting NFT info: ${error instanceof Error ? error.message : String(error)}`,
-            },
-          ],
-        };
+        return toToolErrorResult(error);
       }
     }
   );
@@ -787,9 +1506,24 @@ function createStatelessServer({
       tokenURI: z.string().optional().describe("Metadata URI for the NFT (optional)"),
       gasLimit: z.string().optional().describe("Gas limit for minting"),
       gasPrice: z.string().optional().describe("Gas price for minting"),
+      gasSpeed: z.enum(["slow", "normal", "fast"]).optional().describe("Gas price preset from recent blocks' minimum gas price, used instead of gasPrice (default: normal)"),
+      confirmMainnet: z.boolean().optional().describe("Required to be true when the active network is Rootstock Mainnet"),
+      wait: z.boolean().optional().describe("Wait for the transaction to be mined (default true); false returns the hash immediately"),
+      confirmations: z.number().optional().describe("Blocks to wait for before returning (default 1)"),
+      simulate: z.boolean().optional().describe("Only simulate: report the expected outcome, gas cost and any revert reason without signing or sending"),
     },
-    async ({ tokenAddress, to, tokenId, tokenURI, gasLimit, gasPrice }) => {
+    async ({ tokenAddress, to, tokenId, tokenURI, gasLimit, gasPrice, gasSpeed, confirmMainnet, wait, confirmations, simulate }) => {
       try {
+        if (simulate) {
+          return await simulateAction(
+            walletManager.getCurrentAddress(),
+            { type: 'mint_nft', tokenAddress, to, tokenId, tokenURI },
+            gasPrice,
+            gasSpeed,
+            gasLimit
+          );
+        }
+        assertMainnetConfirmed(rootstockClient.getChainId(), confirmMainnet);
         // Check if wallet is configured (following rootstock-mcp-server pattern)
         const wallet = getWalletWithErrorHandling();
 
@@ -800,7 +1534,8 @@ function createStatelessServer({
           tokenId,
           tokenURI || '',
           gasLimit,
-          gasPrice
+          gasPrice,
+          { wait, confirmations, gasSpeed }
         );
 
         const explorerUrl = rootstockClient.getExplorerUrl();
@@ -808,7 +1543,7 @@ function createStatelessServer({
           content: [
             {
               type: "text",
-              text: `NFT Minted Successfully!\n\n` +
+              text: `${result.status === 'pending' ? 'NFT Mint Sent' : 'NFT Minted Successfully!'}\n\n` +
                     `Transaction Hash: ${result.transactionHash}\n` +
                     `NFT Contract: ${tokenAddress}\n` +
                     `Recipient: ${result.to}\n` +
@@ -817,19 +1552,57 @@ function createStatelessServer({
                     `Gas Used: ${result.gasUsed || 'N/A'}\n` +
                     `Block Number: ${result.blockNumber || 'Pending'}\n\n` +
                     `Transaction Explorer: ${explorerUrl}/tx/${result.transactionHash}\n` +
-                    `Contract Explorer: ${explorerUrl}/address/${tokenAddress}`,
+                    `Contract Explorer: ${explorerUrl}/address/${tokenAddress}${describePending(result.status)}`,
             },
           ],
         };
       } catch (error) {
+        return toToolErrorResult(error);
+      }
+    }
+  );
+
+  // Deploy Multicall Tool
+  server.tool(
+    "deploy_multicall",
+    "Deploy a Multicall3 contract for batched reads on a network that lacks one",
+    {
+      from: z.string().optional().describe("Optional deployer wallet address or name (defaults to the current wallet)"),
+      gasLimit: z.string().optional().describe("Optional gas limit"),
+      gasPrice: z.string().optional().describe("Optional gas price"),
+      gasSpeed: z.enum(["slow", "normal", "fast"]).optional().describe("Gas price preset from recent blocks' minimum gas price, used instead of gasPrice (default: normal)"),
+      confirmMainnet: z.boolean().optional().describe("Required to be true when the active network is Rootstock Mainnet"),
+      wait: z.boolean().optional().describe("Wait for the transaction to be mined (default true); false returns the hash immediately"),
+      confirmations: z.number().optional().describe("Blocks to wait for before returning (default 1)"),
+    },
+    async ({ from, gasLimit, gasPrice, gasSpeed, confirmMainnet, wait, confirmations }) => {
+      try {
+        assertMainnetConfirmed(rootstockClient.getChainId(), confirmMainnet);
+        const wallet = getWalletWithErrorHandling(from);
+        const result = await rootstockClient.deployMulticall(wallet, gasLimit, gasPrice, { wait, confirmations, gasSpeed });
+
+        // Keep using the contract after switching networks and back
+        networks.register({ ...networks.getActive(), multicallAddress: result.contractAddress });
+
         return {
           content: [
             {
               type: "text",
-              text: `Error minting NFT: ${error instanceof Error ? error.message : String(error)}`,
+              text: result.alreadyDeployed
+                ? `Multicall3 is already deployed on this network.\n\nContract Address: ${result.contractAddress}`
+                : `${result.status === 'pending' ? 'Multicall3 Deployment Sent' : 'Multicall3 Deployed Successfully!'}\n\n` +
+                  `Contract Address: ${result.contractAddress}\n` +
+                  `Transaction Hash: ${result.transactionHash}\n` +
+                  `Deployer: ${result.deployer}\n` +
+                  `Gas Used: ${result.gasUsed || 'N/A'}\n` +
+                  `Block Number: ${result.blockNumber || 'Pending'}${describePending(result.status)}\n\n` +
+                  `Batched reads on this network use it until the server restarts. ` +
+                  `Set ROOTSTOCK_MULTICALL_ADDRESS=${result.contractAddress} (or multicallAddress in the network profile) to keep using it after a restart.`,
             },
           ],
         };
+      } catch (error) {
+        return toToolErrorResult(error);
       }
     }
   );
@@ -875,7 +1648,9 @@ function createServer(options: { sessionId?: string; config?: any } = {}) {
   // Set up default configuration with Smithery config override (following rootstock pattern)
   const serverConfig: z.infer<typeof configSchema> = {
     privateKey: config?.privateKey,
+    network: config?.network,
     rpcUrl: config?.rpcUrl || 'https://public-node.testnet.rsk.co',
+    fallbackRpcUrls: config?.fallbackRpcUrls,
     chainId: config?.chainId || 31,
     networkName: config?.networkName || 'Rootstock Testnet',
     explorerUrl: config?.explorerUrl || 'https://explorer.testnet.rootstock.io',
@@ -0,0 +1,373 @@
+/**
+ * Spending Policy
+ * Per-wallet limits checked before any transaction is signed; daily totals are persisted
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { RootstockError, wrapError } from './errors.js';
+
+export interface TokenLimit {
+  /** Maximum per transfer, in token units */
+  maxPerTransaction?: string;
+  /** Maximum per UTC day, in token units */
+  dailyLimit?: string;
+}
+
+export interface WalletPolicy {
+  /** Maximum native value per transaction, in RBTC */
+  maxPerTransaction?: string;
+  /** Maximum native value per UTC day, in RBTC */
+  dailyLimit?: string;
+  /** Limits keyed by token contract address */
+  tokenLimits?: Record<string, TokenLimit>;
+  /** Addresses that may receive funds or be called */
+  allowedRecipients?: string[];
+  /** Contract methods that may be called: name, signature or selector, optionally prefixed with "<contract>:" */
+  allowedMethods?: string[];
+}
+
+export interface SpendingPolicyConfig {
+  /** Applied to wallets without their own entry */
+  defaults?: WalletPolicy;
+  /** Policies keyed by wallet address */
+  wallets?: Record<string, WalletPolicy>;
+}
+
+export interface SpendRequest {
+  from: string;
+  /** Recipient of funds or the contract being called; omitted for deployments */
+  to?: string;
+  /** Native value in wei */
+  value?: bigint;
+  /** Token recipient or spender decoded from an ERC20 call to the contract in to; also checked against allowedRecipients */
+  payee?: string;
+  token?: {
+    address: string;
+    amount: bigint;
+    decimals: number;
+  };
+  /** Contract method being called; deployments use the name "deploy" */
+  method?: {
+    name: string;
+    signature?: string;
+    selector?: string;
+  };
+}
+
+export interface TokenCall {
+  method: 'transfer' | 'transferFrom' | 'approve';
+  /** Recipient of a transfer or the approved spender */
+  payee: string;
+  amount: bigint;
+}
+
+// Calls that move or expose a wallet's tokens, so the token limits apply to them whichever tool sent them
+const TOKEN_CALLS = new ethers.Interface([
+  'function transfer(address to, uint256 amount)',
+  'function transferFrom(address from, address to, uint256 amount)',
+  'function approve(address spender, uint256 amount)',
+]);
+
+/**
+ * Decode ERC20 transfer, transferFrom and approve calldata; other calldata returns undefined
+ */
+export function decodeTokenCall(data: string): TokenCall | undefined {
+  let parsed: ethers.TransactionDescription | null;
+  try {
+    parsed = TOKEN_CALLS.parseTransaction({ data });
+  } catch {
+    return undefined;
+  }
+  if (!parsed) {
+    return undefined;
+  }
+
+  const method = parsed.name as TokenCall['method'];
+  return {
+    method,
+    payee: method === 'transferFrom' ? parsed.args[1] : parsed.args[0],
+    amount: method === 'transferFrom' ? parsed.args[2] : parsed.args[1],
+  };
+}
+
+export interface SpendReservation {
+  id: number;
+  request: SpendRequest;
+}
+
+interface DailyTotals {
+  native: string;
+  tokens: Record<string, string>;
+}
+
+interface SpendingState {
+  day: string;
+  spent: Record<string, DailyTotals>;
+}
+
+export class SpendingPolicy {
+  private config: SpendingPolicyConfig;
+  private stateFile: string | null;
+  private state: SpendingState;
+  private pending: Map<number, SpendRequest> = new Map();
+  private nextReservationId = 1;
+
+  constructor(config: SpendingPolicyConfig, stateFile: string | null = null) {
+    this.config = SpendingPolicy.validate(config);
+    this.stateFile = stateFile ? path.resolve(stateFile) : null;
+    this.state = this.loadState();
+  }
+
+  /**
+   * Build the policy from ROOTSTOCK_SPENDING_POLICY (inline JSON or a path to a JSON file).
+   * Returns undefined when no policy is configured.
+   */
+  static fromEnv(): SpendingPolicy | undefined {
+    const source = process.env.ROOTSTOCK_SPENDING_POLICY?.trim();
+    if (!source) {
+      return undefined;
+    }
+
+    let config: SpendingPolicyConfig;
+    try {
+      config = JSON.parse(source.startsWith('{') ? source : fs.readFileSync(source, 'utf8'));
+    } catch (error) {
+      throw wrapError('read spending policy', error);
+    }
+
+    const stateFile = process.env.ROOTSTOCK_SPENDING_STATE_FILE
+      || path.join(os.homedir(), '.rootstock-mcp', 'spending-state.json');
+    return new SpendingPolicy(config, stateFile);
+  }
+
+  /**
+   * Get the policy that applies to a wallet, if any
+   */
+  getWalletPolicy(address: string): WalletPolicy | undefined {
+    const wallets = this.config.wallets || {};
+    const key = Object.keys(wallets).find((entry) => entry.toLowerCase() === address.toLowerCase());
+    return key ? wallets[key] : this.config.defaults;
+  }
+
+  /**
+   * Get today's committed totals for a wallet, formatted in RBTC and raw token units
+   */
+  getDailySpent(address: string): { native: string; tokens: Record<string, string> } {
+    this.rollDay();
+    const totals = this.state.spent[address.toLowerCase()];
+    return {
+      native: ethers.formatEther(totals?.native || '0'),
+      tokens: { ...totals?.tokens },
+    };
+  }
+
+  /**
+   * Check a request against the wallet's policy and hold its amounts until committed or released.
+   * Throws if the request would violate the policy.
+   */
+  reserve(request: SpendRequest): SpendReservation {
+    this.check(request);
+
+    const reservation = { id: this.nextReservationId++, request };
+    this.pending.set(reservation.id, request);
+    return reservation;
+  }
+
+  /**
+   * Count a reserved request toward today's totals once it has been broadcast
+   */
+  commit(reservation: SpendReservation): void {
+    if (!this.pending.delete(reservation.id)) {
+      return;
+    }
+
+    const { request } = reservation;
+    this.rollDay();
+    const key = request.from.toLowerCase();
+    const totals = this.state.spent[key] || { native: '0', tokens: {} };
+
+    if (request.value) {
+      totals.native = (BigInt(totals.native) + request.value).toString();
+    }
+    if (request.token) {
+      const token = request.token.address.toLowerCase();
+      totals.tokens[token] = (BigInt(totals.tokens[token] || '0') + request.token.amount).toString();
+    }
+
+    this.state.spent[key] = totals;
+    this.saveState();
+  }
+
+  /**
+   * Drop a reservation for a request that was never broadcast
+   */
+  release(reservation: SpendReservation): void {
+    this.pending.delete(reservation.id);
+  }
+
+  /**
+   * Refuse to sign a permit for a wallet under a policy: whoever holds the signature can spend the
+   * approved tokens, so the amount can be neither checked nor counted
+   */
+  checkPermit(from: string, primaryType: string): void {
+    if (this.getWalletPolicy(from)) {
+      throw new RootstockError(
+        'POLICY_VIOLATION',
+        `Spending policy violation for ${from}: signing ${primaryType} approvals is not allowed`
+      );
+    }
+  }
+
+  /**
+   * Check a request against the wallet's policy without reserving anything.
+   * Throws if the request would violate the policy.
+   */
+  check(request: SpendRequest): void {
+    const policy = this.getWalletPolicy(request.from);
+    if (!policy) {
+      return;
+    }
+
+    const fail = (reason: string): never => {
+      throw new RootstockError('POLICY_VIOLATION', `Spending policy violation for ${request.from}: ${reason}`);
+    };
+
+    if (policy.allowedRecipients) {
+      const allowed = policy.allowedRecipients.map((recipient) => recipient.toLowerCase());
+      for (const recipient of [request.to, request.payee]) {
+        if (recipient && !allowed.includes(recipient.toLowerCase())) {
+          fail(`recipient ${recipient} is not in the allowlist`);
+        }
+      }
+    }
+
+    if (policy.allowedMethods && request.method && !this.isMethodAllowed(policy.allowedMethods, request.method, request.to)) {
+      fail(`method ${request.method.signature || request.method.name} is not allowed`);
+    }
+
+    const value = request.value || 0n;
+    if (value > 0n) {
+      if (policy.maxPerTransaction && value > ethers.parseEther(policy.maxPerTransaction)) {
+        fail(`${ethers.formatEther(value)} exceeds the per-transaction limit of ${policy.maxPerTransaction}`);
+      }
+      if (policy.dailyLimit) {
+        const spent = this.getSpent(request.from, (pending) => pending.value || 0n);
+        if (spent + value > ethers.parseEther(policy.dailyLimit)) {
+          fail(`${ethers.formatEther(value)} would exceed the daily limit of ${policy.dailyLimit} (${ethers.formatEther(spent)} already spent today)`);
+        }
+      }
+    }
+
+    if (request.token) {
+      const { address, amount, decimals } = request.token;
+      const limitKey = Object.keys(policy.tokenLimits || {}).find((token) => token.toLowerCase() === address.toLowerCase());
+      const limit = limitKey ? policy.tokenLimits?.[limitKey] : undefined;
+
+      if (limit?.maxPerTransaction && amount > ethers.parseUnits(limit.maxPerTransaction, decimals)) {
+        fail(`${ethers.formatUnits(amount, decimals)} exceeds the per-transaction limit of ${limit.maxPerTransaction} for token ${address}`);
+      }
+      if (limit?.dailyLimit) {
+        const spent = this.getSpent(request.from, (pending) =>
+          pending.token?.address.toLowerCase() === address.toLowerCase() ? pending.token.amount : 0n,
+          address
+        );
+        if (spent + amount > ethers.parseUnits(limit.dailyLimit, decimals)) {
+          fail(`${ethers.formatUnits(amount, decimals)} would exceed the daily limit of ${limit.dailyLimit} for token ${address}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Committed plus pending amount for a wallet today, either native or for one token
+   */
+  private getSpent(from: string, pendingAmount: (request: SpendRequest) => bigint, token?: string): bigint {
+    this.rollDay();
+    const totals = this.state.spent[from.toLowerCase()];
+    let spent = BigInt((token ? totals?.tokens[token.toLowerCase()] : totals?.native) || '0');
+
+    for (const request of this.pending.values()) {
+      if (request.from.toLowerCase() === from.toLowerCase()) {
+        spent += pendingAmount(request);
+      }
+    }
+    return spent;
+  }
+
+  private isMethodAllowed(allowedMethods: string[], method: NonNullable<SpendRequest['method']>, contract?: string): boolean {
+    const candidates = [method.name, method.signature, method.selector]
+      .filter((candidate): candidate is string => !!candidate)
+      .map((candidate) => candidate.toLowerCase());
+
+    return allowedMethods.some((entry) => {
+      const separator = entry.indexOf(':');
+      const [scope, name] = separator === -1 ? [undefined, entry] : [entry.slice(0, separator), entry.slice(separator + 1)];
+      if (scope && scope.toLowerCase() !== contract?.toLowerCase()) {
+        return false;
+      }
+      return candidates.includes(name.trim().toLowerCase());
+    });
+  }
+
+  private rollDay(): void {
+    const today = new Date().toISOString().slice(0, 10);
+    if (this.state.day !== today) {
+      this.state = { day: today, spent: {} };
+    }
+  }
+
+  private loadState(): SpendingState {
+    const today = new Date().toISOString().slice(0, 10);
+    if (!this.stateFile || !fs.existsSync(this.stateFile)) {
+      return { day: today, spent: {} };
+    }
+
+    try {
+      const state = JSON.parse(fs.readFileSync(this.stateFile, 'utf8'));
+      return state?.day === today && state.spent ? state : { day: today, spent: {} };
+    } catch (error) {
+      console.warn(`Failed to read spending state ${this.stateFile}: ${error}`);
+      return { day: today, spent: {} };
+    }
+  }
+
+  private saveState(): void {
+    if (!this.stateFile) {
+      return;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.stateFile), { recursive: true, mode: 0o700 });
+      fs.writeFileSync(this.stateFile, JSON.stringify(this.state, null, 2), { mode: 0o600 });
+    } catch (error) {
+      console.warn(`Failed to save spending state ${this.stateFile}: ${error}`);
+    }
+  }
+
+  /**
+   * Parse every amount once up front so a malformed policy fails at startup, not mid-send
+   */
+  private static validate(config: SpendingPolicyConfig): SpendingPolicyConfig {
+    const policies = [config.defaults, ...Object.values(config.wallets || {})];
+    for (const policy of policies) {
+      if (!policy) continue;
+      for (const amount of [policy.maxPerTransaction, policy.dailyLimit]) {
+        if (amount !== undefined) ethers.parseEther(amount);
+      }
+      for (const [token, limit] of Object.entries(policy.tokenLimits || {})) {
+        // Shape check only: Rootstock (EIP-1191) checksums fail the Ethereum checksum test
+        if (!/^0x[0-9a-fA-F]{40}$/.test(token)) {
+          throw new Error(`Invalid token address in spending policy: ${token}`);
+        }
+        for (const amount of [limit.maxPerTransaction, limit.dailyLimit]) {
+          // Decimals are unknown until the token is used; 18 is the widest precision
+          if (amount !== undefined) ethers.parseUnits(amount, 18);
+        }
+      }
+    }
+    return config;
+  }
+}
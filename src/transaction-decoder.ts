@@ -0,0 +1,183 @@
+/**
+ * Transaction Decoder
+ * Decodes calldata, receipt logs and revert data with a supplied ABI or the built-in token ABIs
+ */
+
+import { ethers } from 'ethers';
+import { FULL_ERC20_ABI, MINTABLE_ERC721_ABI, OPENZEPPELIN_ERRORS_ABI } from './erc20-contracts.js';
+import { formatAbiValues } from './abi-values.js';
+import { decodeLog } from './event-logs.js';
+import { DecodedCall, DecodedLog, DecodedRevert } from './types.js';
+
+// ERC20 comes first: both standards share the transferFrom and approve selectors, and ERC20 calls are more common
+const KNOWN_ABIS = [FULL_ERC20_ABI, MINTABLE_ERC721_ABI, OPENZEPPELIN_ERRORS_ABI];
+
+// Error(string) and Panic(uint256), which Solidity emits for require/revert messages and failed checks
+const ERROR_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+const PANIC_REASONS: Record<number, string> = {
+  0x00: 'generic compiler panic',
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division or modulo by zero',
+  0x21: 'invalid enum value',
+  0x22: 'incorrectly encoded storage byte array',
+  0x31: 'pop on an empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory',
+  0x51: 'call to an uninitialized function',
+};
+
+/**
+ * Interfaces to decode with: the supplied ABI first, then the built-in token ABIs
+ */
+export function getKnownInterfaces(abi?: ReadonlyArray<ethers.Fragment | ethers.JsonFragment | string>): ethers.Interface[] {
+  return [...(abi ? [abi] : []), ...KNOWN_ABIS].map((definition) => new ethers.Interface(definition));
+}
+
+/**
+ * Decode transaction input with the first interface that knows its selector
+ */
+export function decodeCalldata(data: string, interfaces: ethers.Interface[]): DecodedCall | undefined {
+  if (ethers.dataLength(data) < 4) {
+    return undefined;
+  }
+
+  for (const contractInterface of interfaces) {
+    try {
+      const parsed = contractInterface.parseTransaction({ data });
+      if (parsed) {
+        return {
+          name: parsed.name,
+          signature: parsed.signature,
+          selector: parsed.selector,
+          args: formatAbiValues(parsed.fragment.inputs, parsed.args),
+        };
+      }
+    } catch {
+      // Selector matched but the arguments did not decode; try the next interface
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Decode the logs of a receipt, leaving logs of unknown events raw
+ */
+export function decodeReceiptLogs(logs: ReadonlyArray<ethers.Log>, interfaces: ethers.Interface[]): DecodedLog[] {
+  return logs.map((log) => decodeLog(log, interfaces));
+}
+
+/**
+ * Decode revert data into the Error(string) message, a described panic code or a custom error of the interfaces
+ */
+export function decodeRevertData(data: string, interfaces: ethers.Interface[]): DecodedRevert {
+  if (!ethers.isHexString(data) || ethers.dataLength(data) === 0) {
+    return { reason: 'reverted without a reason', data };
+  }
+  if (ethers.dataLength(data) < 4) {
+    return { reason: `reverted with malformed data ${data}`, data };
+  }
+
+  const selector = ethers.dataSlice(data, 0, 4);
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  try {
+    if (selector === ERROR_SELECTOR) {
+      const [message] = coder.decode(['string'], ethers.dataSlice(data, 4));
+      return { reason: message, name: 'Error', signature: 'Error(string)', args: { message }, data };
+    }
+    if (selector === PANIC_SELECTOR) {
+      const code = Number(coder.decode(['uint256'], ethers.dataSlice(data, 4))[0]);
+      return {
+        reason: `panic 0x${code.toString(16).padStart(2, '0')} (${PANIC_REASONS[code] || 'unknown panic code'})`,
+        name: 'Panic',
+        signature: 'Panic(uint256)',
+        args: { code: String(code) },
+        panicCode: code,
+        data,
+      };
+    }
+  } catch {
+    // Badly encoded built-in error; fall through and report the selector
+  }
+
+  for (const contractInterface of interfaces) {
+    try {
+      const parsed = contractInterface.parseError(data);
+      if (parsed && parsed.name !== 'Error' && parsed.name !== 'Panic') {
+        const args = formatAbiValues(parsed.fragment.inputs, parsed.args);
+        const described = Object.entries(args)
+          .map(([name, value]) => `${name}=${typeof value === 'object' ? JSON.stringify(value) : value}`)
+          .join(', ');
+        return { reason: `${parsed.name}(${described})`, name: parsed.name, signature: parsed.signature, args, data };
+      }
+    } catch {
+      // Selector matched but the arguments did not decode; try the next interface
+    }
+  }
+
+  return { reason: `unknown custom error ${selector}`, data };
+}
+
+/**
+ * Find the revert data in an ethers or JSON-RPC error, which nodes and ethers nest in different places
+ */
+export function findRevertData(error: unknown, depth: number = 0): string | undefined {
+  if (!error || typeof error !== 'object' || depth > 4) {
+    return undefined;
+  }
+
+  const candidate = error as { data?: unknown; error?: unknown; info?: { error?: unknown }; cause?: unknown };
+  if (typeof candidate.data === 'string' && ethers.isHexString(candidate.data)) {
+    return candidate.data;
+  }
+  for (const nested of [candidate.data, candidate.error, candidate.info?.error, candidate.cause]) {
+    const data = findRevertData(nested, depth + 1);
+    if (data) {
+      return data;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Explain why a call or transaction reverted; undefined when the error is not a revert
+ */
+export function describeRevert(error: unknown, interfaces: ethers.Interface[]): DecodedRevert | undefined {
+  const data = findRevertData(error);
+  if (data) {
+    return decodeRevertData(data, interfaces);
+  }
+  if (ethers.isError(error, 'CALL_EXCEPTION')) {
+    // Some nodes only return the reason as text
+    return { reason: error.reason || 'reverted without a reason' };
+  }
+  return undefined;
+}
+
+/**
+ * Re-run a mined transaction as a call against the state before its block to recover its revert reason.
+ * Transactions earlier in the same block are not applied, so the replay can differ from what happened,
+ * and nodes without historical state cannot replay older blocks
+ */
+export async function replayTransaction(
+  provider: ethers.Provider,
+  tx: { from: string; to: string | null; data: string; value: bigint; gasLimit: bigint },
+  blockNumber: number,
+  interfaces: ethers.Interface[]
+): Promise<DecodedRevert | undefined> {
+  try {
+    await provider.call({
+      from: tx.from,
+      to: tx.to,
+      data: tx.data,
+      value: tx.value,
+      gasLimit: tx.gasLimit,
+      blockTag: Math.max(0, blockNumber - 1),
+    });
+    return undefined;
+  } catch (error) {
+    return describeRevert(error, interfaces);
+  }
+}
@@ -0,0 +1,414 @@
+/**
+ * Transaction History
+ * Indexes native and ERC20 transfers per address, from block scans or a Blockscout-compatible explorer API
+ */
+
+import fs from 'fs';
+import path from 'path';
+import axios, { AxiosInstance } from 'axios';
+import { ethers } from 'ethers';
+import { TransactionHistory, TransactionResponse } from './types.js';
+
+export interface TransferRecord {
+  hash: string;
+  blockNumber: number;
+  timestamp?: number;
+  from: string;
+  to: string;
+  /** Raw amount in wei or token base units */
+  value: string;
+  tokenAddress?: string;
+  tokenSymbol?: string;
+  tokenDecimals?: number;
+  /** Set for token transfers, which can share a transaction hash */
+  logIndex?: number;
+  status?: 'confirmed' | 'failed';
+}
+
+export interface HistorySource {
+  name: string;
+  /** Largest block range fetched per sync; undefined when the source can serve any range */
+  maxBlockRange?: number;
+  fetch(address: string, fromBlock: number, toBlock: number): Promise<TransferRecord[]>;
+}
+
+export interface HistoryOptions {
+  /** Directory for the per-chain history files; unset keeps history in memory */
+  directory?: string | null;
+  /** First block indexed for a new address (default: 2000 blocks back when scanning blocks, or 0 with an explorer API) */
+  startBlock?: number;
+  /** Blocks scanned per call when indexing locally; kept small so one call finishes within a tool call timeout */
+  maxBlocksPerSync?: number;
+  /** Blocks a block must be behind the head before its transfers are kept in the index */
+  finalityDepth?: number;
+}
+
+export interface HistoryQuery {
+  page?: number;
+  pageSize?: number;
+  tokenAddress?: string;
+}
+
+/** Row of an explorer txlist or tokentx response; numbers come back as strings */
+interface ExplorerTransfer {
+  hash: string;
+  blockNumber: string;
+  timeStamp: string;
+  from: string;
+  to: string;
+  value: string;
+  contractAddress?: string;
+  isError?: string;
+  txreceipt_status?: string;
+  tokenSymbol?: string;
+  tokenDecimal?: string;
+  logIndex?: string;
+}
+
+interface AddressHistory {
+  fromBlock: number;
+  syncedTo: number;
+  transfers: TransferRecord[];
+}
+
+interface HistoryState {
+  addresses: Record<string, AddressHistory>;
+}
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
+const MAX_PAGE_SIZE = 100;
+
+// How far back a new address starts when scanning blocks; it is indexed maxBlockRange blocks per call from there
+const DEFAULT_LOOKBACK_BLOCKS = 2000;
+
+/**
+ * Read history settings from ROOTSTOCK_HISTORY_DIR, ROOTSTOCK_HISTORY_START_BLOCK, ROOTSTOCK_HISTORY_MAX_BLOCKS
+ * and ROOTSTOCK_FINALITY_DEPTH. History is only written to disk when ROOTSTOCK_HISTORY_DIR is set
+ */
+export function getHistoryOptionsFromEnv(): HistoryOptions {
+  return {
+    directory: process.env.ROOTSTOCK_HISTORY_DIR || null,
+    startBlock: process.env.ROOTSTOCK_HISTORY_START_BLOCK
+      ? parseInt(process.env.ROOTSTOCK_HISTORY_START_BLOCK, 10)
+      : undefined,
+    maxBlocksPerSync: process.env.ROOTSTOCK_HISTORY_MAX_BLOCKS
+      ? parseInt(process.env.ROOTSTOCK_HISTORY_MAX_BLOCKS, 10)
+      : undefined,
+    finalityDepth: process.env.ROOTSTOCK_FINALITY_DEPTH
+      ? parseInt(process.env.ROOTSTOCK_FINALITY_DEPTH, 10)
+      : undefined,
+  };
+}
+
+/**
+ * Finds transfers by reading every block in the range and the ERC20 Transfer logs of the address
+ */
+export class BlockScanSource implements HistorySource {
+  name = 'block scan';
+  maxBlockRange: number;
+  private provider: ethers.Provider;
+  private tokens: Map<string, { symbol?: string; decimals?: number }> = new Map();
+
+  constructor(provider: ethers.Provider, maxBlockRange: number = 200) {
+    this.provider = provider;
+    this.maxBlockRange = maxBlockRange;
+  }
+
+  async fetch(address: string, fromBlock: number, toBlock: number): Promise<TransferRecord[]> {
+    const account = address.toLowerCase();
+    const timestamps = new Map<number, number>();
+    const transfers: TransferRecord[] = [];
+
+    // Native transfers have no logs, so every block has to be read
+    for (let start = fromBlock; start <= toBlock; start += 10) {
+      const numbers = Array.from({ length: Math.min(10, toBlock - start + 1) }, (_, index) => start + index);
+      const blocks = await Promise.all(numbers.map((number) => this.provider.getBlock(number, true)));
+
+      for (const block of blocks) {
+        if (!block) continue;
+        timestamps.set(block.number, block.timestamp);
+        for (const tx of block.prefetchedTransactions) {
+          if (tx.from.toLowerCase() !== account && tx.to?.toLowerCase() !== account) continue;
+          const receipt = await this.provider.getTransactionReceipt(tx.hash);
+          transfers.push({
+            hash: tx.hash,
+            blockNumber: block.number,
+            timestamp: block.timestamp,
+            from: tx.from,
+            to: tx.to || '',
+            value: tx.value.toString(),
+            status: receipt?.status === 0 ? 'failed' : 'confirmed',
+          });
+        }
+      }
+    }
+
+    const topic = ethers.zeroPadValue(account, 32);
+    const logs = (await Promise.all([
+      this.provider.getLogs({ fromBlock, toBlock, topics: [TRANSFER_TOPIC, topic] }),
+      this.provider.getLogs({ fromBlock, toBlock, topics: [TRANSFER_TOPIC, null, topic] }),
+    ])).flat();
+
+    for (const log of logs) {
+      // ERC721 transfers share the event signature but index the token ID as well
+      if (log.topics.length !== 3) continue;
+      const token = await this.getToken(log.address);
+      transfers.push({
+        hash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        timestamp: timestamps.get(log.blockNumber),
+        from: ethers.getAddress(ethers.dataSlice(log.topics[1], 12)),
+        to: ethers.getAddress(ethers.dataSlice(log.topics[2], 12)),
+        value: BigInt(log.data).toString(),
+        tokenAddress: log.address,
+        tokenSymbol: token.symbol,
+        tokenDecimals: token.decimals,
+        logIndex: log.index,
+        status: 'confirmed',
+      });
+    }
+
+    return transfers;
+  }
+
+  private async getToken(address: string): Promise<{ symbol?: string; decimals?: number }> {
+    const key = address.toLowerCase();
+    if (!this.tokens.has(key)) {
+      const contract = new ethers.Contract(
+        address,
+        ['function symbol() view returns (string)', 'function decimals() view returns (uint8)'],
+        this.provider
+      );
+      const [symbol, decimals] = await Promise.all([
+        contract.symbol().catch(() => undefined),
+        contract.decimals().catch(() => undefined),
+      ]);
+      this.tokens.set(key, { symbol, decimals: decimals !== undefined ? Number(decimals) : undefined });
+    }
+    return this.tokens.get(key) || {};
+  }
+}
+
+/**
+ * Reads transfers from a Blockscout (Etherscan-compatible) account API
+ */
+export class ExplorerApiSource implements HistorySource {
+  name = 'explorer API';
+  private httpClient: AxiosInstance;
+  private pageSize: number;
+  private maxPages: number;
+
+  constructor(baseUrl: string, pageSize: number = 1000, maxPages: number = 10) {
+    this.httpClient = axios.create({ baseURL: baseUrl, timeout: 30000 });
+    this.pageSize = pageSize;
+    this.maxPages = maxPages;
+  }
+
+  async fetch(address: string, fromBlock: number, toBlock: number): Promise<TransferRecord[]> {
+    const [transactions, tokenTransfers] = await Promise.all([
+      this.list('txlist', address, fromBlock, toBlock),
+      this.list('tokentx', address, fromBlock, toBlock),
+    ]);
+
+    return [
+      ...transactions.map((tx): TransferRecord => ({
+        hash: tx.hash,
+        blockNumber: Number(tx.blockNumber),
+        timestamp: Number(tx.timeStamp),
+        from: tx.from,
+        to: tx.to || tx.contractAddress || '',
+        value: tx.value,
+        status: tx.isError === '1' || tx.txreceipt_status === '0' ? 'failed' : 'confirmed',
+      })),
+      ...tokenTransfers.map((tx): TransferRecord => ({
+        hash: tx.hash,
+        blockNumber: Number(tx.blockNumber),
+        timestamp: Number(tx.timeStamp),
+        from: tx.from,
+        to: tx.to,
+        value: tx.value,
+        tokenAddress: tx.contractAddress,
+        tokenSymbol: tx.tokenSymbol,
+        tokenDecimals: tx.tokenDecimal !== undefined ? Number(tx.tokenDecimal) : undefined,
+        logIndex: tx.logIndex !== undefined ? Number(tx.logIndex) : undefined,
+        status: 'confirmed',
+      })),
+    ];
+  }
+
+  private async list(action: string, address: string, fromBlock: number, toBlock: number): Promise<ExplorerTransfer[]> {
+    const results: ExplorerTransfer[] = [];
+    for (let page = 1; page <= this.maxPages; page++) {
+      const response = await this.httpClient.get('', {
+        params: {
+          module: 'account',
+          action,
+          address,
+          startblock: fromBlock,
+          endblock: toBlock,
+          sort: 'asc',
+          page,
+          offset: this.pageSize,
+        },
+      });
+
+      const result = response.data?.result;
+      if (!Array.isArray(result)) {
+        // "No transactions found" comes back as status 0 with an empty result
+        if (response.data?.status === '0' && /no (token )?transfers|no transactions/i.test(response.data?.message || '')) {
+          break;
+        }
+        throw new Error(`Explorer API ${action} failed: ${response.data?.message || response.data?.result || 'invalid response'}`);
+      }
+
+      results.push(...result);
+      if (result.length < this.pageSize) {
+        break;
+      }
+    }
+    return results;
+  }
+}
+
+/**
+ * Keeps the transfers of every queried address, synced up to the last final block on each query.
+ * Transfers in newer blocks are fetched on every query and never kept, so a reorg cannot leave them behind
+ */
+export class TransactionHistoryIndex {
+  private source: HistorySource;
+  private file: string | null;
+  private startBlock?: number;
+  private finalityDepth: number;
+  private state: HistoryState;
+
+  constructor(source: HistorySource, file: string | null = null, startBlock?: number, finalityDepth: number = 12) {
+    this.source = source;
+    this.file = file;
+    this.startBlock = startBlock;
+    this.finalityDepth = Math.max(0, finalityDepth);
+    this.state = this.load();
+  }
+
+  /**
+   * Bring an address up to date (bounded by the source's block range) and return one page of its transfers,
+   * newest first
+   */
+  async getHistory(address: string, latestBlock: number, query: HistoryQuery = {}): Promise<TransactionHistory> {
+    let history = await this.sync(address, latestBlock, latestBlock - this.finalityDepth);
+    if (history.syncedTo >= latestBlock - this.finalityDepth && history.syncedTo < latestBlock) {
+      const recent = await this.source.fetch(address, history.syncedTo + 1, latestBlock);
+      history = { ...history, syncedTo: latestBlock, transfers: mergeTransfers(history.transfers, recent) };
+    }
+
+    const page = Math.max(1, Math.floor(query.page || 1));
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(query.pageSize || 20)));
+    const token = query.tokenAddress?.toLowerCase();
+    const matching = token
+      ? history.transfers.filter((transfer) => transfer.tokenAddress?.toLowerCase() === token)
+      : history.transfers;
+
+    return {
+      transactions: matching.slice((page - 1) * pageSize, page * pageSize).map(toTransactionResponse),
+      totalCount: matching.length,
+      page,
+      pageSize,
+      fromBlock: history.fromBlock,
+      syncedToBlock: history.syncedTo,
+      latestBlock,
+      source: this.source.name,
+    };
+  }
+
+  /**
+   * Index the next range of an address up to finalBlock and save it
+   */
+  private async sync(address: string, latestBlock: number, finalBlock: number): Promise<AddressHistory> {
+    const key = address.toLowerCase();
+    let history = this.state.addresses[key];
+    if (!history) {
+      const lookback = this.source.maxBlockRange && Math.max(this.source.maxBlockRange, DEFAULT_LOOKBACK_BLOCKS);
+      const fromBlock = this.startBlock ?? (lookback ? Math.max(0, latestBlock - lookback + 1) : 0);
+      history = { fromBlock, syncedTo: fromBlock - 1, transfers: [] };
+    }
+
+    const fromBlock = history.syncedTo + 1;
+    if (fromBlock > finalBlock) {
+      return history;
+    }
+    const toBlock = this.source.maxBlockRange
+      ? Math.min(finalBlock, fromBlock + this.source.maxBlockRange - 1)
+      : finalBlock;
+
+    const fetched = await this.source.fetch(address, fromBlock, toBlock);
+    history = { ...history, syncedTo: toBlock, transfers: mergeTransfers(history.transfers, fetched) };
+    this.state.addresses[key] = history;
+    this.save();
+    return history;
+  }
+
+  private load(): HistoryState {
+    if (!this.file || !fs.existsSync(this.file)) {
+      return { addresses: {} };
+    }
+
+    try {
+      const state = JSON.parse(fs.readFileSync(this.file, 'utf8'));
+      return state?.addresses ? state : { addresses: {} };
+    } catch (error) {
+      console.warn(`Failed to read transaction history ${this.file}: ${error}`);
+      return { addresses: {} };
+    }
+  }
+
+  private save(): void {
+    if (!this.file) {
+      return;
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true, mode: 0o700 });
+      fs.writeFileSync(this.file, JSON.stringify(this.state), { mode: 0o600 });
+    } catch (error) {
+      console.warn(`Failed to save transaction history ${this.file}: ${error}`);
+    }
+  }
+}
+
+/**
+ * Add fetched transfers, newest first; sources can overlap a previous sync or list a transfer twice
+ */
+function mergeTransfers(transfers: TransferRecord[], fetched: TransferRecord[]): TransferRecord[] {
+  const seen = new Set(transfers.map(transferKey));
+  const added = fetched.filter((transfer) => {
+    const key = transferKey(transfer);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+
+  return [...transfers, ...added].sort(
+    (a, b) => b.blockNumber - a.blockNumber || (b.logIndex ?? -1) - (a.logIndex ?? -1)
+  );
+}
+
+function transferKey(transfer: TransferRecord): string {
+  return `${transfer.hash.toLowerCase()}:${transfer.logIndex ?? 'tx'}`;
+}
+
+function toTransactionResponse(transfer: TransferRecord): TransactionResponse {
+  const decimals = transfer.tokenAddress ? transfer.tokenDecimals : 18;
+  return {
+    hash: transfer.hash,
+    from: transfer.from,
+    to: transfer.to,
+    value: decimals !== undefined ? ethers.formatUnits(transfer.value, decimals) : transfer.value,
+    blockNumber: transfer.blockNumber,
+    timestamp: transfer.timestamp,
+    status: transfer.status,
+    tokenAddress: transfer.tokenAddress,
+    tokenSymbol: transfer.tokenSymbol,
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * Transaction Tracker
+ * Reports how far a transaction has progressed and notices dropped or replaced transactions
+ */
+
+import { ethers } from 'ethers';
+import { TransactionStatus } from './types.js';
+
+interface SentTransaction {
+  from: string;
+  nonce: number;
+  replacedBy?: string;
+}
+
+// Enough to cover transactions sent during a session without growing forever
+const MAX_REMEMBERED = 1000;
+
+export class TransactionTracker {
+  private sent: Map<string, SentTransaction> = new Map();
+  private maxScanBlocks: number;
+
+  constructor(maxScanBlocks: number = 50) {
+    this.maxScanBlocks = maxScanBlocks;
+  }
+
+  /**
+   * Remember the sender and nonce of a transaction, so it can still be
+   * tracked after nodes have dropped it from their mempool
+   */
+  record(tx: { hash: string; from: string; nonce: number }): void {
+    const key = tx.hash.toLowerCase();
+    if (this.sent.has(key)) {
+      return;
+    }
+    if (this.sent.size >= MAX_REMEMBERED) {
+      this.sent.delete(this.sent.keys().next().value as string);
+    }
+    this.sent.set(key, { from: tx.from, nonce: tx.nonce });
+  }
+
+  /**
+   * Get the status of a transaction, counting it confirmed once it is the given number of blocks deep
+   */
+  async track(provider: ethers.Provider, hash: string, confirmations: number = 1): Promise<TransactionStatus> {
+    const [tx, receipt, latest] = await Promise.all([
+      provider.getTransaction(hash),
+      provider.getTransactionReceipt(hash),
+      provider.getBlockNumber(),
+    ]);
+
+    if (tx) {
+      this.record(tx);
+    }
+    const known = this.sent.get(hash.toLowerCase());
+    const base = { hash, requiredConfirmations: confirmations, from: tx?.from ?? known?.from, nonce: tx?.nonce ?? known?.nonce };
+
+    if (receipt) {
+      const depth = Math.max(0, latest - receipt.blockNumber + 1);
+      let status: TransactionStatus['status'] = depth >= confirmations ? 'confirmed' : 'included';
+      if (receipt.status === 0) {
+        status = 'failed';
+      }
+      return {
+        ...base,
+        status,
+        confirmations: depth,
+        blockNumber: receipt.blockNumber,
+        blockHash: receipt.blockHash,
+        gasUsed: receipt.gasUsed.toString(),
+      };
+    }
+
+    if (!known) {
+      return { ...base, status: 'not_found', confirmations: 0 };
+    }
+
+    // Once the sender's nonce has moved past this transaction without it being mined, another one took its place
+    const minedNonce = await provider.getTransactionCount(known.from, 'latest');
+    if (minedNonce > known.nonce) {
+      if (await provider.getTransactionReceipt(hash)) {
+        // Mined in the meantime
+        return this.track(provider, hash, confirmations);
+      }
+      known.replacedBy = known.replacedBy || await this.findReplacement(provider, known, latest);
+      return { ...base, status: 'replaced', confirmations: 0, replacedBy: known.replacedBy };
+    }
+
+    return { ...base, status: tx ? 'pending' : 'dropped', confirmations: 0 };
+  }
+
+  /**
+   * Look through recent blocks for the transaction that used the same sender and nonce
+   */
+  private async findReplacement(provider: ethers.Provider, sent: SentTransaction, latest: number): Promise<string | undefined> {
+    for (let number = latest; number > Math.max(0, latest - this.maxScanBlocks); number--) {
+      const block = await provider.getBlock(number, true);
+      const replacement = block?.prefetchedTransactions.find(
+        (candidate) => candidate.from.toLowerCase() === sent.from.toLowerCase() && candidate.nonce === sent.nonce
+      );
+      if (replacement) {
+        return replacement.hash;
+      }
+    }
+    return undefined;
+  }
+}
@@ -2,20 +2,35 @@
  * Type definitions for Rootstock MCP Server
  */
 
+import { ethers } from 'ethers';
+
 export interface RootstockConfig {
   rpcUrl: string;
+  fallbackRpcUrls?: string[];
   chainId?: number;
   networkName?: string;
   explorerUrl?: string;
+  /** Blockscout-compatible API used for transaction history instead of scanning blocks */
+  explorerApiUrl?: string;
   currencySymbol?: string;
+  /** Multicall3 contract used to batch reads (default: the canonical deployment) */
+  multicallAddress?: string;
 }
 
 export interface WalletInfo {
   address: string;
+  name?: string;
   privateKey?: string;
   mnemonic?: string;
   publicKey?: string;
   balance?: string;
+  keystorePath?: string;
+  derivationPath?: string;
+  watchOnly?: boolean;
+  remoteSigner?: string;
+  secretLocation?: string;
+  /** Set when a new wallet's secret was neither shown nor saved, so the wallet cannot be recovered */
+  secretWarning?: string;
 }
 
 export interface TransactionRequest {
@@ -38,6 +53,147 @@ export interface TransactionResponse {
   blockHash?: string;
   timestamp?: number;
   status?: 'pending' | 'confirmed' | 'failed';
+  tokenAddress?: string;
+  tokenSymbol?: string;
+}
+
+export interface DecodedCall {
+  name: string;
+  signature: string;
+  selector: string;
+  args: Record<string, unknown>;
+}
+
+export interface DecodedRevert {
+  /** Readable reason: the Error(string) message, a described panic code or the custom error with its arguments */
+  reason: string;
+  name?: string;
+  signature?: string;
+  args?: Record<string, unknown>;
+  panicCode?: number;
+  /** Raw revert data, if the node returned any */
+  data?: string;
+}
+
+/** A write tool call, described for simulation */
+export type SimulatedAction =
+  | { type: 'transfer'; to: string; amount: string }
+  | { type: 'token_transfer'; tokenAddress: string; to: string; amount: string }
+  | {
+      type: 'contract_call';
+      contractAddress: string;
+      methodName: string;
+      parameters?: unknown[];
+      /** ABI, or a function signature such as "transfer(address,uint256)" */
+      abi?: Array<string | object> | string;
+      value?: string;
+    }
+  | { type: 'deploy_erc20'; name: string; symbol: string; decimals: number; initialSupply: string; mintable?: boolean }
+  | { type: 'mint_tokens'; tokenAddress: string; to: string; amount: string }
+  | { type: 'deploy_erc721'; name: string; symbol: string; mintable?: boolean }
+  | { type: 'mint_nft'; tokenAddress: string; to: string; tokenId: string; tokenURI?: string };
+
+export interface SimulationResult {
+  /** Whether the transaction would execute without reverting */
+  success: boolean;
+  from: string;
+  to?: string;
+  /** Address a deployment would create, assuming it is the sender's next transaction */
+  contractAddress?: string;
+  value: string;
+  gasEstimate?: string;
+  gasPrice: string;
+  /** gasEstimate × gasPrice, in the native currency */
+  gasCost?: string;
+  balance: string;
+  /** Whether the balance covers the value and gas cost */
+  sufficientFunds: boolean;
+  returnData?: string;
+  /** Return values, when the called function is known */
+  result?: Record<string, unknown>;
+  revert?: DecodedRevert;
+  /** Why the spending policy would refuse the transaction */
+  policyViolation?: string;
+}
+
+export interface TransactionDetails extends TransactionResponse {
+  nonce: number;
+  gasLimit: string;
+  data: string;
+  /** Address of the contract created by a deployment */
+  contractAddress?: string;
+  /** Set when the input matched a function of a known ABI */
+  decodedInput?: DecodedCall;
+  /** Receipt logs, decoded where the event is known; undefined while pending */
+  logs?: DecodedLog[];
+  /** Why a failed transaction reverted, found by replaying it */
+  revert?: DecodedRevert;
+}
+
+export type GasSpeed = 'slow' | 'normal' | 'fast';
+
+export interface WaitOptions {
+  /** Set to false to return as soon as the transaction is broadcast */
+  wait?: boolean;
+  /** Blocks to wait for before returning (default 1) */
+  confirmations?: number;
+}
+
+export interface SendOptions extends WaitOptions {
+  /** Gas price preset used when no explicit gas price is given */
+  gasSpeed?: GasSpeed;
+}
+
+export interface TransactionStatus {
+  hash: string;
+  status: 'pending' | 'included' | 'confirmed' | 'failed' | 'dropped' | 'replaced' | 'not_found';
+  confirmations: number;
+  requiredConfirmations: number;
+  from?: string;
+  nonce?: number;
+  blockNumber?: number;
+  blockHash?: string;
+  gasUsed?: string;
+  replacedBy?: string;
+}
+
+export interface TransactionReplacement {
+  action: 'speed_up' | 'cancel';
+  originalHash: string;
+  replacementHash: string;
+  from: string;
+  nonce: number;
+  previousGasPrice: string;
+  gasPrice: string;
+  /** Whichever of the original and the replacement was mined */
+  minedHash?: string;
+  blockNumber?: number;
+  status: 'pending' | 'confirmed' | 'failed';
+}
+
+/** A legacy transaction prepared for signing outside of send_transaction */
+export interface PreparedTransaction {
+  /** Wallet expected to sign the transaction */
+  from: string;
+  /** Omitted for deployments */
+  to?: string;
+  value: string;
+  data: string;
+  nonce: number;
+  gasLimit: string;
+  gasPrice: string;
+  chainId: number;
+}
+
+export interface UnsignedTransaction extends PreparedTransaction {
+  /** RLP-encoded unsigned transaction */
+  unsignedTransaction: string;
+}
+
+export interface SignedTransaction extends PreparedTransaction {
+  /** RLP-encoded signed transaction, ready for broadcast */
+  signedTransaction: string;
+  hash: string;
 }
 
 export interface BlockInfo {
@@ -70,10 +226,35 @@ export interface ContractCallRequest {
 }
 
 export interface ContractCallResponse {
-  result: any;
+  /** Return values keyed by output name, or by position for unnamed outputs */
+  result: Record<string, unknown>;
+  /** Signature of the function that was called */
+  signature: string;
   gasUsed?: string;
 }
 
+export interface DecodedLog {
+  address: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  topics: string[];
+  data: string;
+  /** Set when the log matched an event of the ABI */
+  event?: string;
+  signature?: string;
+  args?: Record<string, unknown>;
+}
+
+export interface LogQueryResult {
+  logs: DecodedLog[];
+  fromBlock: number;
+  /** Last block searched; lower than requested when the result was truncated */
+  toBlock: number;
+  truncated: boolean;
+}
+
 export interface TokenInfo {
   address: string;
   name: string;
@@ -90,6 +271,43 @@ export interface TokenBalance {
   name: string;
 }
 
+export interface PortfolioTokenBalance {
+  tokenAddress: string;
+  symbol?: string;
+  decimals?: number;
+  /** Formatted with the token's decimals, or in base units if it has none */
+  balance?: string;
+  /** Why the balance could not be read */
+  error?: string;
+}
+
+export interface PortfolioEntry {
+  address: string;
+  nativeBalance?: string;
+  /** Why the native balance could not be read */
+  nativeError?: string;
+  tokens: PortfolioTokenBalance[];
+}
+
+export interface Portfolio {
+  /** Block every balance was read at */
+  blockNumber: number;
+  /** Whether the reads were batched through Multicall3 rather than sent one by one */
+  batched: boolean;
+  entries: PortfolioEntry[];
+}
+
+export interface MulticallDeployment {
+  contractAddress: string;
+  /** Whether a Multicall3 contract was already deployed at the configured address */
+  alreadyDeployed: boolean;
+  transactionHash?: string;
+  deployer?: string;
+  gasUsed?: string;
+  blockNumber?: number;
+  status?: 'pending' | 'confirmed' | 'failed';
+}
+
 export interface GasEstimate {
   gasLimit: string;
   gasPrice: string;
@@ -101,6 +319,18 @@ export interface TransactionHistory {
   totalCount: number;
   page: number;
   pageSize: number;
+  /** Block range covered by the index */
+  fromBlock?: number;
+  syncedToBlock?: number;
+  latestBlock?: number;
+  source?: string;
+}
+
+export interface SignatureVerification {
+  valid: boolean;
+  address: string;
+  method?: 'ecrecover' | 'eip1271';
+  recoveredAddress?: string;
 }
 
 // MCP Tool parameter types
@@ -113,6 +343,35 @@ export interface ImportWalletParams {
   privateKey?: string;
   mnemonic?: string;
   name?: string;
+  derivationPath?: string;
+}
+
+export interface DeriveAccountsParams {
+  address?: string;
+  count?: number;
+  startIndex?: number;
+  network?: 'mainnet' | 'testnet' | 'ethereum';
+  derivationPath?: string;
+  addToWallets?: boolean;
+}
+
+export interface AddWatchOnlyWalletParams {
+  address: string;
+  name?: string;
+}
+
+export interface AddRemoteSignerParams {
+  endpoint: string;
+  address?: string;
+  name?: string;
+}
+
+export interface SwitchNetworkParams {
+  network: string;
+}
+
+export interface UnlockKeystoreParams {
+  passphrase: string;
 }
 
 export interface GetBalanceParams {
@@ -121,15 +380,61 @@ export interface GetBalanceParams {
 }
 
 export interface SendTransactionParams {
+  from?: string;
   to: string;
   amount: string;
   tokenAddress?: string;
   gasLimit?: string;
   gasPrice?: string;
+  gasSpeed?: GasSpeed;
+  confirmMainnet?: boolean;
+  wait?: boolean;
+  confirmations?: number;
+  simulate?: boolean;
 }
 
 export interface GetTransactionParams {
   hash: string;
+  abi?: Array<string | object>;
+}
+
+export interface TrackTransactionParams {
+  hash: string;
+  confirmations?: number;
+}
+
+export interface ReplaceTransactionParams {
+  hash: string;
+  gasPrice?: string;
+  gasSpeed?: GasSpeed;
+  confirmMainnet?: boolean;
+  wait?: boolean;
+  confirmations?: number;
+}
+
+export interface BuildTransactionParams {
+  from?: string;
+  /** Omit to deploy the contract creation code in data */
+  to?: string;
+  value?: string;
+  data?: string;
+  nonce?: number;
+  gasLimit?: string;
+  gasPrice?: string;
+  gasSpeed?: GasSpeed;
+}
+
+export interface SignTransactionParams {
+  unsignedTransaction: string;
+  from?: string;
+  confirmMainnet?: boolean;
+}
+
+export interface BroadcastRawTransactionParams {
+  signedTransaction: string;
+  confirmMainnet?: boolean;
+  wait?: boolean;
+  confirmations?: number;
 }
 
 export interface GetTransactionHistoryParams {
@@ -144,11 +449,36 @@ export interface GetBlockParams {
   blockHash?: string;
 }
 
+export interface GetLogsParams {
+  address?: string | string[];
+  topics?: Array<string | string[] | null>;
+  event?: string;
+  abi?: Array<string | object> | 'erc20' | 'erc721';
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+export interface GetPortfolioParams {
+  addresses?: string[];
+  tokenAddresses?: string[];
+}
+
+export interface DeployMulticallParams {
+  from?: string;
+  gasLimit?: string;
+  gasPrice?: string;
+  gasSpeed?: GasSpeed;
+  confirmMainnet?: boolean;
+  wait?: boolean;
+  confirmations?: number;
+}
+
 export interface CallContractParams {
   contractAddress: string;
   methodName: string;
   parameters?: any[];
   abi?: any[];
+  signature?: string;
 }
 
 export interface SendContractTransactionParams {
@@ -156,15 +486,49 @@ export interface SendContractTransactionParams {
   methodName: string;
   parameters?: any[];
   abi?: any[];
+  signature?: string;
   value?: string;
   gasLimit?: string;
   gasPrice?: string;
+  gasSpeed?: GasSpeed;
+  confirmMainnet?: boolean;
+  wait?: boolean;
+  confirmations?: number;
+  simulate?: boolean;
 }
 
 export interface EstimateGasParams {
   to: string;
   value?: string;
   data?: string;
+  gasSpeed?: GasSpeed;
+}
+
+// Signing Types
+export interface TypedDataParams {
+  domain: ethers.TypedDataDomain;
+  types: Record<string, Array<{ name: string; type: string }>>;
+  message: Record<string, unknown>;
+  primaryType?: string;
+}
+
+export interface SignMessageParams {
+  message: string;
+  encoding?: 'utf8' | 'hex';
+  from?: string;
+}
+
+export interface SignTypedDataParams extends TypedDataParams {
+  from?: string;
+  confirmMainnet?: boolean;
+}
+
+export interface VerifySignatureParams {
+  address: string;
+  signature: string;
+  message?: string;
+  encoding?: 'utf8' | 'hex';
+  typedData?: TypedDataParams;
 }
 
 // ERC20 Token Deployment Types
@@ -177,6 +541,11 @@ export interface DeployERC20Params {
   burnable?: boolean;
   gasLimit?: string;
   gasPrice?: string;
+  gasSpeed?: GasSpeed;
+  confirmMainnet?: boolean;
+  wait?: boolean;
+  confirmations?: number;
+  simulate?: boolean;
 }
 
 export interface ERC20DeploymentResponse {
@@ -189,6 +558,7 @@ export interface ERC20DeploymentResponse {
   deployer: string;
   gasUsed?: string;
   blockNumber?: number;
+  status?: 'pending' | 'confirmed' | 'failed';
 }
 
 export interface GetTokenInfoParams {
@@ -212,6 +582,11 @@ export interface MintTokensParams {
   amount: string;
   gasLimit?: string;
   gasPrice?: string;
+  gasSpeed?: GasSpeed;
+  confirmMainnet?: boolean;
+  wait?: boolean;
+  confirmations?: number;
+  simulate?: boolean;
 }
 
 // ERC721 NFT Deployment Types
@@ -221,6 +596,11 @@ export interface DeployERC721Params {
   mintable?: boolean;
   gasLimit?: string;
   gasPrice?: string;
+  gasSpeed?: GasSpeed;
+  confirmMainnet?: boolean;
+  wait?: boolean;
+  confirmations?: number;
+  simulate?: boolean;
 }
 
 export interface ERC721DeploymentResponse {
@@ -231,6 +611,7 @@ export interface ERC721DeploymentResponse {
   deployer: string;
   gasUsed?: string;
   blockNumber?: number;
+  status?: 'pending' | 'confirmed' | 'failed';
 }
 
 export interface GetNFTInfoParams {
@@ -255,6 +636,11 @@ export interface MintNFTParams {
   tokenURI: string;
   gasLimit?: string;
   gasPrice?: string;
+  gasSpeed?: GasSpeed;
+  confirmMainnet?: boolean;
+  wait?: boolean;
+  confirmations?: number;
+  simulate?: boolean;
 }
 
 export interface TransferNFTParams {
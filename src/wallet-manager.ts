@@ -6,13 +6,79 @@
 import { ethers } from 'ethers';
 import * as bip39 from 'bip39';
 import { WalletInfo } from './types.js';
+import { Keystore, KeystoreOptions } from './keystore.js';
+import { RemoteSigner, WalletSigner } from './signer.js';
+import { SecretPolicy, UNSAVED_SECRET_WARNING } from './secret-policy.js';
+import { DerivationScheme, deriveAccounts, resolveBasePath } from './derivation.js';
+import { RootstockError, wrapError } from './errors.js';
+
+export interface WalletManagerOptions {
+  keystoreDir?: string;
+  keystorePassphrase?: string;
+  keystoreOptions?: KeystoreOptions;
+  secretPolicy?: SecretPolicy;
+}
+
+// Anything shaped like an address is treated as one, never as a wallet name
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+export interface DeriveAccountsOptions {
+  count?: number;
+  startIndex?: number;
+  scheme?: DerivationScheme;
+  path?: string;
+  addToWallets?: boolean;
+}
 
 export class WalletManager {
-  private wallets: Map<string, ethers.Wallet | ethers.HDNodeWallet> = new Map();
+  private wallets: Map<string, WalletSigner> = new Map();
+  private watchOnly: Map<string, string> = new Map();
+  private names: Map<string, string> = new Map();
   private currentWallet: string | null = null;
+  private keystore: Keystore | null = null;
+  private keystorePassphrase: string | null = null;
+  private secretPolicy: SecretPolicy;
 
-  constructor() {
+  constructor(options: WalletManagerOptions = {}) {
+    this.secretPolicy = options.secretPolicy ?? SecretPolicy.fromEnv();
     this.loadWalletsFromEnv();
+
+    const keystoreDir = options.keystoreDir ?? process.env.ROOTSTOCK_KEYSTORE_DIR;
+    if (keystoreDir) {
+      this.keystore = new Keystore(keystoreDir, options.keystoreOptions);
+      for (const entry of this.keystore.loadWatchOnly()) {
+        try {
+          this.addWatchOnlyEntry(entry.address, this.isNameAvailable(entry.name, entry.address) ? entry.name : undefined);
+        } catch (error) {
+          console.warn(`Failed to load watch-only wallet ${entry.address}: ${error}`);
+        }
+      }
+      for (const entry of this.keystore.loadRemoteSigners()) {
+        try {
+          this.addWallet(
+            new RemoteSigner(entry.address, entry.endpoint),
+            this.isNameAvailable(entry.name, entry.address) ? entry.name : undefined
+          );
+        } catch (error) {
+          console.warn(`Failed to load remote signer ${entry.address}: ${error}`);
+        }
+      }
+
+      const passphrase = options.keystorePassphrase ?? process.env.ROOTSTOCK_KEYSTORE_PASSPHRASE;
+      if (passphrase) {
+        try {
+          this.unlockKeystore(passphrase);
+
+          // Keystore wallets can also be selected as the current wallet
+          const currentAddress = process.env.ROOTSTOCK_CURRENT_ADDRESS?.toLowerCase();
+          if (currentAddress && this.hasEntry(currentAddress)) {
+            this.currentWallet = currentAddress;
+          }
+        } catch (error) {
+          console.warn(`Failed to unlock keystore: ${error}`);
+        }
+      }
+    }
   }
 
   /**
@@ -22,6 +88,7 @@ export class WalletManager {
     const privateKeys = (process.env.ROOTSTOCK_PRIVATE_KEYS || process.env.HYPERION_PRIVATE_KEYS)?.split(',') || [];
     const addresses = (process.env.ROOTSTOCK_ADDRESSES || process.env.HYPERION_ADDRESSES)?.split(',') || [];
     const currentAddress = process.env.ROOTSTOCK_CURRENT_ADDRESS || process.env.HYPERION_CURRENT_ADDRESS;
+    const names = process.env.ROOTSTOCK_WALLET_NAMES?.split(',') || [];
 
     privateKeys.forEach((privateKey, index) => {
       const trimmedKey = privateKey.trim();
@@ -39,6 +106,7 @@ export class WalletManager {
         const wallet = new ethers.Wallet(trimmedKey);
         const address = addresses[index]?.trim() || wallet.address;
         this.wallets.set(address.toLowerCase(), wallet);
+        this.setWalletName(address, this.getConfiguredName(names[index]?.trim(), address) || this.generateWalletName());
 
         if (!this.currentWallet || address.toLowerCase() === currentAddress?.toLowerCase()) {
           this.currentWallet = address.toLowerCase();
@@ -50,40 +118,114 @@ export class WalletManager {
         }
       }
     });
+
+    // Remote signer accounts: comma-separated addresses, optionally written as name:address
+    const signerUrl = process.env.ROOTSTOCK_REMOTE_SIGNER_URL || '';
+    const signerAddresses = signerUrl ? this.parseAddressList(process.env.ROOTSTOCK_REMOTE_SIGNER_ADDRESSES) : [];
+    signerAddresses.forEach(({ name, address }) => {
+      try {
+        const signer = new RemoteSigner(address, signerUrl);
+        this.wallets.set(signer.address.toLowerCase(), signer);
+        this.setWalletName(signer.address, this.getConfiguredName(name, signer.address) || this.generateWalletName());
+        if (!this.currentWallet || address.toLowerCase() === currentAddress?.toLowerCase()) {
+          this.currentWallet = address.toLowerCase();
+        }
+      } catch (error) {
+        console.warn(`Failed to load remote signer ${address}: ${error}`);
+      }
+    });
+
+    // Watch-only wallets: comma-separated addresses, optionally written as name:address
+    this.parseAddressList(process.env.ROOTSTOCK_WATCH_ADDRESSES).forEach(({ name, address }) => {
+      try {
+        this.addWatchOnlyEntry(address, this.getConfiguredName(name, address));
+        if (!this.currentWallet || address.toLowerCase() === currentAddress?.toLowerCase()) {
+          this.currentWallet = address.toLowerCase();
+        }
+      } catch (error) {
+        console.warn(`Failed to load watch-only wallet ${address}: ${error}`);
+      }
+    });
+  }
+
+  /**
+   * Unlock the keystore and load every wallet stored in it
+   */
+  unlockKeystore(passphrase: string): string[] {
+    if (!this.keystore) {
+      throw new Error('No keystore configured. Set ROOTSTOCK_KEYSTORE_DIR to enable it');
+    }
+
+    const { entries, failed } = this.keystore.load(passphrase);
+    if (entries.length === 0 && failed.length > 0) {
+      throw new RootstockError('WALLET_LOCKED', 'Invalid keystore passphrase');
+    }
+
+    failed.forEach((file) => console.warn(`Could not decrypt keystore file: ${file}`));
+
+    this.keystorePassphrase = passphrase;
+    return entries.map(({ wallet, name }) => {
+      this.addWallet(wallet, this.isNameAvailable(name, wallet.address) ? name : undefined);
+      return wallet.address;
+    });
+  }
+
+  /**
+   * Check whether a keystore is configured and unlocked
+   */
+  getKeystoreStatus(): { configured: boolean; unlocked: boolean; directory?: string; fileCount: number } {
+    return {
+      configured: this.keystore !== null,
+      unlocked: this.keystorePassphrase !== null,
+      directory: this.keystore?.getDirectory(),
+      fileCount: this.keystore ? this.keystore.listFiles().length : 0,
+    };
   }
 
   /**
    * Create a new wallet
    */
-  createWallet(_name?: string): WalletInfo {
+  createWallet(name?: string): WalletInfo {
     try {
+      this.assertNameAvailable(name);
+      // The generated key exists nowhere else, so it must not be created where it cannot be saved
+      if (this.keystore && this.keystorePassphrase === null) {
+        throw new RootstockError(
+          'KEYSTORE_LOCKED',
+          'The keystore is locked, so a new wallet could not be saved; unlock it with unlock_keystore first'
+        );
+      }
+
       // Generate a random mnemonic
       const mnemonic = bip39.generateMnemonic();
       const wallet = ethers.Wallet.fromPhrase(mnemonic);
-      
-      // Store the wallet
-      this.wallets.set(wallet.address.toLowerCase(), wallet);
-      
-      // Set as current wallet if it's the first one
-      if (!this.currentWallet) {
-        this.currentWallet = wallet.address.toLowerCase();
-      }
+      const walletName = name || this.generateWalletName();
 
-      return {
+      // Save the secret before the wallet can be used, so a failed save leaves nothing behind
+      const keystorePath = this.persistWallet(wallet, walletName);
+      const secretLocation = this.secretPolicy.deliver(wallet);
+      this.addWallet(wallet, walletName);
+
+      const recoverable = keystorePath || secretLocation || this.secretPolicy.canReveal();
+      return this.secretPolicy.redact({
         address: wallet.address,
+        name: walletName,
         privateKey: wallet.privateKey,
         mnemonic,
         publicKey: wallet.publicKey,
-      };
+        keystorePath,
+        secretLocation,
+        ...(recoverable ? {} : { secretWarning: UNSAVED_SECRET_WARNING }),
+      });
     } catch (error) {
-      throw new Error(`Failed to create wallet: ${error}`);
+      throw wrapError('create wallet', error);
     }
   }
 
   /**
    * Import wallet from private key or mnemonic
    */
-  importWallet(privateKey?: string, mnemonic?: string, _name?: string): WalletInfo {
+  importWallet(privateKey?: string, mnemonic?: string, name?: string, derivationPath?: string): WalletInfo {
     try {
       let wallet: ethers.Wallet | ethers.HDNodeWallet;
 
@@ -93,37 +235,154 @@ export class WalletManager {
         if (!bip39.validateMnemonic(mnemonic)) {
           throw new Error('Invalid mnemonic phrase');
         }
-        wallet = ethers.Wallet.fromPhrase(mnemonic);
+        wallet = derivationPath
+          ? ethers.HDNodeWallet.fromPhrase(mnemonic, undefined, this.validateDerivationPath(derivationPath))
+          : ethers.Wallet.fromPhrase(mnemonic);
       } else {
         throw new Error('Either private key or mnemonic must be provided');
       }
 
+      this.assertNameAvailable(name, wallet.address);
+
       // Store the wallet
-      this.wallets.set(wallet.address.toLowerCase(), wallet);
-      
-      // Set as current wallet if it's the first one
-      if (!this.currentWallet) {
-        this.currentWallet = wallet.address.toLowerCase();
-      }
+      this.addWallet(wallet, name);
 
-      return {
+      return this.secretPolicy.redact({
         address: wallet.address,
+        name: this.names.get(wallet.address.toLowerCase()),
         privateKey: wallet.privateKey,
         mnemonic,
         publicKey: 'publicKey' in wallet ? (wallet as any).publicKey : undefined,
+        derivationPath: 'path' in wallet ? wallet.path || undefined : undefined,
+        keystorePath: this.persistWallet(wallet),
+      });
+    } catch (error) {
+      throw wrapError('import wallet', error);
+    }
+  }
+
+  /**
+   * Derive HD accounts from the mnemonic stored with a wallet
+   */
+  deriveAccounts(address: string | undefined, options: DeriveAccountsOptions = {}): WalletInfo[] {
+    const source = address ? this.getWallet(address) : this.getCurrentWallet();
+    if (!(source instanceof ethers.HDNodeWallet) || !source.mnemonic) {
+      throw new Error(`Wallet ${source.address} has no stored mnemonic to derive accounts from`);
+    }
+
+    const basePath = resolveBasePath(options.scheme, options.path);
+    const accounts = deriveAccounts(source.mnemonic, basePath, options.count ?? 5, options.startIndex ?? 0);
+
+    return accounts.map((account) => {
+      let keystorePath: string | undefined;
+      if (options.addToWallets) {
+        this.addWallet(account);
+        keystorePath = this.persistWallet(account);
+      }
+
+      return {
+        address: account.address,
+        name: this.names.get(account.address.toLowerCase()),
+        publicKey: account.publicKey,
+        derivationPath: account.path || undefined,
+        keystorePath,
       };
+    });
+  }
+
+  /**
+   * Register an account whose key lives in an external JSON-RPC signer
+   */
+  addRemoteSigner(address: string, endpoint: string, name?: string): WalletInfo {
+    try {
+      if (!WalletManager.isValidAddress(address)) {
+        throw new RootstockError('INVALID_ADDRESS', `Invalid address: ${address}`);
+      }
+      new URL(endpoint);
+      this.assertNameAvailable(name, address);
+
+      this.addWallet(new RemoteSigner(address, endpoint), name);
+      this.persistRemoteSigners();
+
+      return this.getWalletInfo(address);
+    } catch (error) {
+      throw wrapError('add remote signer', error);
+    }
+  }
+
+  /**
+   * Register an address without a private key so it can be tracked but never used for signing
+   */
+  addWatchOnlyWallet(address: string, name?: string): WalletInfo {
+    try {
+      if (!WalletManager.isValidAddress(address)) {
+        throw new RootstockError('INVALID_ADDRESS', `Invalid address: ${address}`);
+      }
+      if (this.wallets.has(address.toLowerCase())) {
+        throw new Error(`A signing wallet already exists for address: ${address}`);
+      }
+      this.assertNameAvailable(name, address);
+
+      this.addWatchOnlyEntry(address, name);
+      if (!this.currentWallet) {
+        this.currentWallet = address.toLowerCase();
+      }
+      this.persistWatchOnly();
+
+      return this.getWalletInfo(address);
     } catch (error) {
-      throw new Error(`Failed to import wallet: ${error}`);
+      throw wrapError('add watch-only wallet', error);
     }
   }
 
   /**
-   * Get wallet by address
+   * Check whether an address or name belongs to a watch-only wallet
    */
-  getWallet(address: string): ethers.Wallet | ethers.HDNodeWallet {
-    const wallet = this.wallets.get(address.toLowerCase());
+  isWatchOnly(address: string): boolean {
+    try {
+      return this.watchOnly.has(this.resolveAddress(address).toLowerCase());
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Resolve a wallet name to its address; addresses are returned unchanged
+   */
+  resolveAddress(addressOrName: string): string {
+    if (ADDRESS_PATTERN.test(addressOrName)) {
+      return addressOrName;
+    }
+
+    const needle = addressOrName.trim().toLowerCase();
+    for (const [address, name] of this.names) {
+      if (name.toLowerCase() === needle) {
+        return this.wallets.get(address)?.address || this.watchOnly.get(address) || address;
+      }
+    }
+
+    throw new RootstockError('WALLET_NOT_FOUND', `Wallet not found for name: ${addressOrName}`);
+  }
+
+  /**
+   * Get the name of a wallet
+   */
+  getWalletName(address: string): string | undefined {
+    return this.names.get(address.toLowerCase());
+  }
+
+  /**
+   * Get wallet by address or name
+   */
+  getWallet(address: string): WalletSigner {
+    const resolved = this.resolveAddress(address).toLowerCase();
+    if (this.watchOnly.has(resolved)) {
+      throw new RootstockError('WALLET_READ_ONLY', `Wallet ${this.watchOnly.get(resolved)} is watch-only and cannot sign transactions`);
+    }
+
+    const wallet = this.wallets.get(resolved);
     if (!wallet) {
-      throw new Error(`Wallet not found for address: ${address}`);
+      throw new RootstockError('WALLET_NOT_FOUND', `Wallet not found for address: ${address}`);
     }
     return wallet;
   }
@@ -131,21 +390,22 @@ export class WalletManager {
   /**
    * Get current wallet
    */
-  getCurrentWallet(): ethers.Wallet | ethers.HDNodeWallet {
+  getCurrentWallet(): WalletSigner {
     if (!this.currentWallet) {
-      throw new Error('No current wallet set');
+      throw new RootstockError('WALLET_NOT_FOUND', 'No current wallet set');
     }
     return this.getWallet(this.currentWallet);
   }
 
   /**
-   * Set current wallet
+   * Set current wallet by address or name
    */
   setCurrentWallet(address: string): void {
-    if (!this.wallets.has(address.toLowerCase())) {
-      throw new Error(`Wallet not found for address: ${address}`);
+    const resolved = this.resolveAddress(address).toLowerCase();
+    if (!this.hasEntry(resolved)) {
+      throw new RootstockError('WALLET_NOT_FOUND', `Wallet not found for address: ${address}`);
     }
-    this.currentWallet = address.toLowerCase();
+    this.currentWallet = resolved;
   }
 
   /**
@@ -154,25 +414,54 @@ export class WalletManager {
   listWallets(): WalletInfo[] {
     const walletList: WalletInfo[] = [];
     
-    for (const [_address, wallet] of this.wallets) {
+    for (const [address, wallet] of this.wallets) {
       walletList.push({
         address: wallet.address,
+        name: this.names.get(address),
         publicKey: 'publicKey' in wallet ? (wallet as any).publicKey : undefined,
+        remoteSigner: wallet instanceof RemoteSigner ? wallet.endpoint : undefined,
         // Don't expose private keys in list
       });
     }
 
+    for (const [addressLower, address] of this.watchOnly) {
+      walletList.push({
+        address,
+        name: this.names.get(addressLower),
+        watchOnly: true,
+      });
+    }
+
     return walletList;
   }
 
   /**
-   * Get wallet info with masked private key
+   * Get wallet info; the masked private key is only included when the secret policy allows revealing
    */
   getWalletInfo(address: string): WalletInfo {
+    const resolved = this.resolveAddress(address).toLowerCase();
+    const watchAddress = this.watchOnly.get(resolved);
+    if (watchAddress) {
+      return {
+        address: watchAddress,
+        name: this.names.get(resolved),
+        watchOnly: true,
+      };
+    }
+
     const wallet = this.getWallet(address);
+    if (wallet instanceof RemoteSigner) {
+      return {
+        address: wallet.address,
+        name: this.names.get(wallet.address.toLowerCase()),
+        remoteSigner: wallet.endpoint,
+      };
+    }
+
     return {
       address: wallet.address,
-      privateKey: this.maskPrivateKey(wallet.privateKey),
+      name: this.names.get(wallet.address.toLowerCase()),
+      privateKey: this.secretPolicy.canReveal() ? this.maskPrivateKey(wallet.privateKey) : undefined,
       publicKey: 'publicKey' in wallet ? (wallet as any).publicKey : undefined,
     };
   }
@@ -182,32 +471,44 @@ export class WalletManager {
    */
   getCurrentAddress(): string {
     if (!this.currentWallet) {
-      throw new Error('No current wallet set');
+      throw new RootstockError('WALLET_NOT_FOUND', 'No current wallet set');
     }
-    return this.wallets.get(this.currentWallet)!.address;
+    return this.wallets.get(this.currentWallet)?.address || this.watchOnly.get(this.currentWallet)!;
   }
 
   /**
-   * Check if wallet exists
+   * Check if wallet exists by address or name
    */
   hasWallet(address: string): boolean {
-    return this.wallets.has(address.toLowerCase());
+    try {
+      return this.hasEntry(this.resolveAddress(address));
+    } catch {
+      return false;
+    }
   }
 
   /**
    * Remove wallet
    */
   removeWallet(address: string): void {
-    const addressLower = address.toLowerCase();
-    if (!this.wallets.has(addressLower)) {
-      throw new Error(`Wallet not found for address: ${address}`);
+    const addressLower = this.resolveAddress(address).toLowerCase();
+    if (!this.hasEntry(addressLower)) {
+      throw new RootstockError('WALLET_NOT_FOUND', `Wallet not found for address: ${address}`);
     }
     
+    const wallet = this.wallets.get(addressLower);
     this.wallets.delete(addressLower);
+    this.names.delete(addressLower);
+    if (this.watchOnly.delete(addressLower)) {
+      this.persistWatchOnly();
+    }
+    if (wallet instanceof RemoteSigner) {
+      this.persistRemoteSigners();
+    }
     
     // If this was the current wallet, set a new current wallet
     if (this.currentWallet === addressLower) {
-      const remainingWallets = Array.from(this.wallets.keys());
+      const remainingWallets = [...this.wallets.keys(), ...this.watchOnly.keys()];
       this.currentWallet = remainingWallets.length > 0 ? remainingWallets[0] : null;
     }
   }
@@ -216,7 +517,7 @@ export class WalletManager {
    * Get wallet count
    */
   getWalletCount(): number {
-    return this.wallets.size;
+    return this.wallets.size + this.watchOnly.size;
   }
 
   /**
@@ -249,6 +550,139 @@ export class WalletManager {
     return bip39.validateMnemonic(mnemonic);
   }
 
+  /**
+   * Store a wallet in memory and make it current if it's the first one
+   */
+  private addWallet(wallet: WalletSigner, name?: string): void {
+    const replaced = this.wallets.get(wallet.address.toLowerCase());
+    this.wallets.set(wallet.address.toLowerCase(), wallet);
+
+    // A local key replaces a remote signer entry for the same address
+    if (replaced instanceof RemoteSigner && !(wallet instanceof RemoteSigner)) {
+      this.persistRemoteSigners();
+    }
+
+    // Importing the key of a watch-only address turns it into a signing wallet
+    if (this.watchOnly.delete(wallet.address.toLowerCase())) {
+      this.persistWatchOnly();
+    }
+
+    // Keep an existing name when a wallet is re-added without one
+    if (name || !this.names.has(wallet.address.toLowerCase())) {
+      this.setWalletName(wallet.address, name || this.generateWalletName());
+    }
+
+    if (!this.currentWallet) {
+      this.currentWallet = wallet.address.toLowerCase();
+    }
+  }
+
+  /**
+   * Save a wallet to the keystore if one is configured and unlocked
+   */
+  private persistWallet(
+    wallet: ethers.Wallet | ethers.HDNodeWallet,
+    name = this.names.get(wallet.address.toLowerCase())
+  ): string | undefined {
+    if (!this.keystore || this.keystorePassphrase === null) {
+      return undefined;
+    }
+    return this.keystore.save(wallet, this.keystorePassphrase, name);
+  }
+
+  /**
+   * Save the remote signer list next to the keystore files if a keystore is configured
+   */
+  private persistRemoteSigners(): void {
+    if (!this.keystore) {
+      return;
+    }
+
+    const entries = [];
+    for (const [addressLower, wallet] of this.wallets) {
+      if (wallet instanceof RemoteSigner) {
+        entries.push({ address: wallet.address, endpoint: wallet.endpoint, name: this.names.get(addressLower) });
+      }
+    }
+    this.keystore.saveRemoteSigners(entries);
+  }
+
+  /**
+   * Parse a comma-separated list of addresses, each optionally written as name:address
+   */
+  private parseAddressList(value?: string): Array<{ name?: string; address: string }> {
+    return (value?.split(',') || [])
+      .map((entry) => {
+        const [first, second] = entry.trim().split(':').map((part) => part.trim());
+        return second ? { name: first, address: second } : { address: first };
+      })
+      .filter((entry) => entry.address);
+  }
+
+  private addWatchOnlyEntry(address: string, name?: string): void {
+    const checksummed = ethers.getAddress(address);
+    this.watchOnly.set(checksummed.toLowerCase(), checksummed);
+
+    if (name || !this.names.has(checksummed.toLowerCase())) {
+      this.setWalletName(checksummed, name || this.generateWalletName());
+    }
+  }
+
+  /**
+   * Save the watch-only list next to the keystore files if a keystore is configured
+   */
+  private persistWatchOnly(): void {
+    if (!this.keystore) {
+      return;
+    }
+    this.keystore.saveWatchOnly(
+      Array.from(this.watchOnly, ([addressLower, address]) => ({ address, name: this.names.get(addressLower) }))
+    );
+  }
+
+  private hasEntry(address: string): boolean {
+    const addressLower = address.toLowerCase();
+    return this.wallets.has(addressLower) || this.watchOnly.has(addressLower);
+  }
+
+  private setWalletName(address: string, name: string): void {
+    this.names.set(address.toLowerCase(), name);
+  }
+
+  /**
+   * Check that a name is unused (or already belongs to the given address) and can't be mistaken for an address
+   */
+  private isNameAvailable(name: string | undefined, address?: string): boolean {
+    if (!name) {
+      return true;
+    }
+    if (ADDRESS_PATTERN.test(name)) {
+      return false;
+    }
+
+    const needle = name.trim().toLowerCase();
+    for (const [owner, existing] of this.names) {
+      if (existing.toLowerCase() === needle && owner !== address?.toLowerCase()) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private assertNameAvailable(name: string | undefined, address?: string): void {
+    if (!this.isNameAvailable(name, address)) {
+      throw new Error(`Wallet name is already in use or is not a valid name: ${name}`);
+    }
+  }
+
+  /**
+   * Validate a full derivation path for a single account
+   */
+  private validateDerivationPath(path: string): string {
+    resolveBasePath(undefined, path);
+    return path;
+  }
+
   /**
    * Mask private key for display
    */
@@ -257,6 +691,17 @@ export class WalletManager {
     return `${privateKey.substring(0, 6)}...${privateKey.substring(privateKey.length - 4)}`;
   }
 
+  /**
+   * Keep a configured name only if it is free; a repeated name would make resolveAddress pick whichever wallet came first
+   */
+  private getConfiguredName(name: string | undefined, address: string): string | undefined {
+    if (this.isNameAvailable(name, address)) {
+      return name;
+    }
+    console.warn(`Wallet name "${name}" for ${address} is already in use or invalid; using a generated name instead`);
+    return undefined;
+  }
+
   /**
    * Generate a random wallet name
    */
@@ -264,10 +709,14 @@ export class WalletManager {
     const adjectives = ['Swift', 'Bright', 'Noble', 'Wise', 'Bold', 'Quick', 'Strong', 'Smart'];
     const nouns = ['Wallet', 'Account', 'Vault', 'Keeper', 'Guardian', 'Holder', 'Signer'];
     
-    const adjective = adjectives[Math.floor(Math.random() * adjectives.length)];
-    const noun = nouns[Math.floor(Math.random() * nouns.length)];
-    const number = Math.floor(Math.random() * 1000);
-    
-    return `${adjective}${noun}${number}`;
+    let name: string;
+    do {
+      const adjective = adjectives[Math.floor(Math.random() * adjectives.length)];
+      const noun = nouns[Math.floor(Math.random() * nouns.length)];
+      const number = Math.floor(Math.random() * 1000);
+      name = `${adjective}${noun}${number}`;
+    } while (!this.isNameAvailable(name));
+
+    return name;
   }
 }
@@ -0,0 +1,66 @@
+/**
+ * Tests for ABI value coercion and formatting
+ */
+
+import { ethers } from 'ethers';
+import { coerceAbiValues, formatAbiValues, parseFunctionSignature } from '../src/abi-values';
+
+describe('ABI values', () => {
+  const owner = '0x742d35cc6634c0532925a3b8d4c9db96590c6c87';
+
+  it('should parse human-readable signatures', () => {
+    const balanceOf = parseFunctionSignature('balanceOf(address) returns (uint256)');
+    expect(balanceOf.format()).toBe('balanceOf(address)');
+    expect(balanceOf.outputs.map((output) => output.type)).toEqual(['uint256']);
+
+    expect(parseFunctionSignature(' function transfer(address to, uint256 amount) ').format()).toBe('transfer(address,uint256)');
+    expect(() => parseFunctionSignature('transfer(address')).toThrow('Invalid function signature');
+  });
+
+  it('should coerce scalar parameters', () => {
+    const fragment = parseFunctionSignature('f(address a, uint256 b, int8 c, bool d, bytes4 e, string f)');
+
+    expect(coerceAbiValues(fragment.inputs, [owner, '0x10', '-5', 'false', '0xa9059cbb', 'hi'])).toEqual([
+      ethers.getAddress(owner),
+      16n,
+      -5n,
+      false,
+      '0xa9059cbb',
+      'hi',
+    ]);
+  });
+
+  it('should coerce arrays and tuples from arrays, objects or JSON strings', () => {
+    const fragment = parseFunctionSignature('f(uint256[] ids, (address to, uint96 amount)[2] payouts)');
+    const args = coerceAbiValues(fragment.inputs, [
+      '[1, "2"]',
+      [{ to: owner, amount: '5' }, [owner, 6]],
+    ]);
+
+    expect(args).toEqual([[1n, 2n], [[ethers.getAddress(owner), 5n], [ethers.getAddress(owner), 6n]]]);
+    expect(ethers.Interface.from([fragment]).encodeFunctionData(fragment, args)).toMatch(/^0x/);
+  });
+
+  it('should name the parameter that cannot be coerced', () => {
+    const fragment = parseFunctionSignature('f((address to, uint256 amount)[] payouts, bytes32 salt)');
+
+    expect(() => coerceAbiValues(fragment.inputs, [[{ to: 'alice', amount: 1 }], `0x${'00'.repeat(32)}`]))
+      .toThrow('Parameter payouts[0].to (address) must be an address');
+    expect(() => coerceAbiValues(fragment.inputs, [[], '0x01'])).toThrow('Parameter salt (bytes32) must be 32 bytes');
+    expect(() => coerceAbiValues(fragment.inputs, [[]])).toThrow('Expected 2 parameters, got 1');
+  });
+
+  it('should format decoded values as plain JSON', () => {
+    const fragment = parseFunctionSignature('f() returns (uint256 total, (string name, uint8[] scores) entry, bool)');
+    const decoded = ethers.AbiCoder.defaultAbiCoder().decode(
+      fragment.outputs,
+      ethers.AbiCoder.defaultAbiCoder().encode(fragment.outputs, [7n, ['x', [1, 2]], true])
+    );
+
+    expect(formatAbiValues(fragment.outputs, decoded)).toEqual({
+      total: '7',
+      entry: { name: 'x', scores: ['1', '2'] },
+      2: true,
+    });
+  });
+});
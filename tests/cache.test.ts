@@ -0,0 +1,110 @@
+/**
+ * Tests for ChainCache and its stores
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ChainCache, FileCacheStore, MemoryCacheStore } from '../src/cache';
+
+describe('MemoryCacheStore', () => {
+  it('should evict the least recently used entry when full', () => {
+    const store = new MemoryCacheStore(2);
+    store.set('a', { value: 1 });
+    store.set('b', { value: 2 });
+    store.get('a');
+    store.set('c', { value: 3 });
+
+    expect(store.size).toBe(2);
+    expect(store.get('a')).toEqual({ value: 1 });
+    expect(store.get('b')).toBeUndefined();
+    expect(store.get('c')).toEqual({ value: 3 });
+  });
+});
+
+describe('FileCacheStore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'rootstock-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should keep entries across instances', () => {
+    new FileCacheStore(directory).set('31:block:100', { value: { number: 100 } });
+    const store = new FileCacheStore(directory);
+
+    expect(store.get('31:block:100')).toEqual({ value: { number: 100 } });
+    expect(store.get('31:block:101')).toBeUndefined();
+
+    store.delete('31:block:100');
+    expect(store.get('31:block:100')).toBeUndefined();
+  });
+
+  it('should persist only final entries from ChainCache', () => {
+    const cache = new ChainCache({ directory });
+    cache.set('final', 'kept', 'final');
+    cache.set('latest', 'dropped', 'latest');
+
+    const restarted = new ChainCache({ directory });
+    expect(restarted.get('final')).toBe('kept');
+    expect(restarted.get('latest')).toBeUndefined();
+  });
+});
+
+describe('ChainCache', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should expire latest entries after the TTL', () => {
+    jest.useFakeTimers();
+    const cache = new ChainCache({ latestTtl: 1000 });
+    cache.set('head', 100, 'latest');
+    cache.set('block', 90, 'final');
+    cache.set('pending', 'tx', 'none');
+
+    expect(cache.get('head')).toBe(100);
+    expect(cache.get('pending')).toBeUndefined();
+
+    jest.advanceTimersByTime(1000);
+    expect(cache.get('head')).toBeUndefined();
+    expect(cache.get('block')).toBe(90);
+  });
+
+  it('should share concurrent loads and cache with the derived lifetime', async () => {
+    const cache = new ChainCache();
+    const load = jest.fn(async () => ({ blockNumber: 10 }));
+    const lifetime = jest.fn(() => 'final' as const);
+
+    const results = await Promise.all([
+      cache.getOrLoad('tx', load, lifetime),
+      cache.getOrLoad('tx', load, lifetime),
+    ]);
+    await cache.getOrLoad('tx', load, lifetime);
+
+    expect(results[0]).toBe(results[1]);
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(lifetime).toHaveBeenCalledWith({ blockNumber: 10 });
+  });
+
+  it('should not cache failed loads', async () => {
+    const cache = new ChainCache();
+    const load = jest.fn()
+      .mockRejectedValueOnce(new Error('timeout'))
+      .mockResolvedValueOnce('block');
+
+    await expect(cache.getOrLoad('block', load, 'final')).rejects.toThrow('timeout');
+    await expect(cache.getOrLoad('block', load, 'final')).resolves.toBe('block');
+  });
+
+  it('should treat blocks as final once deep enough', () => {
+    const cache = new ChainCache({ finalityDepth: 12 });
+
+    expect(cache.getBlockLifetime(88, 100)).toBe('final');
+    expect(cache.getBlockLifetime(89, 100)).toBe('latest');
+  });
+});
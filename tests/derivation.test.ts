@@ -0,0 +1,105 @@
+/**
+ * Tests for HD derivation
+ */
+
+import { ethers } from 'ethers';
+import {
+  DERIVATION_PATHS,
+  deriveAccounts,
+  getDefaultDerivationScheme,
+  resolveBasePath,
+} from '../src/derivation';
+import { WalletManager } from '../src/wallet-manager';
+
+describe('HD derivation', () => {
+  const testMnemonic = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+  const mnemonic = ethers.Mnemonic.fromPhrase(testMnemonic);
+
+  describe('resolveBasePath', () => {
+    it('should resolve scheme presets', () => {
+      expect(resolveBasePath('mainnet')).toBe("m/44'/137'/0'/0");
+      expect(resolveBasePath('testnet')).toBe("m/44'/37'/0'/0");
+      expect(resolveBasePath('ethereum')).toBe("m/44'/60'/0'/0");
+    });
+
+    it('should prefer a custom path', () => {
+      expect(resolveBasePath('mainnet', "m/44'/60'/1'/0")).toBe("m/44'/60'/1'/0");
+    });
+
+    it('should reject malformed paths', () => {
+      expect(() => resolveBasePath(undefined, "44'/60'")).toThrow('Invalid derivation path');
+    });
+  });
+
+  describe('getDefaultDerivationScheme', () => {
+    it('should pick the Rootstock coin type for the chain', () => {
+      expect(getDefaultDerivationScheme(30)).toBe('mainnet');
+      expect(getDefaultDerivationScheme(31)).toBe('testnet');
+    });
+  });
+
+  describe('deriveAccounts', () => {
+    it('should match the default Ethereum account at index 0', () => {
+      const [account] = deriveAccounts(mnemonic, DERIVATION_PATHS.ethereum, 1);
+      expect(account.address).toBe('0x9858EfFD232B4033E47d90003D41EC34EcaEda94');
+    });
+
+    it('should derive consecutive indexes', () => {
+      const accounts = deriveAccounts(mnemonic, DERIVATION_PATHS.mainnet, 3, 2);
+      expect(accounts.map((account) => account.path)).toEqual([
+        "m/44'/137'/0'/0/2",
+        "m/44'/137'/0'/0/3",
+        "m/44'/137'/0'/0/4",
+      ]);
+    });
+
+    it('should give different addresses per coin type', () => {
+      const [rsk] = deriveAccounts(mnemonic, DERIVATION_PATHS.mainnet, 1);
+      const [eth] = deriveAccounts(mnemonic, DERIVATION_PATHS.ethereum, 1);
+      expect(rsk.address).not.toBe(eth.address);
+    });
+
+    it('should validate count', () => {
+      expect(() => deriveAccounts(mnemonic, DERIVATION_PATHS.mainnet, 0)).toThrow('Count must be');
+    });
+  });
+
+  describe('WalletManager', () => {
+    let walletManager: WalletManager;
+
+    beforeEach(() => {
+      walletManager = new WalletManager();
+    });
+
+    it('should derive accounts from the current wallet mnemonic', () => {
+      walletManager.importWallet(undefined, testMnemonic);
+
+      const accounts = walletManager.deriveAccounts(undefined, { scheme: 'testnet', count: 2 });
+
+      expect(accounts).toHaveLength(2);
+      expect(accounts[0].derivationPath).toBe("m/44'/37'/0'/0/0");
+      expect(walletManager.getWalletCount()).toBe(1);
+    });
+
+    it('should add derived accounts to wallets on request', () => {
+      walletManager.importWallet(undefined, testMnemonic);
+
+      const accounts = walletManager.deriveAccounts(undefined, { scheme: 'mainnet', count: 2, addToWallets: true });
+
+      expect(walletManager.hasWallet(accounts[1].address)).toBe(true);
+    });
+
+    it('should import a mnemonic at a Rootstock derivation path', () => {
+      const [expected] = deriveAccounts(mnemonic, DERIVATION_PATHS.mainnet, 1);
+      const wallet = walletManager.importWallet(undefined, testMnemonic, undefined, "m/44'/137'/0'/0/0");
+
+      expect(wallet.address).toBe(expected.address);
+    });
+
+    it('should refuse wallets without a mnemonic', () => {
+      walletManager.importWallet('0x3cf90f4acdaee72ab90c0da7eda158ec1e908a5698aaf11a99070bba5da18b17');
+
+      expect(() => walletManager.deriveAccounts(undefined)).toThrow('no stored mnemonic');
+    });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Tests for typed errors
+ */
+
+import { ethers } from 'ethers';
+import { RootstockError, toRootstockError, toToolErrorResult, wrapError } from '../src/errors';
+
+describe('toRootstockError', () => {
+  it('should map ethers error codes', () => {
+    const funds = ethers.makeError('insufficient funds for intrinsic transaction cost', 'INSUFFICIENT_FUNDS', {
+      transaction: {},
+    });
+    const nonce = ethers.makeError('nonce has already been used', 'NONCE_EXPIRED', { transaction: {} });
+    const network = ethers.makeError('could not detect network', 'NETWORK_ERROR', { event: 'noNetwork' });
+
+    expect(toRootstockError(funds).code).toBe('INSUFFICIENT_FUNDS');
+    expect(toRootstockError(nonce).code).toBe('NONCE_TOO_LOW');
+    expect(toRootstockError(network).code).toBe('RPC_UNAVAILABLE');
+  });
+
+  it('should refine generic node errors by their message', () => {
+    const error = ethers.makeError('nonce too low', 'SERVER_ERROR', { request: null as unknown as ethers.FetchRequest });
+
+    expect(toRootstockError(error).code).toBe('NONCE_TOO_LOW');
+  });
+
+  it('should classify plain errors by their message', () => {
+    expect(toRootstockError(new Error('execution reverted: Ownable: caller is not the owner')).code).toBe('REVERTED');
+    expect(toRootstockError(new Error('Invalid address: 0x123')).code).toBe('INVALID_ADDRESS');
+    expect(toRootstockError('something odd').code).toBe('UNKNOWN');
+  });
+
+  it('should keep typed errors as they are', () => {
+    const error = new RootstockError('WALLET_NOT_FOUND', 'Wallet not found for name: alice');
+
+    expect(toRootstockError(error)).toBe(error);
+    expect(error.hint).toContain('list_wallets');
+  });
+});
+
+describe('wrapError', () => {
+  it('should not nest the failure text when wrapped twice', () => {
+    const inner = wrapError('get nonce', new Error('insufficient funds for gas * price + value'));
+    const outer = wrapError('send transaction', inner);
+
+    expect(outer.message).toBe('Failed to send transaction: insufficient funds for gas * price + value');
+    expect(outer.code).toBe('INSUFFICIENT_FUNDS');
+    expect(outer.action).toBe('send transaction');
+  });
+});
+
+describe('toToolErrorResult', () => {
+  it('should flag the result as an error and return the code', () => {
+    const result = toToolErrorResult(
+      new RootstockError('POLICY_VIOLATION', 'Spending policy violation for 0xabc: amount exceeds 0.01 RBTC', {
+        action: 'send transaction',
+      })
+    );
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent.code).toBe('POLICY_VIOLATION');
+    expect(result.structuredContent.hint).toContain('ROOTSTOCK_SPENDING_POLICY');
+    expect(result.content[0].text).toMatch(/^Error \[POLICY_VIOLATION\]: Failed to send transaction: Spending policy/);
+  });
+});
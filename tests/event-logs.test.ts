@@ -0,0 +1,134 @@
+/**
+ * Tests for EventLogReader
+ */
+
+import { ethers } from 'ethers';
+import { EventLogReader } from '../src/event-logs';
+import { ERC20_ABI, ERC721_ABI } from '../src/erc20-contracts';
+
+describe('EventLogReader', () => {
+  const token = ethers.getAddress('0x2acc95758f8b5f583470ba265eb685a8f45fc9d5');
+  const from = ethers.getAddress('0x742d35cc6634c0532925a3b8d4c9db96590c6c87');
+  const to = ethers.getAddress('0x8ba1f109551bd432803012645ac136ddd64dba72');
+  const erc20 = new ethers.Interface(ERC20_ABI);
+  const erc721 = new ethers.Interface(ERC721_ABI);
+
+  let logs: ethers.Log[];
+  let provider: ethers.Provider & { getLogs: jest.Mock };
+
+  const makeLog = (blockNumber: number, encoded: { topics: string[]; data: string }, index = 0) => ({
+    address: token,
+    blockNumber,
+    blockHash: `0x${'ab'.repeat(32)}`,
+    transactionHash: `0x${blockNumber.toString(16).padStart(64, '0')}`,
+    index,
+    topics: encoded.topics,
+    data: encoded.data,
+  }) as unknown as ethers.Log;
+
+  const erc20Transfer = (blockNumber: number, index = 0) =>
+    makeLog(blockNumber, erc20.encodeEventLog('Transfer', [from, to, 1000n]), index);
+
+  beforeEach(() => {
+    logs = [];
+    provider = {
+      getLogs: jest.fn(async (filter: ethers.Filter) =>
+        logs.filter((log) =>
+          log.blockNumber >= Number(filter.fromBlock) &&
+          log.blockNumber <= Number(filter.toBlock) &&
+          (!filter.topics?.[0] || filter.topics[0] === log.topics[0])
+        )
+      ),
+    } as unknown as ethers.Provider & { getLogs: jest.Mock };
+  });
+
+  it('should decode ERC20 and ERC721 transfers by default', async () => {
+    logs = [erc20Transfer(10), makeLog(11, erc721.encodeEventLog('Transfer', [from, to, 7n]))];
+    const result = await new EventLogReader().getLogs(provider, { fromBlock: 0, toBlock: 20 });
+
+    expect(result.logs[0]).toMatchObject({
+      event: 'Transfer',
+      args: { from, to, value: '1000' },
+    });
+    expect(result.logs[1].args).toEqual({ from, to, tokenId: '7' });
+    expect(result).toMatchObject({ fromBlock: 0, toBlock: 20, truncated: false });
+  });
+
+  it('should filter and decode by event declaration', async () => {
+    const event = 'event Paid(address indexed payer, uint256[] amounts, (string memo, bool ok) info)';
+    const custom = new ethers.Interface([event]);
+    logs = [makeLog(5, custom.encodeEventLog('Paid', [from, [1n, 2n], ['rent', true]])), erc20Transfer(6)];
+
+    const result = await new EventLogReader().getLogs(provider, { event, fromBlock: 0, toBlock: 10 });
+
+    expect(provider.getLogs.mock.calls[0][0].topics[0]).toBe(custom.getEvent('Paid')?.topicHash);
+    expect(result.logs).toHaveLength(1);
+    expect(result.logs[0].args).toEqual({ payer: from, amounts: ['1', '2'], info: { memo: 'rent', ok: true } });
+  });
+
+  it('should resolve event names from the ABI', async () => {
+    logs = [erc20Transfer(5), makeLog(6, erc20.encodeEventLog('Approval', [from, to, 5n]))];
+    const result = await new EventLogReader().getLogs(provider, { event: 'Approval', abi: 'erc20', fromBlock: 0, toBlock: 10 });
+
+    expect(result.logs.map((log) => log.event)).toEqual(['Approval']);
+    await expect(new EventLogReader().getLogs(provider, { event: 'Paid', fromBlock: 0, toBlock: 10 }))
+      .rejects.toThrow('not in the ABI');
+  });
+
+  it('should return logs of unknown events undecoded', async () => {
+    logs = [makeLog(5, { topics: [ethers.id('Other()')], data: '0x' })];
+    const result = await new EventLogReader().getLogs(provider, { fromBlock: 0, toBlock: 10 });
+
+    expect(result.logs[0].event).toBeUndefined();
+    expect(result.logs[0].topics).toEqual([ethers.id('Other()')]);
+  });
+
+  it('should split the range into chunks', async () => {
+    await new EventLogReader({ chunkSize: 100 }).getLogs(provider, { fromBlock: 0, toBlock: 250 });
+
+    expect(provider.getLogs.mock.calls.map(([filter]) => [filter.fromBlock, filter.toBlock]))
+      .toEqual([[0, 99], [100, 199], [200, 250]]);
+  });
+
+  it('should halve chunks the node rejects as too large', async () => {
+    logs = [erc20Transfer(10), erc20Transfer(90)];
+    const getLogs = provider.getLogs.getMockImplementation() as (filter: ethers.Filter) => Promise<ethers.Log[]>;
+    provider.getLogs.mockImplementation(async (filter: ethers.Filter) => {
+      if (Number(filter.toBlock) - Number(filter.fromBlock) >= 50) {
+        throw new Error('block range too large');
+      }
+      return getLogs(filter);
+    });
+
+    const result = await new EventLogReader({ chunkSize: 100 }).getLogs(provider, { fromBlock: 0, toBlock: 99 });
+    expect(result.logs.map((log) => log.blockNumber)).toEqual([10, 90]);
+
+    provider.getLogs.mockRejectedValue(new Error('connection refused'));
+    await expect(new EventLogReader().getLogs(provider, { fromBlock: 0, toBlock: 99 })).rejects.toThrow('connection refused');
+  });
+
+  it('should truncate at whole blocks', async () => {
+    logs = [erc20Transfer(1), erc20Transfer(2), erc20Transfer(3, 0), erc20Transfer(3, 1), erc20Transfer(4)];
+    const result = await new EventLogReader({ maxLogs: 3 }).getLogs(provider, { fromBlock: 0, toBlock: 10 });
+
+    expect(result.logs.map((log) => log.blockNumber)).toEqual([1, 2]);
+    expect(result).toMatchObject({ toBlock: 2, truncated: true });
+  });
+
+  it('should not split a block that holds more than maxLogs logs', async () => {
+    logs = [erc20Transfer(1), erc20Transfer(2, 0), erc20Transfer(2, 1), erc20Transfer(2, 2), erc20Transfer(2, 3)];
+    const reader = new EventLogReader({ maxLogs: 3 });
+
+    await expect(reader.getLogs(provider, { fromBlock: 0, toBlock: 10 })).resolves.toMatchObject({ toBlock: 1, truncated: true });
+    await expect(reader.getLogs(provider, { fromBlock: 2, toBlock: 10 })).rejects.toThrow('raise maxLogs');
+  });
+
+  it('should reject invalid queries', async () => {
+    const reader = new EventLogReader({ maxBlockRange: 1000 });
+
+    await expect(reader.getLogs(provider, { fromBlock: 0, toBlock: 1000 })).rejects.toThrow('larger than 1000');
+    await expect(reader.getLogs(provider, { fromBlock: 10, toBlock: 5 })).rejects.toThrow('Invalid block range');
+    await expect(reader.getLogs(provider, { event: 'Transfer', topics: [ethers.id('x')], fromBlock: 0, toBlock: 5 }))
+      .rejects.toThrow('not both');
+  });
+});
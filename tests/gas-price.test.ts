@@ -0,0 +1,94 @@
+/**
+ * Tests for GasPriceOracle
+ */
+
+import { ethers } from 'ethers';
+import { GasPriceOracle } from '../src/gas-price';
+import { ChainCache } from '../src/cache';
+
+describe('GasPriceOracle', () => {
+  let blocks: Record<number, { number: string; minimumGasPrice?: string }>;
+  let networkGasPrice: bigint;
+  let provider: ethers.JsonRpcApiProvider;
+
+  const block = (number: number, minimumGasPrice?: bigint) => ({
+    number: ethers.toQuantity(number),
+    ...(minimumGasPrice !== undefined ? { minimumGasPrice: ethers.toQuantity(minimumGasPrice) } : {}),
+  });
+
+  beforeEach(() => {
+    networkGasPrice = 60000000n;
+    blocks = {
+      100: block(100, 60000000n),
+      99: block(99, 65000000n),
+      98: block(98, 59000000n),
+      97: block(97, 60000000n),
+      96: block(96, 60000000n),
+    };
+    provider = {
+      send: jest.fn(async (method: string, params: any[]) => {
+        if (method === 'eth_gasPrice') {
+          return ethers.toQuantity(networkGasPrice);
+        }
+        return params[0] === 'latest' ? blocks[100] : blocks[Number(params[0])] || null;
+      }),
+    } as unknown as ethers.JsonRpcApiProvider;
+  });
+
+  it('should derive presets from the highest recent minimum', async () => {
+    const quote = await new GasPriceOracle().getQuote(provider);
+
+    expect(quote.blockNumber).toBe(100);
+    expect(quote.minimumGasPrice).toBe(65000000n);
+    expect(quote.slow).toBe(68250000n);
+    expect(quote.normal).toBe(78000000n);
+    expect(quote.fast).toBe(97500000n);
+  });
+
+  it('should reuse a cached quote instead of reading the blocks again', async () => {
+    const oracle = new GasPriceOracle({ cache: new ChainCache({ latestTtl: 60000 }) });
+    const first = await oracle.getQuote(provider);
+    const calls = (provider.send as jest.Mock).mock.calls.length;
+
+    await expect(oracle.resolve(provider, undefined, 'fast')).resolves.toBe(first.fast);
+    expect(provider.send).toHaveBeenCalledTimes(calls);
+  });
+
+  it('should not price normal and fast below the node suggestion', async () => {
+    networkGasPrice = 90000000n;
+    const quote = await new GasPriceOracle({ sampleBlocks: 1 }).getQuote(provider);
+
+    expect(quote.slow).toBe(63000000n);
+    expect(quote.normal).toBe(90000000n);
+    expect(quote.fast).toBe(90000000n);
+  });
+
+  it('should fall back to the node suggestion without a block minimum', async () => {
+    blocks[100] = block(100);
+    const quote = await new GasPriceOracle({ sampleBlocks: 1 }).getQuote(provider);
+
+    expect(quote.minimumGasPrice).toBeUndefined();
+    expect(quote.slow).toBe(63000000n);
+  });
+
+  it('should use the normal preset by default', async () => {
+    const oracle = new GasPriceOracle();
+
+    await expect(oracle.resolve(provider)).resolves.toBe(78000000n);
+    await expect(oracle.resolve(provider, undefined, 'fast')).resolves.toBe(97500000n);
+  });
+
+  it('should reject explicit prices below the block minimum', async () => {
+    const oracle = new GasPriceOracle();
+
+    await expect(oracle.resolve(provider, '1000')).rejects.toThrow('below the block minimum');
+    await expect(oracle.resolve(provider, '70000000')).resolves.toBe(70000000n);
+  });
+
+  it('should reject conflicting or unknown options', async () => {
+    const oracle = new GasPriceOracle();
+
+    await expect(oracle.resolve(provider, '70000000', 'fast')).rejects.toThrow('not both');
+    await expect(oracle.resolve(provider, undefined, 'turbo' as any)).rejects.toThrow('Invalid gas speed');
+  });
+});
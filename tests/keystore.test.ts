@@ -0,0 +1,141 @@
+/**
+ * Tests for Keystore
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { Keystore } from '../src/keystore';
+import { WalletManager } from '../src/wallet-manager';
+
+describe('Keystore', () => {
+  const testMnemonic = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+  const keystoreOptions = { scryptN: 1024 };
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'rootstock-keystore-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('Keystore', () => {
+    it('should save and load an encrypted wallet', () => {
+      const keystore = new Keystore(directory, keystoreOptions);
+      const privateKey = '0x3cf90f4acdaee72ab90c0da7eda158ec1e908a5698aaf11a99070bba5da18b17';
+
+      const file = keystore.save(new ethers.Wallet(privateKey), 'secret');
+      expect(fs.readFileSync(file, 'utf8')).not.toContain(privateKey.slice(2));
+
+      const { entries, failed } = keystore.load('secret');
+      expect(failed).toHaveLength(0);
+      expect(entries).toHaveLength(1);
+      expect(entries[0].wallet.privateKey).toBe(privateKey);
+    });
+
+    it('should write address lists readable only by the owner', () => {
+      const keystore = new Keystore(directory, keystoreOptions);
+      const address = '0x742d35Cc6634C0532925a3b8D4C9db96590c6C87';
+      keystore.saveWatchOnly([{ address }]);
+      keystore.saveRemoteSigners([{ address, endpoint: 'http://localhost:9000' }]);
+
+      for (const file of ['watch-only.json', 'remote-signers.json']) {
+        expect(fs.statSync(path.join(directory, file)).mode & 0o777).toBe(0o600);
+      }
+    });
+
+    it('should keep the mnemonic of HD wallets', () => {
+      const keystore = new Keystore(directory, keystoreOptions);
+      keystore.save(ethers.Wallet.fromPhrase(testMnemonic), 'secret');
+
+      const { entries } = keystore.load('secret');
+      expect((entries[0].wallet as any).mnemonic?.phrase).toBe(testMnemonic);
+    });
+
+    it('should store the wallet name', () => {
+      const keystore = new Keystore(directory, keystoreOptions);
+      keystore.save(ethers.Wallet.fromPhrase(testMnemonic), 'secret', 'treasury');
+
+      const { entries } = keystore.load('secret');
+      expect(entries[0].name).toBe('treasury');
+    });
+
+    it('should report files that cannot be decrypted', () => {
+      const keystore = new Keystore(directory, keystoreOptions);
+      keystore.save(ethers.Wallet.fromPhrase(testMnemonic), 'secret');
+
+      const { entries, failed } = keystore.load('wrong');
+      expect(entries).toHaveLength(0);
+      expect(failed).toHaveLength(1);
+    });
+  });
+
+  describe('WalletManager integration', () => {
+    it('should persist created wallets and reload them on startup', () => {
+      const first = new WalletManager({ keystoreDir: directory, keystorePassphrase: 'secret', keystoreOptions });
+      const wallet = first.createWallet();
+
+      expect(wallet.keystorePath).toBeDefined();
+
+      const second = new WalletManager({ keystoreDir: directory, keystorePassphrase: 'secret', keystoreOptions });
+      expect(second.hasWallet(wallet.address)).toBe(true);
+      expect(second.getWalletName(wallet.address)).toBe(wallet.name);
+    });
+
+    it('should load wallets after unlocking', () => {
+      const first = new WalletManager({ keystoreDir: directory, keystorePassphrase: 'secret', keystoreOptions });
+      const wallet = first.importWallet(undefined, testMnemonic);
+
+      const locked = new WalletManager({ keystoreDir: directory, keystoreOptions });
+      expect(locked.hasWallet(wallet.address)).toBe(false);
+      expect(locked.getKeystoreStatus()).toMatchObject({ configured: true, unlocked: false, fileCount: 1 });
+
+      expect(locked.unlockKeystore('secret')).toEqual([wallet.address]);
+      expect(locked.hasWallet(wallet.address)).toBe(true);
+    });
+
+    it('should not create wallets while the keystore is locked', () => {
+      const locked = new WalletManager({ keystoreDir: directory, keystoreOptions });
+
+      expect(() => locked.createWallet()).toThrow('keystore is locked');
+      expect(locked.getWalletCount()).toBe(0);
+
+      locked.unlockKeystore('secret');
+      expect(locked.createWallet().keystorePath).toBeDefined();
+    });
+
+    it('should not keep a created wallet whose keystore file could not be written', () => {
+      const walletManager = new WalletManager({ keystoreDir: directory, keystorePassphrase: 'secret', keystoreOptions });
+      const save = jest.spyOn(Keystore.prototype, 'save').mockImplementation(() => {
+        throw new Error('EACCES: permission denied');
+      });
+
+      try {
+        expect(() => walletManager.createWallet('treasury')).toThrow('permission denied');
+        expect(walletManager.getWalletCount()).toBe(0);
+        expect(walletManager.hasWallet('treasury')).toBe(false);
+      } finally {
+        save.mockRestore();
+      }
+    });
+
+    it('should reject a wrong passphrase', () => {
+      const first = new WalletManager({ keystoreDir: directory, keystorePassphrase: 'secret', keystoreOptions });
+      first.createWallet();
+
+      const locked = new WalletManager({ keystoreDir: directory, keystoreOptions });
+      expect(() => locked.unlockKeystore('wrong')).toThrow('Invalid keystore passphrase');
+    });
+
+    it('should not persist wallets when no keystore is configured', () => {
+      const walletManager = new WalletManager();
+      const wallet = walletManager.createWallet();
+      expect(wallet.keystorePath).toBeUndefined();
+      expect(wallet.secretWarning).toContain('lost when the server stops');
+      expect(() => walletManager.unlockKeystore('secret')).toThrow('No keystore configured');
+    });
+  });
+});
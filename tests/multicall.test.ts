@@ -0,0 +1,118 @@
+/**
+ * Tests for Multicall
+ */
+
+import { ethers } from 'ethers';
+import { MULTICALL3_ABI, MULTICALL3_ADDRESS, Multicall, decodeCallResult } from '../src/multicall';
+
+describe('Multicall', () => {
+  const multicallInterface = new ethers.Interface(MULTICALL3_ABI);
+  const token = new ethers.Interface(['function decimals() view returns (uint8)']);
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  const owner = ethers.getAddress('0x742d35cc6634c0532925a3b8d4c9db96590c6c87');
+  const tokenAddress = ethers.getAddress(`0x${'aa'.repeat(20)}`);
+  const brokenAddress = ethers.getAddress(`0x${'bb'.repeat(20)}`);
+
+  let code: string;
+  let provider: ethers.Provider;
+  let call: jest.Mock;
+
+  // Answers a single call the way the chain would: Multicall3 helpers, a token and a reverting contract
+  const answer = (target: string, callData: string): { success: boolean; returnData: string } => {
+    if (target === brokenAddress) {
+      return { success: false, returnData: '0x' };
+    }
+    if (target === ethers.getAddress(MULTICALL3_ADDRESS)) {
+      const parsed = multicallInterface.parseTransaction({ data: callData });
+      return { success: true, returnData: coder.encode(['uint256'], [parsed?.name === 'getBlockNumber' ? 42n : 5n * 10n ** 18n]) };
+    }
+    return { success: true, returnData: token.encodeFunctionResult('decimals', [18]) };
+  };
+
+  beforeEach(() => {
+    code = '0x6080';
+    call = jest.fn(async (tx: { to: string; data: string }) => {
+      if (tx.to !== ethers.getAddress(MULTICALL3_ADDRESS)) {
+        const result = answer(tx.to, tx.data);
+        if (!result.success) {
+          throw ethers.makeError('execution reverted', 'CALL_EXCEPTION', { action: 'call', data: '0x', reason: null, transaction: tx, invocation: null, revert: null });
+        }
+        return result.returnData;
+      }
+      const [calls] = multicallInterface.decodeFunctionData('aggregate3', tx.data);
+      return multicallInterface.encodeFunctionResult('aggregate3', [
+        calls.map((item: ethers.Result) => {
+          const result = answer(item.target, item.callData);
+          return [result.success, result.returnData];
+        }),
+      ]);
+    });
+    provider = {
+      getCode: jest.fn(async () => code),
+      getBlockNumber: jest.fn(async () => 41),
+      getBalance: jest.fn(async () => 3n * 10n ** 18n),
+      call,
+    } as unknown as ethers.Provider;
+  });
+
+  it('should batch calls into aggregate3 and pin later batches to the first block', async () => {
+    const multicall = new Multicall({ batchSize: 2 });
+    const calls = [
+      multicall.getEthBalanceCall(owner),
+      { target: tokenAddress, callData: token.encodeFunctionData('decimals') },
+      { target: brokenAddress, callData: token.encodeFunctionData('decimals') },
+    ];
+
+    const response = await multicall.aggregate(provider, calls);
+
+    expect(response.batched).toBe(true);
+    expect(response.blockNumber).toBe(42);
+    expect(response.results.map((result) => result.success)).toEqual([true, true, false]);
+    expect(decodeCallResult(multicallInterface, 'getEthBalance', response.results[0])?.[0]).toBe(5n * 10n ** 18n);
+    expect(decodeCallResult(token, 'decimals', response.results[1])?.[0]).toBe(18n);
+    expect(call).toHaveBeenCalledTimes(2);
+    expect(call.mock.calls[0][0].blockTag).toBeUndefined();
+    expect(call.mock.calls[1][0].blockTag).toBe(42);
+  });
+
+  it('should fall back to one call each without a deployed contract', async () => {
+    code = '0x';
+    const multicall = new Multicall();
+
+    const response = await multicall.aggregate(provider, [
+      multicall.getEthBalanceCall(owner),
+      { target: tokenAddress, callData: token.encodeFunctionData('decimals') },
+      { target: brokenAddress, callData: token.encodeFunctionData('decimals') },
+    ]);
+
+    expect(response).toMatchObject({ batched: false, blockNumber: 41 });
+    expect(decodeCallResult(multicallInterface, 'getEthBalance', response.results[0])?.[0]).toBe(3n * 10n ** 18n);
+    expect(response.results[2].success).toBe(false);
+    expect(provider.getBalance).toHaveBeenCalledWith(owner, 41);
+  });
+
+  it('should fail the batch when a required call fails', async () => {
+    code = '0x';
+
+    await expect(new Multicall().aggregate(provider, [
+      { target: brokenAddress, callData: token.encodeFunctionData('decimals'), allowFailure: false },
+    ])).rejects.toThrow('execution reverted');
+  });
+
+  it('should notice a contract deployed later', async () => {
+    code = '0x';
+    const multicall = new Multicall({ address: tokenAddress });
+
+    await expect(multicall.isAvailable(provider)).resolves.toBe(false);
+    code = '0x6080';
+    await expect(multicall.isAvailable(provider)).resolves.toBe(true);
+    code = '0x';
+    await expect(multicall.isAvailable(provider)).resolves.toBe(true);
+  });
+
+  it('should not decode failed or empty results', () => {
+    expect(decodeCallResult(token, 'decimals', { success: false, returnData: token.encodeFunctionResult('decimals', [18]) })).toBeNull();
+    expect(decodeCallResult(token, 'decimals', { success: true, returnData: '0x' })).toBeNull();
+    expect(decodeCallResult(token, 'decimals', { success: true, returnData: '0x1234' })).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Tests for network profiles
+ */
+
+import { NetworkRegistry, assertMainnetConfirmed, toRootstockConfig } from '../src/networks';
+
+describe('NetworkRegistry', () => {
+  it('should start on testnet by default', () => {
+    const registry = new NetworkRegistry();
+
+    expect(registry.getActive().id).toBe('testnet');
+    expect(registry.list().map((profile) => profile.chainId)).toEqual([30, 31, 33]);
+  });
+
+  it('should select a profile by id or chain ID', () => {
+    const registry = new NetworkRegistry({ network: 'mainnet' });
+
+    expect(registry.getActive().chainId).toBe(30);
+    expect(registry.setActive('33').id).toBe('regtest');
+    expect(registry.setActive('TESTNET').currencySymbol).toBe('tRBTC');
+  });
+
+  it('should list available networks for an unknown profile', () => {
+    const registry = new NetworkRegistry();
+
+    expect(() => registry.setActive('devnet')).toThrow('Available networks: mainnet, testnet, regtest');
+  });
+
+  it('should apply single-network settings to the matching profile', () => {
+    const registry = new NetworkRegistry({
+      overrides: { rpcUrl: 'https://rpc.example.com', chainId: 30, explorerUrl: '' },
+    });
+
+    expect(registry.getActive()).toMatchObject({
+      id: 'mainnet',
+      rpcUrl: 'https://rpc.example.com',
+      explorerUrl: 'https://explorer.rootstock.io',
+    });
+  });
+
+  it('should create a custom profile for an unknown chain ID', () => {
+    const registry = new NetworkRegistry({ overrides: { rpcUrl: 'http://localhost:8545', chainId: 1337 } });
+
+    expect(toRootstockConfig(registry.getActive())).toEqual({
+      rpcUrl: 'http://localhost:8545',
+      chainId: 1337,
+      networkName: 'Chain 1337',
+      explorerUrl: undefined,
+      currencySymbol: 'RBTC',
+    });
+  });
+
+  it('should accept custom profiles', () => {
+    const registry = new NetworkRegistry({
+      network: 'local',
+      profiles: NetworkRegistry.readProfiles(JSON.stringify([
+        { id: 'local', rpcUrl: 'http://127.0.0.1:4444', chainId: 33, networkName: 'Local Node', currencySymbol: 'RBTC' },
+      ])),
+    });
+
+    expect(registry.getActive().networkName).toBe('Local Node');
+  });
+
+  it('should reject invalid profiles', () => {
+    expect(() => new NetworkRegistry({
+      profiles: [{ id: 'bad', rpcUrl: 'not a url', chainId: 1, networkName: 'Bad', currencySymbol: 'X' }],
+    })).toThrow('Invalid RPC URL for network bad');
+  });
+
+  it('should require confirmation for mainnet writes only', () => {
+    expect(() => assertMainnetConfirmed(30)).toThrow('confirmMainnet: true');
+    expect(() => assertMainnetConfirmed(30, true)).not.toThrow();
+    expect(() => assertMainnetConfirmed(31)).not.toThrow();
+    expect(() => assertMainnetConfirmed(30, false, 'This signature would be valid')).toThrow('This signature would be valid on Rootstock Mainnet');
+  });
+});
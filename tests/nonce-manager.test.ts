@@ -0,0 +1,107 @@
+/**
+ * Tests for NonceManager
+ */
+
+import { ethers } from 'ethers';
+import { NonceManager, isNonceError } from '../src/nonce-manager';
+
+describe('NonceManager', () => {
+  const address = '0x742d35Cc6634C0532925a3b8D4C9db96590c6C87';
+  let pendingCount: number;
+  let provider: ethers.Provider;
+
+  beforeEach(() => {
+    pendingCount = 5;
+    provider = { getTransactionCount: jest.fn(async () => pendingCount) } as unknown as ethers.Provider;
+  });
+
+  it('should give concurrent sends consecutive nonces', async () => {
+    const manager = new NonceManager();
+    const broadcast = async (nonce: number) => {
+      // Let the other sends run while this one is "broadcasting"
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      return nonce;
+    };
+
+    const nonces = await Promise.all(Array.from({ length: 5 }, () => manager.send(address, provider, broadcast)));
+
+    expect(nonces).toEqual([5, 6, 7, 8, 9]);
+    expect(manager.getNextNonce(address.toLowerCase())).toBe(10);
+  });
+
+  it('should recover from nonce too low', async () => {
+    const manager = new NonceManager();
+    const attempts: number[] = [];
+
+    const nonce = await manager.send(address, provider, async (value) => {
+      attempts.push(value);
+      if (value < 7) {
+        pendingCount = 7;
+        throw new Error('nonce too low');
+      }
+      return value;
+    });
+
+    expect(attempts).toEqual([5, 7]);
+    expect(nonce).toBe(7);
+  });
+
+  it('should reuse the nonce after a failed broadcast', async () => {
+    const manager = new NonceManager();
+
+    await expect(manager.send(address, provider, async () => {
+      throw new Error('insufficient funds');
+    })).rejects.toThrow('insufficient funds');
+
+    await expect(manager.send(address, provider, async (nonce) => nonce)).resolves.toBe(5);
+  });
+
+  it('should keep the queue going after a failure', async () => {
+    const manager = new NonceManager();
+
+    const results = await Promise.allSettled([
+      manager.send(address, provider, async (nonce) => nonce),
+      manager.send(address, provider, async () => {
+        throw new Error('execution reverted');
+      }),
+      manager.send(address, provider, async (nonce) => nonce),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+    expect((results[2] as PromiseFulfilledResult<number>).value).toBe(6);
+  });
+
+  it('should pick up transactions sent elsewhere', async () => {
+    const manager = new NonceManager();
+    await manager.send(address, provider, async (nonce) => nonce);
+    pendingCount = 9;
+
+    await expect(manager.send(address, provider, async (nonce) => nonce)).resolves.toBe(9);
+  });
+
+  it('should give up after repeated nonce errors', async () => {
+    const manager = new NonceManager({ maxNonceRetries: 2 });
+    const broadcast = jest.fn(async () => {
+      throw Object.assign(new Error('replacement transaction underpriced'), { code: 'REPLACEMENT_UNDERPRICED' });
+    });
+
+    await expect(manager.send(address, provider, broadcast)).rejects.toThrow('underpriced');
+    expect(broadcast).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not re-sign an already known transaction with the next nonce', async () => {
+    const manager = new NonceManager();
+    const broadcast = jest.fn(async () => {
+      throw new Error('already known');
+    });
+
+    await expect(manager.send(address, provider, broadcast)).rejects.toThrow('already known');
+    expect(broadcast).toHaveBeenCalledTimes(1);
+  });
+
+  it('should recognise nonce errors', () => {
+    expect(isNonceError(Object.assign(new Error('rejected'), { code: 'NONCE_EXPIRED' }))).toBe(true);
+    expect(isNonceError(new Error('already known'))).toBe(false);
+    expect(isNonceError(new Error('execution reverted'))).toBe(false);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for RemoteSigner
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { RemoteSigner } from '../src/signer';
+import { WalletManager } from '../src/wallet-manager';
+
+describe('RemoteSigner', () => {
+  const account = new ethers.Wallet('0x3cf90f4acdaee72ab90c0da7eda158ec1e908a5698aaf11a99070bba5da18b17');
+  const other = new ethers.Wallet('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+  let server: http.Server;
+  let endpoint: string;
+  let signingWallet: ethers.Wallet;
+
+  // Minimal JSON-RPC signer that signs with a local wallet
+  const handle = async (method: string, params: any[]): Promise<any> => {
+    switch (method) {
+      case 'eth_accounts':
+        return [account.address];
+      case 'eth_signTransaction': {
+        const { gas, ...tx } = params[0];
+        return { raw: await signingWallet.signTransaction({ ...tx, gasLimit: gas, from: undefined }) };
+      }
+      case 'eth_sign':
+        return signingWallet.signMessage(ethers.getBytes(params[1]));
+      default:
+        throw new Error(`Unsupported method ${method}`);
+    }
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', async () => {
+        const { id, method, params } = JSON.parse(body);
+        res.setHeader('Content-Type', 'application/json');
+        try {
+          res.end(JSON.stringify({ jsonrpc: '2.0', id, result: await handle(method, params) }));
+        } catch (error) {
+          res.end(JSON.stringify({ jsonrpc: '2.0', id, error: { code: -32601, message: (error as Error).message } }));
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    signingWallet = account;
+  });
+
+  it('should list the accounts of the remote signer', async () => {
+    await expect(RemoteSigner.listAccounts(endpoint)).resolves.toEqual([account.address]);
+  });
+
+  it('should sign transactions remotely', async () => {
+    const signer = new RemoteSigner(account.address, endpoint);
+    const raw = await signer.signTransaction({
+      to: other.address,
+      value: 1000n,
+      gasLimit: 21000n,
+      gasPrice: 60000000n,
+      nonce: 0,
+      chainId: 31n,
+    });
+
+    const tx = ethers.Transaction.from(raw);
+    expect(tx.from).toBe(account.address);
+    expect(tx.to).toBe(other.address);
+    expect(tx.value).toBe(1000n);
+  });
+
+  it('should reject a transaction signed by a different account', async () => {
+    signingWallet = other;
+    const signer = new RemoteSigner(account.address, endpoint);
+
+    await expect(signer.signTransaction({
+      to: other.address,
+      gasLimit: 21000n,
+      gasPrice: 60000000n,
+      nonce: 0,
+      chainId: 31n,
+    })).rejects.toThrow('Remote signer signed with');
+  });
+
+  it('should sign messages remotely', async () => {
+    const signer = new RemoteSigner(account.address, endpoint);
+    const signature = await signer.signMessage('hello');
+
+    expect(ethers.verifyMessage('hello', signature)).toBe(account.address);
+  });
+
+  it('should surface JSON-RPC errors', async () => {
+    const signer = new RemoteSigner(account.address, endpoint);
+
+    await expect(signer.signTypedData({}, { Mail: [{ name: 'body', type: 'string' }] }, { body: 'hi' }))
+      .rejects.toThrow('Remote signer request eth_signTypedData_v4 failed');
+  });
+
+  describe('WalletManager', () => {
+    it('should add a remote signer without exposing key material', () => {
+      const walletManager = new WalletManager();
+      const walletInfo = walletManager.addRemoteSigner(account.address, endpoint, 'clef');
+
+      expect(walletInfo.remoteSigner).toBe(endpoint);
+      expect(walletInfo.privateKey).toBeUndefined();
+      expect(walletManager.getWallet('clef')).toBeInstanceOf(RemoteSigner);
+      expect(walletManager.listWallets()[0].remoteSigner).toBe(endpoint);
+    });
+
+    it('should reject an invalid endpoint', () => {
+      const walletManager = new WalletManager();
+
+      expect(() => walletManager.addRemoteSigner(account.address, 'not a url')).toThrow('Failed to add remote signer');
+    });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Tests for FailoverProvider
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { FailoverProvider } from '../src/rpc-pool';
+
+interface StubNode {
+  url: string;
+  calls: string[];
+  status: number;
+  blockNumber: number;
+  respond?: (method: string) => { result?: any; error?: { code: number; message: string } } | undefined;
+  server: http.Server;
+}
+
+describe('FailoverProvider', () => {
+  const nodes: StubNode[] = [];
+  const providers: FailoverProvider[] = [];
+  const options = { retryDelay: 1, healthCheckInterval: 0 };
+
+  const startNode = async (blockNumber = 100): Promise<StubNode> => {
+    const node = { calls: [] as string[], status: 200, blockNumber } as StubNode;
+    node.server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const { id, method } = JSON.parse(body);
+        node.calls.push(method);
+        if (node.status !== 200) {
+          res.statusCode = node.status;
+          res.end('unavailable');
+          return;
+        }
+
+        const custom = node.respond?.(method);
+        const result = method === 'eth_chainId' ? '0x1f' : ethers.toQuantity(node.blockNumber);
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ jsonrpc: '2.0', id, ...(custom || { result }) }));
+      });
+    });
+    await new Promise<void>((resolve) => node.server.listen(0, '127.0.0.1', resolve));
+    node.url = `http://127.0.0.1:${(node.server.address() as AddressInfo).port}`;
+    nodes.push(node);
+    return node;
+  };
+
+  const createProvider = (urls: string[]) => {
+    const provider = new FailoverProvider(urls, options);
+    providers.push(provider);
+    return provider;
+  };
+
+  afterEach(async () => {
+    providers.splice(0).forEach((provider) => provider.destroy());
+    await Promise.all(nodes.splice(0).map((node) => new Promise((resolve) => {
+      node.server.close(resolve);
+      node.server.closeAllConnections();
+    })));
+  });
+
+  it('should fail over when an endpoint is down', async () => {
+    const primary = await startNode();
+    const backup = await startNode();
+    primary.status = 503;
+    const provider = createProvider([primary.url, backup.url]);
+
+    await expect(provider.getBlockNumber()).resolves.toBe(100);
+
+    const [primaryHealth, backupHealth] = provider.getHealth();
+    expect(primaryHealth.healthy).toBe(false);
+    expect(primaryHealth.lastError).toBeDefined();
+    expect(backupHealth.healthy).toBe(true);
+  });
+
+  it('should not retry JSON-RPC errors on other endpoints', async () => {
+    const primary = await startNode();
+    const backup = await startNode();
+    const provider = createProvider([primary.url, backup.url]);
+    await provider.getNetwork();
+    primary.respond = backup.respond = (method) =>
+      method === 'eth_call' ? { error: { code: 3, message: 'execution reverted' } } : undefined;
+    const before = primary.calls.length + backup.calls.length;
+
+    await expect(provider.send('eth_call', [{ to: ethers.ZeroAddress }, 'latest'])).rejects.toThrow();
+    expect(primary.calls.length + backup.calls.length - before).toBe(1);
+  });
+
+  it('should spread reads across healthy endpoints', async () => {
+    const first = await startNode();
+    const second = await startNode();
+    const provider = createProvider([first.url, second.url]);
+
+    for (let i = 0; i < 4; i++) {
+      await provider.send('eth_blockNumber', []);
+    }
+
+    expect(first.calls.filter((method) => method === 'eth_blockNumber').length).toBeGreaterThan(0);
+    expect(second.calls.filter((method) => method === 'eth_blockNumber').length).toBeGreaterThan(0);
+  });
+
+  it('should report block height and lag per endpoint', async () => {
+    const current = await startNode(120);
+    const lagging = await startNode(100);
+    const provider = createProvider([current.url, lagging.url]);
+
+    const health = await provider.checkHealth();
+
+    expect(health[0]).toMatchObject({ url: current.url, healthy: true, blockNumber: 120, blocksBehind: 0 });
+    expect(health[1]).toMatchObject({ url: lagging.url, healthy: false, blockNumber: 100, blocksBehind: 20 });
+    expect(health[0].latencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should treat an already known rebroadcast as success', async () => {
+    const primary = await startNode();
+    const backup = await startNode();
+    const provider = createProvider([primary.url, backup.url]);
+    await provider.getNetwork();
+    primary.status = 503;
+    backup.respond = (method) =>
+      method === 'eth_sendRawTransaction' ? { error: { code: -32010, message: 'already known' } } : undefined;
+
+    const raw = '0xdeadbeef';
+    await expect(provider.send('eth_sendRawTransaction', [raw])).resolves.toBe(ethers.keccak256(raw));
+  });
+
+  it('should return the hash of a transaction the node already has', async () => {
+    const node = await startNode();
+    const provider = createProvider([node.url]);
+    node.respond = (method) =>
+      method === 'eth_sendRawTransaction' ? { error: { code: -32010, message: 'already known' } } : undefined;
+
+    const raw = '0xdeadbeef';
+    await expect(provider.send('eth_sendRawTransaction', [raw])).resolves.toBe(ethers.keccak256(raw));
+    expect(node.calls.filter((method) => method === 'eth_sendRawTransaction')).toHaveLength(1);
+  });
+
+  it('should fail when every endpoint is down', async () => {
+    const node = await startNode();
+    node.status = 500;
+    const provider = createProvider([node.url]);
+
+    await expect(provider._send({ method: 'eth_blockNumber', params: [], id: 1, jsonrpc: '2.0' }))
+      .rejects.toThrow('All RPC endpoints failed');
+  });
+});
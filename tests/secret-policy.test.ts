@@ -0,0 +1,67 @@
+/**
+ * Tests for SecretPolicy
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { SecretPolicy, describeSecret } from '../src/secret-policy';
+import { WalletManager } from '../src/wallet-manager';
+
+describe('SecretPolicy', () => {
+  const testMnemonic = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+  it('should strip secrets by default', () => {
+    const policy = new SecretPolicy();
+    const info = policy.redact({ address: '0x0', privateKey: '0x1', mnemonic: testMnemonic, publicKey: '0x2' });
+
+    expect(info).toEqual({ address: '0x0', publicKey: '0x2' });
+    expect(policy.deliver(ethers.Wallet.fromPhrase(testMnemonic))).toBeUndefined();
+  });
+
+  it('should reject unknown delivery modes', () => {
+    expect(() => new SecretPolicy({ delivery: 'stdout' as any })).toThrow('Invalid secret delivery');
+  });
+
+  it('should require a passphrase for file delivery', () => {
+    expect(() => new SecretPolicy({ delivery: 'file', fileDir: os.tmpdir() })).toThrow('requires a directory and a passphrase');
+  });
+
+  it('should write new secrets to an encrypted file', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'rootstock-secrets-'));
+    try {
+      const policy = new SecretPolicy({
+        delivery: 'file',
+        fileDir: directory,
+        filePassphrase: 'secret',
+        keystoreOptions: { scryptN: 1024 },
+      });
+      const walletManager = new WalletManager({ secretPolicy: policy });
+
+      const info = walletManager.createWallet();
+      const file = fs.readFileSync(info.secretLocation!, 'utf8');
+
+      expect(info.mnemonic).toBeUndefined();
+      expect(ethers.Wallet.fromEncryptedJsonSync(file, 'secret').address).toBe(info.address);
+      expect(describeSecret(info)).toContain(info.secretLocation);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should write new secrets to stderr only', () => {
+    const stderr = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const stdout = jest.spyOn(console, 'log');
+    try {
+      const policy = new SecretPolicy({ delivery: 'stderr' });
+
+      expect(policy.deliver(ethers.Wallet.fromPhrase(testMnemonic))).toBe('server stderr');
+      expect(stderr).toHaveBeenCalledWith(expect.stringContaining(testMnemonic));
+      expect(stdout).not.toHaveBeenCalled();
+    } finally {
+      stderr.mockRestore();
+      stdout.mockRestore();
+    }
+  });
+});
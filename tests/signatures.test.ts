@@ -0,0 +1,95 @@
+/**
+ * Tests for signature helpers
+ */
+
+import { ethers } from 'ethers';
+import {
+  getPermitType,
+  getSignatureDigest,
+  normalizeTypes,
+  recoverSigner,
+  signMessage,
+  signTypedData,
+  TypedDataPayload,
+} from '../src/signatures';
+
+describe('Signatures', () => {
+  const wallet = new ethers.Wallet('0x3cf90f4acdaee72ab90c0da7eda158ec1e908a5698aaf11a99070bba5da18b17');
+
+  const order: TypedDataPayload = {
+    domain: { name: 'Exchange', version: '1', chainId: 31 },
+    types: {
+      EIP712Domain: [
+        { name: 'name', type: 'string' },
+        { name: 'version', type: 'string' },
+        { name: 'chainId', type: 'uint256' },
+      ],
+      Order: [
+        { name: 'maker', type: 'Party' },
+        { name: 'amount', type: 'uint256' },
+      ],
+      Party: [{ name: 'wallet', type: 'address' }],
+      Unrelated: [{ name: 'flag', type: 'bool' }],
+    },
+    message: { maker: { wallet: wallet.address }, amount: '1000' },
+    primaryType: 'Order',
+  };
+
+  describe('signMessage', () => {
+    it('should produce a personal_sign signature', async () => {
+      const signature = await signMessage(wallet, 'login nonce 42');
+
+      expect(ethers.verifyMessage('login nonce 42', signature)).toBe(wallet.address);
+      expect(recoverSigner(getSignatureDigest('login nonce 42'), signature)).toBe(wallet.address);
+    });
+
+    it('should sign hex messages as raw bytes', async () => {
+      const signature = await signMessage(wallet, '0xdeadbeef', 'hex');
+
+      expect(ethers.verifyMessage(ethers.getBytes('0xdeadbeef'), signature)).toBe(wallet.address);
+      expect(recoverSigner(getSignatureDigest('0xdeadbeef', undefined, 'hex'), signature)).toBe(wallet.address);
+    });
+
+    it('should reject invalid hex messages', async () => {
+      await expect(signMessage(wallet, 'not hex', 'hex')).rejects.toThrow('not a valid hex string');
+    });
+  });
+
+  describe('signTypedData', () => {
+    it('should sign and recover EIP-712 data', async () => {
+      const signature = await signTypedData(wallet, order);
+
+      expect(recoverSigner(getSignatureDigest(undefined, order), signature)).toBe(wallet.address);
+    });
+
+    it('should keep only types reachable from the primary type', () => {
+      expect(Object.keys(normalizeTypes(order.types, 'Order')).sort()).toEqual(['Order', 'Party']);
+      expect(() => normalizeTypes(order.types, 'Missing')).toThrow('Primary type Missing is not defined');
+    });
+
+    it('should recognise permits by their primary type', () => {
+      const permit: TypedDataPayload = {
+        domain: { name: 'Token', version: '1', chainId: 31 },
+        types: {
+          Permit: [
+            { name: 'owner', type: 'address' },
+            { name: 'spender', type: 'address' },
+            { name: 'value', type: 'uint256' },
+          ],
+        },
+        message: { owner: wallet.address, spender: wallet.address, value: '1000' },
+      };
+
+      expect(getPermitType(permit)).toBe('Permit');
+      expect(getPermitType(order)).toBeUndefined();
+    });
+  });
+
+  it('should return null for malformed signatures', () => {
+    expect(recoverSigner(getSignatureDigest('hello'), '0x1234')).toBeNull();
+  });
+
+  it('should require a message or typed data', () => {
+    expect(() => getSignatureDigest()).toThrow('Either message or typedData must be provided');
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Tests for SpendingPolicy
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { SpendingPolicy, SpendingPolicyConfig, decodeTokenCall } from '../src/spending-policy';
+
+describe('SpendingPolicy', () => {
+  const wallet = '0x0E17561FEd60D7966Ab9d22A32D7B01dB9F02818';
+  const recipient = '0x742d35cc6634c0532925a3b8d4c9db96590c6c87';
+  const token = '0x2AcC95758f8b5F583470bA265Eb685a8f45fC9D5';
+  const contract = '0x9858EfFD232B4033E47d90003D41EC34EcaEda94';
+  let directory: string;
+  let stateFile: string;
+
+  const config: SpendingPolicyConfig = {
+    wallets: {
+      [wallet]: {
+        maxPerTransaction: '0.5',
+        dailyLimit: '1',
+        tokenLimits: { [token]: { maxPerTransaction: '100', dailyLimit: '150' } },
+        allowedRecipients: [recipient, contract, token],
+        allowedMethods: ['approve', `${contract}:deposit(uint256)`, '0xa9059cbb'],
+      },
+    },
+  };
+
+  const spend = (policy: SpendingPolicy, request: Parameters<SpendingPolicy['reserve']>[0]) => {
+    policy.commit(policy.reserve(request));
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'rootstock-spending-'));
+    stateFile = path.join(directory, 'state.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should not restrict wallets without a policy', () => {
+    const policy = new SpendingPolicy(config, stateFile);
+
+    expect(() => policy.reserve({ from: recipient, to: wallet, value: ethers.parseEther('100') })).not.toThrow();
+  });
+
+  it('should enforce the per-transaction limit', () => {
+    const policy = new SpendingPolicy(config, stateFile);
+
+    expect(() => policy.reserve({ from: wallet, to: recipient, value: ethers.parseEther('0.6') }))
+      .toThrow('exceeds the per-transaction limit of 0.5');
+  });
+
+  it('should enforce the daily limit including pending transactions', () => {
+    const policy = new SpendingPolicy(config, stateFile);
+    spend(policy, { from: wallet, to: recipient, value: ethers.parseEther('0.5') });
+    const pending = policy.reserve({ from: wallet, to: recipient, value: ethers.parseEther('0.4') });
+
+    expect(() => policy.reserve({ from: wallet, to: recipient, value: ethers.parseEther('0.2') }))
+      .toThrow('would exceed the daily limit of 1');
+
+    policy.release(pending);
+    expect(() => policy.reserve({ from: wallet, to: recipient, value: ethers.parseEther('0.2') })).not.toThrow();
+  });
+
+  it('should check a request without holding its amount', () => {
+    const policy = new SpendingPolicy(config, stateFile);
+
+    expect(() => policy.check({ from: wallet, to: recipient, value: ethers.parseEther('0.6') }))
+      .toThrow('exceeds the per-transaction limit of 0.5');
+    policy.check({ from: wallet, to: recipient, value: ethers.parseEther('0.5') });
+    policy.check({ from: wallet, to: recipient, value: ethers.parseEther('0.5') });
+
+    expect(() => spend(policy, { from: wallet, to: recipient, value: ethers.parseEther('0.5') })).not.toThrow();
+    expect(policy.getDailySpent(wallet).native).toBe('0.5');
+  });
+
+  it('should keep daily totals across restarts', () => {
+    spend(new SpendingPolicy(config, stateFile), { from: wallet, to: recipient, value: ethers.parseEther('0.5') });
+    const restarted = new SpendingPolicy(config, stateFile);
+
+    expect(restarted.getDailySpent(wallet).native).toBe('0.5');
+    spend(restarted, { from: wallet, to: recipient, value: ethers.parseEther('0.5') });
+    expect(() => restarted.reserve({ from: wallet, to: recipient, value: 1n })).toThrow('daily limit');
+  });
+
+  it('should write the state file readable only by the owner', () => {
+    spend(new SpendingPolicy(config, stateFile), { from: wallet, to: recipient, value: ethers.parseEther('0.1') });
+
+    expect(fs.statSync(stateFile).mode & 0o777).toBe(0o600);
+  });
+
+  it('should reset totals on a new day', () => {
+    fs.writeFileSync(stateFile, JSON.stringify({
+      day: '2000-01-01',
+      spent: { [wallet.toLowerCase()]: { native: ethers.parseEther('1').toString(), tokens: {} } },
+    }));
+    const policy = new SpendingPolicy(config, stateFile);
+
+    expect(policy.getDailySpent(wallet).native).toBe('0.0');
+  });
+
+  it('should enforce token limits in token units', () => {
+    const policy = new SpendingPolicy(config, stateFile);
+    const amount = (value: string) => ({ address: token, amount: ethers.parseUnits(value, 6), decimals: 6 });
+
+    expect(() => policy.reserve({ from: wallet, to: recipient, token: amount('101') }))
+      .toThrow('per-transaction limit of 100');
+
+    spend(policy, { from: wallet, to: recipient, token: amount('100') });
+    expect(() => policy.reserve({ from: wallet, to: recipient, token: amount('51') }))
+      .toThrow('daily limit of 150');
+  });
+
+  it('should hold raw ERC20 calldata to the token limits and recipient allowlist', () => {
+    const policy = new SpendingPolicy(config, stateFile);
+    const erc20 = new ethers.Interface(['function transfer(address,uint256)', 'function approve(address,uint256)']);
+    const request = (data: string) => {
+      const call = decodeTokenCall(data);
+      return {
+        from: wallet,
+        to: token,
+        payee: call?.payee,
+        token: call ? { address: token, amount: call.amount, decimals: 6 } : undefined,
+      };
+    };
+
+    expect(() => policy.reserve(request(erc20.encodeFunctionData('transfer', [recipient, ethers.parseUnits('101', 6)]))))
+      .toThrow('per-transaction limit of 100');
+    expect(() => policy.reserve(request(erc20.encodeFunctionData('approve', [wallet, ethers.parseUnits('1', 6)]))))
+      .toThrow(`recipient ${wallet} is not in the allowlist`);
+    expect(() => policy.reserve(request(erc20.encodeFunctionData('transfer', [recipient, ethers.parseUnits('100', 6)]))))
+      .not.toThrow();
+    expect(decodeTokenCall('0xd0e30db0')).toBeUndefined();
+  });
+
+  it('should only allow listed recipients', () => {
+    const policy = new SpendingPolicy(config, stateFile);
+
+    expect(() => policy.reserve({ from: wallet, to: wallet, value: 1n })).toThrow('is not in the allowlist');
+  });
+
+  it('should match methods by name, scoped signature and selector', () => {
+    const policy = new SpendingPolicy(config, stateFile);
+    const transfer = ethers.FunctionFragment.from('function transfer(address,uint256)');
+
+    expect(() => policy.reserve({ from: wallet, to: token, method: { name: 'approve' } })).not.toThrow();
+    expect(() => policy.reserve({ from: wallet, to: contract, method: { name: 'deposit', signature: 'deposit(uint256)' } })).not.toThrow();
+    expect(() => policy.reserve({ from: wallet, to: token, method: { name: 'deposit', signature: 'deposit(uint256)' } }))
+      .toThrow('method deposit(uint256) is not allowed');
+    expect(() => policy.reserve({
+      from: wallet,
+      to: token,
+      method: { name: transfer.name, signature: transfer.format(), selector: transfer.selector },
+    })).not.toThrow();
+    expect(() => policy.reserve({ from: wallet, method: { name: 'deploy' } })).toThrow('method deploy is not allowed');
+  });
+
+  it('should refuse permits only for wallets under a policy', () => {
+    const policy = new SpendingPolicy(config, stateFile);
+
+    expect(() => policy.checkPermit(wallet, 'PermitSingle')).toThrow('signing PermitSingle approvals is not allowed');
+    expect(() => policy.checkPermit(recipient, 'Permit')).not.toThrow();
+  });
+
+  it('should reject malformed limits at startup', () => {
+    expect(() => new SpendingPolicy({ defaults: { dailyLimit: 'lots' } })).toThrow();
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for transaction input and receipt decoding
+ */
+
+import { ethers } from 'ethers';
+import {
+  decodeCalldata,
+  decodeReceiptLogs,
+  decodeRevertData,
+  describeRevert,
+  getKnownInterfaces,
+  replayTransaction,
+} from '../src/transaction-decoder';
+import { FULL_ERC20_ABI, ERC721_ABI, OPENZEPPELIN_ERRORS_ABI } from '../src/erc20-contracts';
+
+describe('transaction decoder', () => {
+  const owner = ethers.getAddress('0x742d35cc6634c0532925a3b8d4c9db96590c6c87');
+  const recipient = ethers.getAddress('0x8ba1f109551bd432803012645ac136ddd64dba72');
+  const erc20 = new ethers.Interface(FULL_ERC20_ABI);
+  const erc721 = new ethers.Interface(ERC721_ABI);
+
+  const makeLog = (index: number, encoded: { topics: string[]; data: string }) => ({
+    address: recipient,
+    blockNumber: 10,
+    blockHash: `0x${'ab'.repeat(32)}`,
+    transactionHash: `0x${'cd'.repeat(32)}`,
+    index,
+    topics: encoded.topics,
+    data: encoded.data,
+  }) as unknown as ethers.Log;
+
+  it('should decode token calls with the built-in ABIs', () => {
+    const data = erc20.encodeFunctionData('transfer', [recipient, 2500n]);
+
+    expect(decodeCalldata(data, getKnownInterfaces())).toEqual({
+      name: 'transfer',
+      signature: 'transfer(address,uint256)',
+      selector: data.slice(0, 10),
+      args: { to: recipient, amount: '2500' },
+    });
+  });
+
+  it('should prefer a supplied ABI', () => {
+    const abi = ['function transfer(address recipient, uint256 wad)'];
+    const data = erc20.encodeFunctionData('transfer', [recipient, 1n]);
+
+    expect(decodeCalldata(data, getKnownInterfaces(abi))?.args).toEqual({ recipient, wad: '1' });
+  });
+
+  it('should leave unknown or missing input undecoded', () => {
+    const interfaces = getKnownInterfaces();
+
+    expect(decodeCalldata('0x', interfaces)).toBeUndefined();
+    expect(decodeCalldata('0xdeadbeef00', interfaces)).toBeUndefined();
+  });
+
+  it('should decode receipt logs of both token standards', () => {
+    const logs = decodeReceiptLogs([
+      makeLog(0, erc721.encodeEventLog('Transfer', [ethers.ZeroAddress, owner, 1n])),
+      makeLog(1, erc20.encodeEventLog('OwnershipTransferred', [ethers.ZeroAddress, owner])),
+      makeLog(2, { topics: [ethers.id('Unknown()')], data: '0x' }),
+    ], getKnownInterfaces());
+
+    expect(logs[0]).toMatchObject({ event: 'Transfer', args: { from: ethers.ZeroAddress, to: owner, tokenId: '1' } });
+    expect(logs[1]).toMatchObject({ event: 'OwnershipTransferred', args: { previousOwner: ethers.ZeroAddress, newOwner: owner } });
+    expect(logs[2].event).toBeUndefined();
+  });
+
+  describe('reverts', () => {
+    const errors = new ethers.Interface(OPENZEPPELIN_ERRORS_ABI);
+    const errorString = (message: string) =>
+      ethers.concat(['0x08c379a0', ethers.AbiCoder.defaultAbiCoder().encode(['string'], [message])]);
+
+    it('should decode Error(string) and panics', () => {
+      const panic = ethers.concat(['0x4e487b71', ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [0x11])]);
+
+      expect(decodeRevertData(errorString('Not enough tokens'), []).reason).toBe('Not enough tokens');
+      expect(decodeRevertData(panic, [])).toMatchObject({
+        name: 'Panic',
+        panicCode: 0x11,
+        reason: 'panic 0x11 (arithmetic overflow or underflow)',
+      });
+    });
+
+    it('should decode bundled OpenZeppelin and supplied custom errors', () => {
+      const data = errors.encodeErrorResult('ERC20InsufficientBalance', [owner, 5n, 10n]);
+      expect(decodeRevertData(data, getKnownInterfaces())).toMatchObject({
+        name: 'ERC20InsufficientBalance',
+        reason: `ERC20InsufficientBalance(sender=${owner}, balance=5, needed=10)`,
+        args: { sender: owner, balance: '5', needed: '10' },
+      });
+
+      const abi = ['error SaleClosed(uint256 closedAt)'];
+      const custom = new ethers.Interface(abi).encodeErrorResult('SaleClosed', [1700000000n]);
+      expect(decodeRevertData(custom, getKnownInterfaces(abi)).reason).toBe('SaleClosed(closedAt=1700000000)');
+      expect(decodeRevertData(custom, getKnownInterfaces()).reason).toBe(`unknown custom error ${custom.slice(0, 10)}`);
+    });
+
+    it('should report reverts without data', () => {
+      expect(decodeRevertData('0x', []).reason).toBe('reverted without a reason');
+    });
+
+    it('should find revert data nested in provider errors', () => {
+      const data = errors.encodeErrorResult('OwnableUnauthorizedAccount', [owner]);
+      const error = { code: 'UNKNOWN_ERROR', info: { error: { code: -32015, message: 'reverted', data } } };
+
+      expect(describeRevert(error, getKnownInterfaces())?.name).toBe('OwnableUnauthorizedAccount');
+      expect(describeRevert(new Error('connection refused'), getKnownInterfaces())).toBeUndefined();
+    });
+
+    it('should replay a failed transaction against the previous block', async () => {
+      const call = jest.fn(async () => {
+        throw Object.assign(new Error('execution reverted'), { data: errorString('Paused') });
+      });
+      const provider = { call } as unknown as ethers.Provider;
+      const tx = { from: owner, to: recipient, data: '0x', value: 0n, gasLimit: 21000n };
+
+      expect((await replayTransaction(provider, tx, 100, []))?.reason).toBe('Paused');
+      expect(call).toHaveBeenCalledWith(expect.objectContaining({ blockTag: 99 }));
+
+      call.mockResolvedValueOnce('0x' as never);
+      expect(await replayTransaction(provider, tx, 100, [])).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Tests for TransactionHistoryIndex
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { HistorySource, TransactionHistoryIndex, TransferRecord } from '../src/transaction-history';
+
+describe('TransactionHistoryIndex', () => {
+  const address = '0x742d35Cc6634C0532925a3b8D4C9db96590c6C87';
+  const other = '0x8ba1f109551bD432803012645Ac136ddd64DBA72';
+  const token = '0x2AcC95758f8b5F583470ba265EB685a8F45fC9D5';
+
+  let transfers: TransferRecord[];
+  let source: HistorySource & { fetch: jest.Mock };
+  let directory: string;
+
+  const transfer = (blockNumber: number, extra: Partial<TransferRecord> = {}): TransferRecord => ({
+    hash: `0x${blockNumber.toString(16).padStart(64, '0')}`,
+    blockNumber,
+    from: address,
+    to: other,
+    value: '1000000000000000000',
+    status: 'confirmed',
+    ...extra,
+  });
+
+  beforeEach(() => {
+    transfers = [];
+    source = {
+      name: 'test',
+      maxBlockRange: 100,
+      fetch: jest.fn(async (_address: string, fromBlock: number, toBlock: number) =>
+        transfers.filter((record) => record.blockNumber >= fromBlock && record.blockNumber <= toBlock)
+      ),
+    };
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'rootstock-history-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should page transfers newest first', async () => {
+    transfers = [transfer(10), transfer(30), transfer(20)];
+    const index = new TransactionHistoryIndex(source, null, 0);
+
+    const first = await index.getHistory(address, 50, { pageSize: 2 });
+    expect(first.transactions.map((tx) => tx.blockNumber)).toEqual([30, 20]);
+    expect(first.transactions[0].value).toBe('1.0');
+    expect(first).toMatchObject({ totalCount: 3, page: 1, pageSize: 2, fromBlock: 0, syncedToBlock: 50 });
+
+    const second = await index.getHistory(address, 50, { page: 2, pageSize: 2 });
+    expect(second.transactions.map((tx) => tx.blockNumber)).toEqual([10]);
+  });
+
+  it('should filter by token and format token amounts', async () => {
+    transfers = [
+      transfer(10),
+      transfer(20, { tokenAddress: token, tokenSymbol: 'TKN', tokenDecimals: 6, value: '2500000', logIndex: 0 }),
+    ];
+    const history = await new TransactionHistoryIndex(source, null, 0).getHistory(address, 50, {
+      tokenAddress: token.toLowerCase(),
+    });
+
+    expect(history.totalCount).toBe(1);
+    expect(history.transactions[0]).toMatchObject({ value: '2.5', tokenSymbol: 'TKN', tokenAddress: token });
+  });
+
+  it('should sync incrementally in bounded ranges', async () => {
+    transfers = [transfer(50), transfer(150), transfer(249)];
+    const index = new TransactionHistoryIndex(source, null, 0, 0);
+
+    const first = await index.getHistory(address, 249);
+    expect(first).toMatchObject({ totalCount: 1, syncedToBlock: 99, latestBlock: 249 });
+
+    await index.getHistory(address, 249);
+    const third = await index.getHistory(address, 249);
+    expect(third).toMatchObject({ totalCount: 3, syncedToBlock: 249 });
+    expect(source.fetch.mock.calls.map((call) => [call[1], call[2]])).toEqual([[0, 99], [100, 199], [200, 249]]);
+
+    await index.getHistory(address, 249);
+    expect(source.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should start a new address 2000 blocks back and index one block range per call', async () => {
+    const index = new TransactionHistoryIndex(source);
+
+    expect(await index.getHistory(address, 5000)).toMatchObject({ fromBlock: 3001, syncedToBlock: 3100 });
+    expect(await index.getHistory(address, 5000)).toMatchObject({ fromBlock: 3001, syncedToBlock: 3200 });
+  });
+
+  it('should not duplicate transfers returned twice', async () => {
+    const shared = transfer(10);
+    transfers = [shared, { ...shared }, transfer(10, { tokenAddress: token, logIndex: 3 })];
+    const history = await new TransactionHistoryIndex(source, null, 0).getHistory(address, 50);
+
+    expect(history.totalCount).toBe(2);
+  });
+
+  it('should persist history between instances', async () => {
+    const file = path.join(directory, '31.json');
+    transfers = [transfer(10)];
+    await new TransactionHistoryIndex(source, file, 0, 0).getHistory(address, 50);
+
+    transfers.push(transfer(60));
+    const history = await new TransactionHistoryIndex(source, file, 0, 0).getHistory(address.toLowerCase(), 80);
+
+    expect(history.totalCount).toBe(2);
+    expect(source.fetch.mock.calls.map((call) => [call[1], call[2]])).toEqual([[0, 50], [51, 80]]);
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+  });
+
+  it('should only keep transfers from final blocks', async () => {
+    const file = path.join(directory, '31.json');
+    transfers = [transfer(10), transfer(45)];
+    const first = await new TransactionHistoryIndex(source, file, 0, 12).getHistory(address, 50);
+    expect(first).toMatchObject({ totalCount: 2, syncedToBlock: 50 });
+
+    // Block 45 was reorged away
+    transfers = [transfer(10)];
+    const second = await new TransactionHistoryIndex(source, file, 0, 12).getHistory(address, 50);
+
+    expect(second.totalCount).toBe(1);
+    expect(JSON.parse(fs.readFileSync(file, 'utf8')).addresses[address.toLowerCase()].syncedTo).toBe(38);
+  });
+});
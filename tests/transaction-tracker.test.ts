@@ -0,0 +1,90 @@
+/**
+ * Tests for TransactionTracker
+ */
+
+import { ethers } from 'ethers';
+import { TransactionTracker } from '../src/transaction-tracker';
+
+describe('TransactionTracker', () => {
+  const from = '0x742d35Cc6634C0532925a3b8D4C9db96590c6C87';
+  const hash = `0x${'11'.repeat(32)}`;
+  const replacementHash = `0x${'22'.repeat(32)}`;
+
+  let chain: {
+    latest: number;
+    minedNonce: number;
+    transaction: { hash: string; from: string; nonce: number } | null;
+    receipt: { blockNumber: number; blockHash: string; status: number; gasUsed: bigint } | null;
+    blocks: Record<number, Array<{ hash: string; from: string; nonce: number }>>;
+  };
+  let provider: ethers.Provider;
+
+  beforeEach(() => {
+    chain = {
+      latest: 100,
+      minedNonce: 4,
+      transaction: { hash, from, nonce: 4 },
+      receipt: null,
+      blocks: {},
+    };
+    provider = {
+      getTransaction: jest.fn(async () => chain.transaction),
+      getTransactionReceipt: jest.fn(async () => chain.receipt),
+      getBlockNumber: jest.fn(async () => chain.latest),
+      getTransactionCount: jest.fn(async () => chain.minedNonce),
+      getBlock: jest.fn(async (number: number) => ({ prefetchedTransactions: chain.blocks[number] || [] })),
+    } as unknown as ethers.Provider;
+  });
+
+  it('should report a pending transaction', async () => {
+    const status = await new TransactionTracker().track(provider, hash);
+
+    expect(status).toMatchObject({ status: 'pending', confirmations: 0, from, nonce: 4 });
+  });
+
+  it('should count confirmations once mined', async () => {
+    const tracker = new TransactionTracker();
+    chain.receipt = { blockNumber: 99, blockHash: '0xabc', status: 1, gasUsed: 21000n };
+
+    expect(await tracker.track(provider, hash, 3)).toMatchObject({
+      status: 'included',
+      confirmations: 2,
+      requiredConfirmations: 3,
+      blockNumber: 99,
+      gasUsed: '21000',
+    });
+
+    chain.latest = 101;
+    expect((await tracker.track(provider, hash, 3)).status).toBe('confirmed');
+  });
+
+  it('should report reverted transactions as failed', async () => {
+    chain.receipt = { blockNumber: 90, blockHash: '0xabc', status: 0, gasUsed: 50000n };
+
+    expect((await new TransactionTracker().track(provider, hash)).status).toBe('failed');
+  });
+
+  it('should notice a dropped transaction it sent', async () => {
+    const tracker = new TransactionTracker();
+    tracker.record({ hash, from, nonce: 4 });
+    chain.transaction = null;
+
+    expect((await tracker.track(provider, hash)).status).toBe('dropped');
+  });
+
+  it('should notice a replaced transaction and find its replacement', async () => {
+    const tracker = new TransactionTracker();
+    tracker.record({ hash, from, nonce: 4 });
+    chain.transaction = null;
+    chain.minedNonce = 5;
+    chain.blocks[98] = [{ hash: replacementHash, from: from.toLowerCase(), nonce: 4 }];
+
+    expect(await tracker.track(provider, hash)).toMatchObject({ status: 'replaced', replacedBy: replacementHash });
+  });
+
+  it('should report unknown transactions as not found', async () => {
+    chain.transaction = null;
+
+    expect((await new TransactionTracker().track(provider, hash)).status).toBe('not_found');
+  });
+});
@@ -2,7 +2,9 @@
  * Tests for WalletManager
  */
 
+import { ethers } from 'ethers';
 import { WalletManager } from '../src/wallet-manager';
+import { SecretPolicy } from '../src/secret-policy';
 
 describe('WalletManager', () => {
   let walletManager: WalletManager;
@@ -12,21 +14,30 @@ describe('WalletManager', () => {
   });
 
   describe('createWallet', () => {
-    it('should create a new wallet with mnemonic', () => {
+    it('should create a new wallet without returning its secrets', () => {
       const wallet = walletManager.createWallet('TestWallet');
       
       expect(wallet.address).toBeDefined();
       expect(wallet.address).toMatch(/^0x[a-fA-F0-9]{40}$/);
+      expect(wallet.mnemonic).toBeUndefined();
+      expect(wallet.privateKey).toBeUndefined();
+      expect(wallet.publicKey).toBeDefined();
+    });
+
+    it('should return the mnemonic when revealing is allowed', () => {
+      walletManager = new WalletManager({ secretPolicy: new SecretPolicy({ allowReveal: true }) });
+      const wallet = walletManager.createWallet('TestWallet');
+
       expect(wallet.mnemonic).toBeDefined();
       expect(wallet.privateKey).toBeDefined();
-      expect(wallet.publicKey).toBeDefined();
+      expect(wallet.secretWarning).toBeUndefined();
     });
 
     it('should create wallet without name parameter', () => {
       const wallet = walletManager.createWallet();
       
       expect(wallet.address).toBeDefined();
-      expect(wallet.mnemonic).toBeDefined();
+      expect(wallet.name).toBeDefined();
     });
 
     it('should set first wallet as current wallet', () => {
@@ -45,7 +56,7 @@ describe('WalletManager', () => {
       const wallet = walletManager.importWallet(undefined, testMnemonic);
       
       expect(wallet.address).toBe(expectedAddress);
-      expect(wallet.mnemonic).toBe(testMnemonic);
+      expect(wallet.mnemonic).toBeUndefined();
     });
 
     it('should import wallet from private key', () => {
@@ -55,7 +66,8 @@ describe('WalletManager', () => {
       const wallet = walletManager.importWallet(privateKey);
 
       expect(wallet.address).toBe(expectedAddr);
-      expect(wallet.privateKey).toBe(privateKey);
+      expect(wallet.privateKey).toBeUndefined();
+      expect(walletManager.getWalletInfo(expectedAddr).privateKey).toBeUndefined();
     });
 
     it('should throw error if neither private key nor mnemonic provided', () => {
@@ -106,6 +118,110 @@ describe('WalletManager', () => {
     });
   });
 
+  describe('wallet names', () => {
+    it('should keep the given name', () => {
+      const wallet = walletManager.createWallet('treasury');
+
+      expect(wallet.name).toBe('treasury');
+      expect(walletManager.listWallets()[0].name).toBe('treasury');
+    });
+
+    it('should generate a name when none is given', () => {
+      const wallet = walletManager.createWallet();
+
+      expect(wallet.name).toBeDefined();
+      expect(walletManager.getWalletName(wallet.address)).toBe(wallet.name);
+    });
+
+    it('should look up wallets by name', () => {
+      walletManager.createWallet('treasury');
+      const hot = walletManager.createWallet('ops-hot');
+
+      expect(walletManager.resolveAddress('OPS-HOT')).toBe(hot.address);
+      expect(walletManager.getWallet('ops-hot').address).toBe(hot.address);
+
+      walletManager.setCurrentWallet('ops-hot');
+      expect(walletManager.getCurrentAddress()).toBe(hot.address);
+    });
+
+    it('should pass addresses through unchanged', () => {
+      const address = '0x1234567890123456789012345678901234567890';
+      expect(walletManager.resolveAddress(address)).toBe(address);
+    });
+
+    it('should reject duplicate names', () => {
+      walletManager.createWallet('treasury');
+
+      expect(() => walletManager.createWallet('Treasury')).toThrow('already in use');
+    });
+
+    it('should load wallets whose configured name is already taken under a generated name', () => {
+      const keys = [
+        '0x3cf90f4acdaee72ab90c0da7eda158ec1e908a5698aaf11a99070bba5da18b17',
+        '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d',
+      ];
+      process.env.ROOTSTOCK_PRIVATE_KEYS = keys.join(',');
+      process.env.ROOTSTOCK_WALLET_NAMES = 'treasury,Treasury';
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      try {
+        walletManager = new WalletManager();
+
+        const second = new ethers.Wallet(keys[1]).address;
+        expect(walletManager.listWallets()).toHaveLength(2);
+        expect(walletManager.resolveAddress('treasury')).toBe(new ethers.Wallet(keys[0]).address);
+        expect(walletManager.getWalletName(second)).not.toMatch(/^treasury$/i);
+        expect(walletManager.getWallet(second).address).toBe(second);
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('already in use'));
+      } finally {
+        delete process.env.ROOTSTOCK_PRIVATE_KEYS;
+        delete process.env.ROOTSTOCK_WALLET_NAMES;
+        warn.mockRestore();
+      }
+    });
+
+    it('should throw for unknown names', () => {
+      expect(() => walletManager.getWallet('unknown')).toThrow('Wallet not found for name');
+    });
+  });
+
+  describe('watch-only wallets', () => {
+    const watchAddress = '0x742d35cc6634c0532925a3b8d4c9db96590c6c87';
+
+    it('should list watch-only wallets', () => {
+      walletManager.addWatchOnlyWallet(watchAddress, 'cold');
+
+      const [wallet] = walletManager.listWallets();
+      expect(wallet.watchOnly).toBe(true);
+      expect(wallet.name).toBe('cold');
+      expect(walletManager.isWatchOnly('cold')).toBe(true);
+    });
+
+    it('should refuse to sign with watch-only wallets', () => {
+      walletManager.addWatchOnlyWallet(watchAddress, 'cold');
+
+      expect(() => walletManager.getWallet('cold')).toThrow('is watch-only and cannot sign');
+      expect(() => walletManager.getCurrentWallet()).toThrow('is watch-only and cannot sign');
+      expect(walletManager.getCurrentAddress().toLowerCase()).toBe(watchAddress);
+    });
+
+    it('should reject invalid addresses', () => {
+      expect(() => walletManager.addWatchOnlyWallet('invalid')).toThrow('Invalid address');
+    });
+
+    it('should become a signing wallet when its key is imported', () => {
+      const privateKey = '0x3cf90f4acdaee72ab90c0da7eda158ec1e908a5698aaf11a99070bba5da18b17';
+      const address = '0x0E17561FEd60D7966Ab9d22A32D7B01dB9F02818';
+      walletManager.addWatchOnlyWallet(address);
+
+      walletManager.importWallet(privateKey);
+
+      expect(walletManager.isWatchOnly(address)).toBe(false);
+      expect(walletManager.getWallet(address).address).toBe(address);
+      expect(walletManager.getWalletCount()).toBe(1);
+    });
+  });
+
   describe('static validation methods', () => {
     it('should validate addresses', () => {
       // Use a known valid Ethereum address (all lowercase)